@@ -0,0 +1,11 @@
+import { runCli } from '../src/cli';
+
+runCli(process.argv.slice(2)).then(
+  (exitCode) => {
+    process.exitCode = exitCode;
+  },
+  (error) => {
+    console.error(error);
+    process.exitCode = 1;
+  },
+);
@@ -0,0 +1,20 @@
+import { openMemoryDatabase, createMemoryHistoryRepository, createMemoryRepository } from '../src/memory';
+import { persistConfidenceDecay } from '../src/engine';
+
+const filename = process.argv[2] ?? 'data/memory.db';
+const db = openMemoryDatabase(filename);
+
+try {
+  const repository = createMemoryRepository(db);
+  const updates = persistConfidenceDecay(repository, { history: createMemoryHistoryRepository(db) });
+
+  console.log(`Database: ${filename}`);
+  console.log(`Decayed memories: ${updates.length}`);
+  for (const update of updates) {
+    console.log(
+      `  ${update.memoryId} ${update.previousConfidence?.toFixed(4) ?? 'new'} -> ${update.newConfidence.toFixed(4)}`,
+    );
+  }
+} finally {
+  db.close();
+}
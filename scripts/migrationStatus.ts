@@ -0,0 +1,30 @@
+import { openMemoryDatabase, getMigrationStatus } from '../src/memory';
+
+const filename = process.argv[2] ?? 'data/memory.db';
+const db = openMemoryDatabase(filename, { migrate: false });
+
+try {
+  const status = getMigrationStatus(db);
+  console.log(`Database: ${filename}`);
+  console.log(`Current schema version: ${status.currentVersion}`);
+  console.log(`Latest known version:   ${status.latestVersion}`);
+
+  if (status.currentVersion > status.latestVersion) {
+    console.log('Database was written by a newer version of this application.');
+    process.exitCode = 2;
+  }
+
+  console.log('\nApplied migrations:');
+  for (const m of status.applied) {
+    console.log(`  ${m.version} ${m.name} (${m.appliedAt.toISOString()})`);
+  }
+  if (status.applied.length === 0) console.log('  (none)');
+
+  console.log('\nPending migrations:');
+  for (const m of status.pending) {
+    console.log(`  ${m.version} ${m.name}`);
+  }
+  if (status.pending.length === 0) console.log('  (none)');
+} finally {
+  db.close();
+}
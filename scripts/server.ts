@@ -0,0 +1,22 @@
+import { openMemoryDatabase } from '../src/memory';
+import { createApiServer } from '../src/server';
+
+const filename = process.argv[2] ?? 'data/memory.db';
+const port = Number(process.env.PORT ?? 3000);
+const host = process.env.HOST ?? '127.0.0.1';
+
+const db = openMemoryDatabase(filename);
+const server = createApiServer({ db });
+
+server.listen(port, host, () => {
+  const address = server.address();
+  const boundPort = typeof address === 'object' && address !== null ? address.port : port;
+  console.log(`Database: ${filename}`);
+  console.log(`Listening on http://${host}:${boundPort} (OpenAPI: /openapi.json)`);
+});
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    server.close(() => db.close());
+  });
+}
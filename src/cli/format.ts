@@ -0,0 +1,104 @@
+import type { EngineOutputContract } from '../models/pipeline';
+import type { LearnedMemoryRecord } from '../models/memory';
+import type { AuditLogEntry } from '../memory/auditLogRepository';
+import type { MemoryLineage } from '../memory/provenanceRepository';
+import type { MemoryEvent } from '../memory/memoryHistoryRepository';
+
+function formatValue(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+export function formatEngineOutput(output: EngineOutputContract): string {
+  const invoice = output.normalizedInvoice;
+  const lines = [
+    `Invoice ${invoice.id} (${invoice.invoiceNumber}, ${invoice.vendorName})`,
+    `  Decision:   ${output.requiresHumanReview ? 'needs human review' : 'auto-approved'}`,
+    `  Confidence: ${output.confidenceScore.toFixed(2)}`,
+    `  Reasoning:  ${output.reasoning}`,
+  ];
+  if (output.runId !== undefined) lines.push(`  Run:        ${output.runId}`);
+
+  lines.push(`  Corrections (${output.proposedCorrections.length}):`);
+  for (const c of output.proposedCorrections) {
+    lines.push(
+      `    ${c.applied ? 'applied  ' : 'suggested'} ${c.field} = ${formatValue(c.proposedValue)} ` +
+        `(${c.confidence.toFixed(2)}) ${c.reason}`,
+    );
+  }
+  if (output.discrepancies.length > 0) {
+    lines.push(`  Discrepancies (${output.discrepancies.length}):`);
+    for (const d of output.discrepancies) {
+      lines.push(`    ${d.exceedsTolerance ? '!' : ' '} ${d.type} ${d.message}`);
+    }
+  }
+  if (output.memoryUpdates.length > 0) {
+    lines.push(`  Memory updates (${output.memoryUpdates.length}):`);
+    for (const u of output.memoryUpdates) {
+      lines.push(
+        `    ${u.action} ${u.memoryId} ${u.previousConfidence?.toFixed(4) ?? 'new'} -> ${u.newConfidence.toFixed(4)}`,
+      );
+    }
+  }
+  return lines.join('\n');
+}
+
+export function formatMemoryList(records: LearnedMemoryRecord[]): string {
+  if (records.length === 0) return 'No memories found.';
+  return records
+    .map(
+      ({ memory, content }) =>
+        `${memory.id}  ${content.category.padEnd(10)} ${(content.vendorName ?? '-').padEnd(20)} ` +
+        `${(content.field ?? '-').padEnd(24)} confidence ${content.confidence.toFixed(4)}  ` +
+        `usage ${content.usageCount}`,
+    )
+    .join('\n');
+}
+
+export function formatMemoryDetails(
+  record: LearnedMemoryRecord,
+  lineage: MemoryLineage,
+  history: MemoryEvent[],
+): string {
+  const { memory, content } = record;
+  const lines = [
+    `Memory ${memory.id}`,
+    `  Category:   ${content.category}`,
+    `  Vendor:     ${content.vendorName ?? '-'}${content.vendorId !== undefined ? ` (${content.vendorId})` : ''}`,
+    `  Field:      ${content.field ?? '-'}`,
+    `  Confidence: ${content.confidence.toFixed(4)} (${content.approvalCount ?? 0} approved, ` +
+      `${content.rejectionCount ?? 0} rejected, used ${content.usageCount}x)`,
+    `  Created:    ${memory.createdAt.toISOString()}`,
+    `  Updated:    ${memory.updatedAt.toISOString()}`,
+    `  Content:    ${JSON.stringify(content)}`,
+    `  Lineage (${lineage.events.length} events):`,
+  ];
+  for (const e of lineage.events) {
+    lines.push(
+      `    ${e.recordedAt.toISOString()} ${e.action} ${e.source}` +
+        `${e.invoiceId !== undefined ? ` invoice ${e.invoiceId}` : ''}` +
+        `${e.outcome !== undefined ? ` ${e.outcome}` : ''} -> ${e.newConfidence.toFixed(4)}`,
+    );
+  }
+  lines.push(`  History (${history.length} events):`);
+  for (const e of history) {
+    lines.push(
+      `    ${e.recordedAt.toISOString()} ${e.type} ${e.id}` +
+        `${e.invoiceId !== undefined ? ` invoice ${e.invoiceId}` : ''}` +
+        `${e.revertsEventId !== undefined ? ` reverts ${e.revertsEventId}` : ''}`,
+    );
+  }
+  return lines.join('\n');
+}
+
+export function formatAuditEntries(entries: AuditLogEntry[]): string {
+  if (entries.length === 0) return 'No audit entries found.';
+  return entries
+    .map(
+      (e) =>
+        `#${e.sequence} ${e.timestamp.toISOString()} run ${e.runId} invoice ${e.invoiceId} ` +
+        `${e.step}\n    ${JSON.stringify(e.details)}`,
+    )
+    .join('\n');
+}
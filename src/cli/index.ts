@@ -0,0 +1,446 @@
+import * as fs from 'fs';
+import { parseArgs } from 'util';
+import type { SqliteDatabase } from '../memory/db';
+import { openMemoryDatabase } from '../memory/db';
+import type { MemoryRepository } from '../memory/memoryRepository';
+import { createMemoryRepository } from '../memory/memoryRepository';
+import { createAuditLogRepository } from '../memory/auditLogRepository';
+import { createEngineRunRepository } from '../memory/engineRunRepository';
+import type { AuditLogQuery } from '../memory/auditLogRepository';
+import { createMemoryHistoryRepository } from '../memory/memoryHistoryRepository';
+import { createPoLedgerRepository } from '../memory/poLedgerRepository';
+import { createProcessedInvoiceRepository } from '../memory/processedInvoiceRepository';
+import { createProvenanceRepository } from '../memory/provenanceRepository';
+import { createReviewQueueRepository } from '../memory/reviewQueueRepository';
+import { createVendorRepository } from '../memory/vendorRepository';
+import type { AuditEventType } from '../models/audit';
+import type { EngineOutputContract, ReviewerCorrection } from '../models/pipeline';
+import type { LearnedMemoryCategory, LearnedMemoryRecord } from '../models/memory';
+import type { HumanFeedbackInput, ProcessInvoiceOptions } from '../engine';
+import { deleteMemoryWithHistory, learnFromRunFeedback, processInvoiceWithMemory } from '../engine';
+import type { ExtractedInvoiceRecord } from '../engine/extractedInvoices';
+import {
+  humanCorrectionsToFeedback,
+  loadExtractedInvoices,
+  loadHumanCorrections,
+  toNormalizedInvoice,
+} from '../engine/extractedInvoices';
+import { loadPurchaseOrders } from '../engine/poMatching';
+import { loadDeliveryNotes } from '../engine/threeWayMatch';
+import { loadDecisionPolicy } from '../engine/policy';
+import { formatAuditEntries, formatEngineOutput, formatMemoryDetails, formatMemoryList } from './format';
+
+export const CLI_EXIT_CODES = {
+  /** Command succeeded; for `process`, every invoice was auto-approved. */
+  success: 0,
+  error: 1,
+  usage: 2,
+  needsReview: 3,
+  notFound: 4,
+} as const;
+
+export interface CliIo {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+const DEFAULT_IO: CliIo = {
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+};
+
+const USAGE = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  process <invoice.json>                 Process extracted invoice(s) and print the engine output
+  feedback --run <runId>                 Approve, reject or correct fields of a stored run
+           [--approve <field>]... [--reject <field>]... [--correct <field=value>]...
+           [--corrections <human_corrections.json>]
+  memory list [--vendor <name>] [--field <field>] [--category <category>]
+              [--min-confidence <n>] [--limit <n>]
+  memory show <memoryId>
+  memory delete <memoryId>
+  memory export [--out <file>]           Always JSON
+  audit show [--run <runId>] [--invoice <id>] [--vendor <name>] [--memory <memoryId>]
+             [--step <step>] [--from <date>] [--to <date>] [--limit <n>]
+
+Options:
+  --db <file>                SQLite memory database (default data/memory.db)
+  --format json|text         Output format (default text); --json is short for --format json
+  --invoice-id <id>          process: only this invoice from a file holding several
+  --run-id <id>              process, feedback: id the run is stored under (default: generated)
+  --purchase-orders <file>   process, feedback: enable PO matching and the PO ledger
+  --delivery-notes <file>    process, feedback: delivery notes for three-way matching
+  --policy <file>            process, feedback: decision policy JSON
+  --correct <field=value>    feedback: the right value for a field, proposed or not (JSON or plain text)
+  --corrections <file>       feedback: reviewer corrections for the invoice, as in data/human_corrections.json
+
+Exit codes: 0 success / auto-approved, 1 error, 2 usage error, 3 needs human review, 4 not found`;
+
+const MEMORY_CATEGORIES: LearnedMemoryCategory[] = ['vendor', 'correction', 'resolution', 'duplicate'];
+const AUDIT_STEPS: AuditEventType[] = ['recall', 'apply', 'poMatch', 'threeWayMatch', 'decide', 'learn'];
+
+const OPTIONS = {
+  db: { type: 'string' },
+  format: { type: 'string' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+  'invoice-id': { type: 'string' },
+  'run-id': { type: 'string' },
+  'purchase-orders': { type: 'string' },
+  'delivery-notes': { type: 'string' },
+  policy: { type: 'string' },
+  run: { type: 'string' },
+  approve: { type: 'string', multiple: true },
+  reject: { type: 'string', multiple: true },
+  correct: { type: 'string', multiple: true },
+  corrections: { type: 'string' },
+  vendor: { type: 'string' },
+  field: { type: 'string' },
+  category: { type: 'string' },
+  'min-confidence': { type: 'string' },
+  limit: { type: 'string' },
+  out: { type: 'string' },
+  invoice: { type: 'string' },
+  memory: { type: 'string' },
+  step: { type: 'string' },
+  from: { type: 'string' },
+  to: { type: 'string' },
+} as const;
+
+type ParsedArgs = ReturnType<typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>>;
+
+interface CommandContext {
+  db: SqliteDatabase;
+  repository: MemoryRepository;
+  values: ParsedArgs['values'];
+  args: string[];
+  json: boolean;
+  io: CliIo;
+}
+
+/** An error carrying the exit code the CLI should end with. */
+function cliError(message: string, exitCode: number): Error {
+  return Object.assign(new Error(message), { exitCode });
+}
+
+function usageError(message: string): Error {
+  return cliError(message, CLI_EXIT_CODES.usage);
+}
+
+function print(context: CommandContext, json: unknown, text: () => string): void {
+  context.io.stdout(context.json ? JSON.stringify(json, null, 2) : text());
+}
+
+function requireArg(context: CommandContext, index: number, name: string): string {
+  const value = context.args[index];
+  if (value === undefined) throw usageError(`Missing ${name}.`);
+  return value;
+}
+
+function parseNumber(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) throw usageError(`--${name} must be a number, got "${value}".`);
+  return parsed;
+}
+
+function parseDateOption(value: string | undefined, name: string): Date | undefined {
+  if (value === undefined) return undefined;
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) throw usageError(`--${name} must be a date, got "${value}".`);
+  return parsed;
+}
+
+/** Repeated options and comma-separated lists both work: `--approve a --approve b,c`. */
+function listOption(values: string[] | undefined): string[] {
+  return (values ?? []).flatMap((v) => v.split(',')).map((v) => v.trim()).filter((v) => v.length > 0);
+}
+
+/** `--correct field=value`; the value is parsed as JSON when it is valid JSON, e.g. a number. */
+function parseCorrectOption(values: string[] | undefined): ReviewerCorrection[] {
+  return (values ?? []).map((option) => {
+    const separator = option.indexOf('=');
+    const field = option.slice(0, separator).trim();
+    if (separator < 0 || field.length === 0) {
+      throw usageError(`--correct needs <field>=<value>, got "${option}".`);
+    }
+    const text = option.slice(separator + 1);
+    try {
+      return { field, value: JSON.parse(text) as unknown };
+    } catch {
+      return { field, value: text };
+    }
+  });
+}
+
+function loadInvoices(file: string, invoiceId: string | undefined): ExtractedInvoiceRecord[] {
+  const records = loadExtractedInvoices(file);
+  if (invoiceId === undefined) return records;
+  const selected = records.filter((r) => r.invoiceId === invoiceId);
+  if (selected.length === 0) {
+    throw cliError(`Invoice ${invoiceId} not found in ${file}.`, CLI_EXIT_CODES.notFound);
+  }
+  return selected;
+}
+
+function processOptions(context: CommandContext, runId: string | undefined): ProcessInvoiceOptions {
+  const { db, values } = context;
+  const purchaseOrdersFile = values['purchase-orders'];
+  const deliveryNotesFile = values['delivery-notes'];
+  return {
+    runs: createEngineRunRepository(db),
+    invoiceRegistry: createProcessedInvoiceRepository(db),
+    vendors: createVendorRepository(db),
+    provenance: createProvenanceRepository(db),
+    history: createMemoryHistoryRepository(db),
+    auditLog: createAuditLogRepository(db),
+    ...(runId !== undefined ? { runId } : {}),
+    ...(values.policy !== undefined ? { policy: loadDecisionPolicy(values.policy) } : {}),
+    ...(purchaseOrdersFile !== undefined
+      ? { purchaseOrders: loadPurchaseOrders(purchaseOrdersFile), poLedger: createPoLedgerRepository(db) }
+      : {}),
+    ...(deliveryNotesFile !== undefined ? { deliveryNotes: loadDeliveryNotes(deliveryNotesFile) } : {}),
+  };
+}
+
+function printOutputs(context: CommandContext, outputs: EngineOutputContract[]): void {
+  print(context, outputs.length === 1 ? outputs[0] : outputs, () =>
+    outputs.map(formatEngineOutput).join('\n\n'),
+  );
+}
+
+async function processCommand(context: CommandContext): Promise<number> {
+  const file = requireArg(context, 1, 'invoice file');
+  const records = loadInvoices(file, context.values['invoice-id']);
+  const runId = context.values['run-id'];
+  if (runId !== undefined && records.length > 1) {
+    throw usageError('--run-id needs a single invoice; select one with --invoice-id.');
+  }
+
+  const outputs: EngineOutputContract[] = [];
+  for (const record of records) {
+    const invoice = toNormalizedInvoice(record);
+    outputs.push(
+      await processInvoiceWithMemory(
+        context.repository,
+        invoice,
+        invoice.rawText ?? '',
+        undefined,
+        processOptions(context, runId),
+      ),
+    );
+  }
+
+  printOutputs(context, outputs);
+  return outputs.some((o) => o.requiresHumanReview) ? CLI_EXIT_CODES.needsReview : CLI_EXIT_CODES.success;
+}
+
+/**
+ * Feedback on a run stored by `process`. The run's invoice is re-processed with the reviewer's
+ * decisions through `learnFromRunFeedback`, the same path the HTTP API uses. Corrected values
+ * may be for any field, so only approvals and rejections are checked against the run.
+ */
+async function feedbackCommand(context: CommandContext): Promise<number> {
+  const runId = context.values.run;
+  if (runId === undefined) throw usageError('feedback needs --run <runId> of the run being reviewed.');
+
+  const approvedCorrections = listOption(context.values.approve);
+  const rejectedCorrections = listOption(context.values.reject);
+  const correctionsFile = context.values.corrections;
+  const corrected = parseCorrectOption(context.values.correct);
+  if (approvedCorrections.length + rejectedCorrections.length + corrected.length === 0 && !correctionsFile) {
+    throw usageError('feedback needs at least one --approve, --reject, --correct or --corrections.');
+  }
+
+  const runs = createEngineRunRepository(context.db);
+  const run = runs.getRun(runId);
+  if (!run) {
+    throw cliError(`Run ${runId} not found; runs are stored when invoices are processed.`, CLI_EXIT_CODES.notFound);
+  }
+  if (run.feedbackRunId !== undefined) {
+    throw cliError(`Feedback for run ${runId} was already recorded by run ${run.feedbackRunId}.`, CLI_EXIT_CODES.error);
+  }
+  const review = createReviewQueueRepository(context.db).findByRun(runId);
+  if (review && review.status !== 'approved' && review.status !== 'rejected') {
+    throw cliError(`Run ${runId} is in review ${review.id}; complete the review instead.`, CLI_EXIT_CODES.error);
+  }
+
+  // --correct wins over the file for the same field.
+  const invoiceId = run.invoice.id;
+  const corrections = new Map<string, ReviewerCorrection>();
+  if (correctionsFile !== undefined) {
+    const record = loadHumanCorrections(correctionsFile).find((r) => r.invoiceId === invoiceId);
+    if (!record) {
+      throw cliError(`No corrections for invoice ${invoiceId} in ${correctionsFile}.`, CLI_EXIT_CODES.notFound);
+    }
+    for (const correction of humanCorrectionsToFeedback(record).corrections ?? []) {
+      corrections.set(correction.field, correction);
+    }
+  }
+  for (const correction of corrected) corrections.set(correction.field, correction);
+
+  const rejectedWithValue = rejectedCorrections.filter((f) => corrections.has(f));
+  if (rejectedWithValue.length > 0) {
+    throw usageError(`Fields both rejected and corrected: ${rejectedWithValue.join(', ')}.`);
+  }
+  const feedback: HumanFeedbackInput = {
+    approvedCorrections,
+    rejectedCorrections,
+    ...(corrections.size > 0 ? { corrections: [...corrections.values()] } : {}),
+  };
+  const proposedFields = new Set(run.proposedCorrections.map((c) => c.field));
+  const unknownFields = [...approvedCorrections, ...rejectedCorrections].filter((f) => !proposedFields.has(f));
+  if (unknownFields.length > 0) {
+    throw usageError(
+      `Run ${runId} proposed no correction for ${unknownFields.join(', ')}; ` +
+        `proposed fields: ${[...proposedFields].join(', ') || '(none)'}.`,
+    );
+  }
+
+  const output = await learnFromRunFeedback(
+    context.repository,
+    runs,
+    runId,
+    feedback,
+    processOptions(context, context.values['run-id']),
+  );
+
+  printOutputs(context, [output]);
+  return CLI_EXIT_CODES.success;
+}
+
+function memoryCommand(context: CommandContext): number {
+  const subcommand = requireArg(context, 1, 'memory subcommand (list, show, delete, export)');
+  const { repository, values } = context;
+
+  switch (subcommand) {
+    case 'list': {
+      const category = values.category as LearnedMemoryCategory | undefined;
+      if (category !== undefined && !MEMORY_CATEGORIES.includes(category)) {
+        throw usageError(`--category must be one of ${MEMORY_CATEGORIES.join(', ')}.`);
+      }
+      const records = repository.findLearnedMemories({
+        category,
+        vendorName: values.vendor,
+        field: values.field,
+        minConfidence: parseNumber(values['min-confidence'], 'min-confidence'),
+        limit: parseNumber(values.limit, 'limit'),
+      });
+      print(context, records, () => formatMemoryList(records));
+      return CLI_EXIT_CODES.success;
+    }
+    case 'show': {
+      const memoryId = requireArg(context, 2, 'memory id');
+      const memory = repository.getMemoryById(memoryId);
+      if (!memory) throw cliError(`Memory ${memoryId} not found.`, CLI_EXIT_CODES.notFound);
+      const record = { memory, content: JSON.parse(memory.content) as LearnedMemoryRecord['content'] };
+      const lineage = createProvenanceRepository(context.db).getLineage(memoryId);
+      const history = createMemoryHistoryRepository(context.db).findEvents({ memoryId });
+      print(context, { ...record, lineage, history }, () => formatMemoryDetails(record, lineage, history));
+      return CLI_EXIT_CODES.success;
+    }
+    case 'delete': {
+      const memoryId = requireArg(context, 2, 'memory id');
+      if (!deleteMemoryWithHistory(repository, createMemoryHistoryRepository(context.db), memoryId)) {
+        throw cliError(`Memory ${memoryId} not found.`, CLI_EXIT_CODES.notFound);
+      }
+      print(context, { deleted: memoryId }, () => `Deleted memory ${memoryId}.`);
+      return CLI_EXIT_CODES.success;
+    }
+    case 'export': {
+      const records = repository
+        .findLearnedMemories({})
+        .map(({ memory: { embedding: _embedding, ...memory }, content }) => ({ ...memory, content }));
+      const json = JSON.stringify(records, null, 2);
+      if (values.out !== undefined) {
+        fs.writeFileSync(values.out, `${json}\n`);
+        context.io.stderr(`Exported ${records.length} memories to ${values.out}.`);
+      } else {
+        context.io.stdout(json);
+      }
+      return CLI_EXIT_CODES.success;
+    }
+    default:
+      throw usageError(`Unknown memory subcommand "${subcommand}".`);
+  }
+}
+
+function auditCommand(context: CommandContext): number {
+  const subcommand = requireArg(context, 1, 'audit subcommand (show)');
+  if (subcommand !== 'show') throw usageError(`Unknown audit subcommand "${subcommand}".`);
+
+  const { values } = context;
+  const step = values.step as AuditEventType | undefined;
+  if (step !== undefined && !AUDIT_STEPS.includes(step)) {
+    throw usageError(`--step must be one of ${AUDIT_STEPS.join(', ')}.`);
+  }
+  const query: AuditLogQuery = {
+    runId: values.run,
+    invoiceId: values.invoice,
+    vendorName: values.vendor,
+    memoryId: values.memory,
+    step,
+    from: parseDateOption(values.from, 'from'),
+    to: parseDateOption(values.to, 'to'),
+    limit: parseNumber(values.limit, 'limit'),
+  };
+
+  const entries = createAuditLogRepository(context.db).findEntries(query);
+  print(context, entries, () => formatAuditEntries(entries));
+  return entries.length > 0 ? CLI_EXIT_CODES.success : CLI_EXIT_CODES.notFound;
+}
+
+const COMMANDS: Record<string, (context: CommandContext) => number | Promise<number>> = {
+  process: processCommand,
+  feedback: feedbackCommand,
+  memory: memoryCommand,
+  audit: auditCommand,
+};
+
+/** Runs one CLI invocation and returns its exit code; `argv` excludes the node and script paths. */
+export async function runCli(argv: string[], io: CliIo = DEFAULT_IO): Promise<number> {
+  let parsed: ParsedArgs;
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n\n${USAGE}`);
+    return CLI_EXIT_CODES.usage;
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    io.stdout(USAGE);
+    return CLI_EXIT_CODES.success;
+  }
+  const name = positionals[0];
+  const command = name !== undefined ? COMMANDS[name] : undefined;
+  if (!command) {
+    io.stderr(name === undefined ? USAGE : `Unknown command "${name}".\n\n${USAGE}`);
+    return CLI_EXIT_CODES.usage;
+  }
+
+  const format = values.json ? 'json' : (values.format ?? 'text');
+  if (format !== 'json' && format !== 'text') {
+    io.stderr(`--format must be json or text, got "${format}".`);
+    return CLI_EXIT_CODES.usage;
+  }
+
+  let db: SqliteDatabase | undefined;
+  try {
+    db = openMemoryDatabase(values.db ?? 'data/memory.db');
+    const repository = createMemoryRepository(db);
+    repository.initialize();
+    return await command({ db, repository, values, args: positionals, json: format === 'json', io });
+  } catch (error) {
+    const exitCode = (error as { exitCode?: number }).exitCode ?? CLI_EXIT_CODES.error;
+    io.stderr(
+      exitCode === CLI_EXIT_CODES.usage
+        ? `${(error as Error).message} Run with --help for usage.`
+        : (error as Error).message,
+    );
+    return exitCode;
+  } finally {
+    db?.close();
+  }
+}
@@ -1,122 +1,24 @@
-import * as fs from 'fs';
-import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import { openMemoryDatabase, createMemoryRepository } from '../memory';
-import type { EngineOutputContract, NormalizedInvoice } from '../models';
-import { processInvoiceWithMemory } from '../engine';
-
-interface ExtractedInvoiceRecord {
-  invoiceId: string;
-  vendor: string;
-  fields: {
-    invoiceNumber: string;
-    invoiceDate: string;
-    serviceDate: string | null;
-    currency: string | null;
-    poNumber: string | null;
-    netTotal: number;
-    taxRate: number;
-    taxTotal: number;
-    grossTotal: number;
-    lineItems: {
-      sku: string | null;
-      description: string;
-      qty: number;
-      unitPrice: number;
-    }[];
-  };
-  confidence: number;
-  rawText: string;
-}
-
-interface HumanCorrectionRecord {
-  invoiceId: string;
-  vendor: string;
-  corrections: {
-    field: string;
-    from: unknown;
-    to: unknown;
-    reason: string;
-  }[];
-  finalDecision: string;
-}
-
-function readJsonFile<T>(relativePath: string): T {
-  const fullPath = path.join(process.cwd(), relativePath);
-  const raw = fs.readFileSync(fullPath, 'utf8');
-  return JSON.parse(raw) as T;
-}
-
-function parseDate(value: string | null): Date | undefined {
-  if (!value) return undefined;
-  const trimmed = value.trim();
-
-  const dotMatch = trimmed.match(/^(\d{2})\.(\d{2})\.(\d{4})$/);
-  if (dotMatch) {
-    const [, dd, mm, yyyy] = dotMatch;
-    return new Date(Number(yyyy), Number(mm) - 1, Number(dd));
-  }
-
-  const dashMatch = trimmed.match(/^(\d{2})-(\d{2})-(\d{4})$/);
-  if (dashMatch) {
-    const [, dd, mm, yyyy] = dashMatch;
-    return new Date(Number(yyyy), Number(mm) - 1, Number(dd));
-  }
-
-  const iso = new Date(trimmed);
-  if (!Number.isNaN(iso.getTime())) {
-    return iso;
-  }
-
-  return undefined;
-}
-
-function toNormalizedInvoice(record: ExtractedInvoiceRecord): NormalizedInvoice {
-  const issuedAt = parseDate(record.fields.invoiceDate) ?? new Date();
-  const serviceDate = parseDate(record.fields.serviceDate);
-
-  return {
-    id: record.invoiceId,
-    externalId: record.invoiceId,
-    customerName: record.vendor,
-    vendorName: record.vendor,
-    invoiceNumber: record.fields.invoiceNumber,
-    currency: record.fields.currency ?? '',
-    totalAmount: record.fields.grossTotal,
-    issuedAt,
-    lineItems: record.fields.lineItems.map((li, index) => ({
-      id: String(index + 1),
-      description: li.description,
-      quantity: li.qty,
-      unitPrice: li.unitPrice,
-    })),
-    rawText: record.rawText,
-    serviceDate: serviceDate,
-    taxAmount: record.fields.taxTotal,
-    grossAmount: record.fields.grossTotal,
-    metadata: {
-      poNumber: record.fields.poNumber ?? undefined,
-      taxRate: record.fields.taxRate,
-      netTotal: record.fields.netTotal,
-      extractorConfidence: record.confidence,
-    },
-  };
-}
-
-function mapHumanFieldToEngineField(field: string): string {
-  switch (field) {
-    case 'taxTotal':
-      return 'taxAmount';
-    case 'grossTotal':
-      return 'grossAmount';
-    case 'discountTerms':
-      return 'paymentTermsNormalized';
-    case 'lineItems[0].sku':
-      return 'lineItem:1:sku';
-    default:
-      return field;
-  }
-}
+import {
+  openMemoryDatabase,
+  createMemoryRepository,
+  createPoLedgerRepository,
+  createProcessedInvoiceRepository,
+  createVendorRepository,
+} from '../memory';
+import type { EngineOutputContract } from '../models';
+import type { ExtractedInvoiceRecord } from '../engine';
+import {
+  inferFieldDerivation,
+  loadDeliveryNotes,
+  loadExtractedInvoices,
+  loadHumanCorrections,
+  loadPurchaseOrders,
+  mapHumanFieldToEngineField,
+  parseInvoiceDate,
+  processInvoiceWithMemory,
+  toNormalizedInvoice,
+} from '../engine';
 
 export async function main(): Promise<void> {
   const db = openMemoryDatabase();
@@ -125,8 +27,8 @@ export async function main(): Promise<void> {
   repository.initialize();
   const seenVendorPatterns = new Set<string>();
 
-  const invoices = readJsonFile<ExtractedInvoiceRecord[]>('data/invoices_extracted.json');
-  const humanCorrections = readJsonFile<HumanCorrectionRecord[]>('data/human_corrections.json');
+  const invoices = loadExtractedInvoices();
+  const humanCorrections = loadHumanCorrections();
 
   const vendorInvoices = invoices.filter((inv) => inv.vendor === 'Parts AG');
   if (vendorInvoices.length < 2) {
@@ -244,7 +146,7 @@ export async function main(): Promise<void> {
     return;
   }
 
-  const learnedServiceDate = parseDate(supplierServiceCorrection.to) ?? new Date(supplierServiceCorrection.to);
+  const learnedServiceDate = parseInvoiceDate(supplierServiceCorrection.to) ?? new Date(supplierServiceCorrection.to);
   const now = new Date();
   const supplierServiceMemoryContent = {
     category: 'vendor',
@@ -256,6 +158,13 @@ export async function main(): Promise<void> {
     usageCount: 1,
     metadata: {
       proposedValue: learnedServiceDate.toISOString(),
+      // Learns the "Leistungsdatum:" label so each invoice gets its own date, not this one.
+      derivation: inferFieldDerivation(
+        'serviceDate',
+        learnedServiceDate,
+        supplierInvoice1,
+        supplierInvoice1.rawText ?? '',
+      ),
       source: 'human_correction',
     },
   };
@@ -372,6 +281,134 @@ export async function main(): Promise<void> {
   console.log('Requires human review:', freightResultAfter.requiresHumanReview);
   console.log('Confidence score:', freightResultAfter.confidenceScore.toFixed(2));
   console.log('Proposed corrections:', freightResultAfter.proposedCorrections);
+
+
+  // ---------------------------------------------------------------------------
+  // Supplier GmbH demo: inferring a missing poNumber from purchase orders
+  // ---------------------------------------------------------------------------
+
+  const purchaseOrders = loadPurchaseOrders();
+  const deliveryNotes = loadDeliveryNotes();
+  const poLedger = createPoLedgerRepository(db);
+  const missingPoRecord = invoices.find((inv) => inv.invoiceId === 'INV-A-003');
+  if (!missingPoRecord) {
+    console.log('\nNo Supplier GmbH invoice without poNumber found; skipping demo.');
+    return;
+  }
+
+  const missingPoInvoice = toNormalizedInvoice(missingPoRecord);
+  const missingPoCorrections = humanCorrections.find(
+    (c) => c.invoiceId === missingPoRecord.invoiceId && c.vendor === missingPoRecord.vendor,
+  );
+
+  console.log('\n=== PO Matching Demo for Vendor: Supplier GmbH ===');
+  console.log('Invoice (no PO):', missingPoInvoice.invoiceNumber, 'Invoice ID:', missingPoRecord.invoiceId);
+
+  const poResultBefore = await processInvoiceWithMemory(
+    repository,
+    missingPoInvoice,
+    missingPoInvoice.rawText ?? '',
+    undefined,
+    { purchaseOrders, deliveryNotes },
+  );
+  console.log('Requires human review:', poResultBefore.requiresHumanReview);
+  console.log(
+    'Proposed PO correction:',
+    poResultBefore.proposedCorrections.find((c) => c.field === 'metadata.poNumber') ?? null,
+  );
+
+  const poApprovedFields = (missingPoCorrections?.corrections ?? [])
+    .map((c) => mapHumanFieldToEngineField(c.field))
+    .filter((f) => f === 'metadata.poNumber');
+
+  const poResultWithLearning = await processInvoiceWithMemory(
+    repository,
+    missingPoInvoice,
+    missingPoInvoice.rawText ?? '',
+    { approvedCorrections: poApprovedFields, rejectedCorrections: [] },
+    { purchaseOrders, deliveryNotes },
+  );
+  console.log('Memory updates after PO approval:', poResultWithLearning.memoryUpdates);
+
+  const overDeliveredRecord = invoices.find((inv) => inv.invoiceId === 'INV-A-001');
+  if (overDeliveredRecord) {
+    const overDeliveredInvoice = toNormalizedInvoice(overDeliveredRecord);
+    const matchResult = await processInvoiceWithMemory(
+      repository,
+      overDeliveredInvoice,
+      overDeliveredInvoice.rawText ?? '',
+      undefined,
+      { purchaseOrders, deliveryNotes, poLedger },
+    );
+    console.log('\n--- Three-way match for', overDeliveredRecord.invoiceId, '---');
+    console.log('Requires human review:', matchResult.requiresHumanReview);
+    console.log('Discrepancies:', matchResult.discrepancies);
+  }
+
+  const partialDeliveryRecord = invoices.find((inv) => inv.invoiceId === 'INV-A-002');
+  if (partialDeliveryRecord) {
+    const partialDeliveryInvoice = toNormalizedInvoice(partialDeliveryRecord);
+    const ledgerResult = await processInvoiceWithMemory(
+      repository,
+      partialDeliveryInvoice,
+      partialDeliveryInvoice.rawText ?? '',
+      undefined,
+      { purchaseOrders, deliveryNotes, poLedger },
+    );
+    console.log('\n--- PO ledger check for', partialDeliveryRecord.invoiceId, '---');
+    console.log('Requires human review:', ledgerResult.requiresHumanReview);
+    console.log('Discrepancies:', ledgerResult.discrepancies.map((d) => d.message));
+    console.log(
+      'Open PO balances:',
+      poLedger.getOpenBalances(
+        purchaseOrders.filter((po) => po.vendorName === 'Supplier GmbH'),
+        deliveryNotes,
+      ),
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Duplicate detection: the resent INV-2024-003 against its original
+  // ---------------------------------------------------------------------------
+
+  const invoiceRegistry = createProcessedInvoiceRepository(db);
+  const originalRecord = invoices.find((inv) => inv.invoiceId === 'INV-A-003');
+  const resentRecord = invoices.find((inv) => inv.invoiceId === 'INV-A-004');
+  if (originalRecord && resentRecord) {
+    console.log('\n=== Duplicate Detection Demo for Vendor: Supplier GmbH ===');
+    for (const record of [originalRecord, resentRecord]) {
+      const duplicateInvoice = toNormalizedInvoice(record);
+      const duplicateResult = await processInvoiceWithMemory(
+        repository,
+        duplicateInvoice,
+        duplicateInvoice.rawText ?? '',
+        undefined,
+        { invoiceRegistry },
+      );
+      console.log(`\n--- ${record.invoiceId} (${duplicateInvoice.invoiceNumber}) ---`);
+      console.log('Requires human review:', duplicateResult.requiresHumanReview);
+      console.log('Reasoning:', duplicateResult.reasoning);
+    }
+    console.log(
+      '\nRegistry entries for INV-2024-003:',
+      invoiceRegistry.findProcessedInvoices({ invoiceNumber: 'INV-2024-003' }).map((p) => ({
+        invoiceId: p.invoiceId,
+        requiresHumanReview: p.decision?.requiresHumanReview,
+        processCount: p.processCount,
+      })),
+    );
+  }
+
+  // ---------------------------------------------------------------------------
+  // Vendor master: name variants resolve to one vendor, look-alikes do not
+  // ---------------------------------------------------------------------------
+
+  const vendors = createVendorRepository(db);
+  console.log('\n=== Vendor Master Demo ===');
+  for (const name of ['Supplier GmbH', 'Supplier Gmbh.', 'SUPPLIER GMBH, Berlin', 'Parts AG', 'Spare Parts AG']) {
+    const vendor = vendors.resolveVendor({ name });
+    console.log(`${name} -> ${vendor.canonicalName} (${vendor.normalizedName})`);
+  }
 }
 
 function enforceFirstEncounterReviewForDemo(
@@ -0,0 +1,162 @@
+import type { LearnedMemoryCategory, LearnedMemoryContent } from '../models/memory';
+
+export interface BetaPrior {
+  alpha: number;
+  beta: number;
+}
+
+/**
+ * Pseudo-counts per category. Vendor and correction memories only exist because a reviewer
+ * approved something, so their prior leans positive (mean 0.75) while staying weak.
+ */
+export const DEFAULT_BETA_PRIORS: Record<LearnedMemoryCategory, BetaPrior> = {
+  vendor: { alpha: 3, beta: 1 },
+  correction: { alpha: 3, beta: 1 },
+  resolution: { alpha: 1, beta: 1 },
+  duplicate: { alpha: 1, beta: 1 },
+};
+
+export interface ConfidenceModelConfig {
+  priors?: Partial<Record<LearnedMemoryCategory, BetaPrior>> | undefined;
+  /** Probability mass above the lower credible bound (default 0.9). */
+  credibleMass?: number | undefined;
+  /** Whether auto-apply compares the posterior mean or its lower credible bound (default). */
+  autoApplyOn?: 'mean' | 'lowerBound' | undefined;
+}
+
+export interface ConfidenceEstimate {
+  approvals: number;
+  rejections: number;
+  mean: number;
+  lowerBound: number;
+}
+
+function logGamma(x: number): number {
+  // Lanczos approximation (g = 7, n = 9).
+  const coefficients = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ];
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  const z = x - 1;
+  let sum = coefficients[0]!;
+  for (let i = 1; i < coefficients.length; i += 1) {
+    sum += coefficients[i]! / (z + i);
+  }
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const maxIterations = 200;
+  const epsilon = 3e-14;
+  const tiny = 1e-300;
+
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= maxIterations; m += 1) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < epsilon) break;
+  }
+  return h;
+}
+
+/** Regularized incomplete beta function I_x(a, b), i.e. the Beta(a, b) CDF at x. */
+export function betaCdf(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const logFront =
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x);
+  const front = Math.exp(logFront);
+  if (x < (a + 1) / (a + b + 2)) {
+    return (front * betaContinuedFraction(x, a, b)) / a;
+  }
+  return 1 - (front * betaContinuedFraction(1 - x, b, a)) / b;
+}
+
+/** Inverse Beta CDF by bisection; precise enough for threshold comparisons. */
+export function betaQuantile(p: number, a: number, b: number): number {
+  let low = 0;
+  let high = 1;
+  for (let i = 0; i < 60; i += 1) {
+    const mid = (low + high) / 2;
+    if (betaCdf(mid, a, b) < p) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+export function priorFor(
+  category: LearnedMemoryCategory,
+  config: ConfidenceModelConfig = {},
+): BetaPrior {
+  return config.priors?.[category] ?? DEFAULT_BETA_PRIORS[category];
+}
+
+export function estimateConfidence(
+  approvals: number,
+  rejections: number,
+  category: LearnedMemoryCategory,
+  config: ConfidenceModelConfig = {},
+): ConfidenceEstimate {
+  const prior = priorFor(category, config);
+  const alpha = prior.alpha + Math.max(approvals, 0);
+  const beta = prior.beta + Math.max(rejections, 0);
+  const credibleMass = config.credibleMass ?? 0.9;
+
+  return {
+    approvals,
+    rejections,
+    mean: alpha / (alpha + beta),
+    lowerBound: betaQuantile(1 - credibleMass, alpha, beta),
+  };
+}
+
+export function hasEvidenceCounts(
+  content: Partial<LearnedMemoryContent>,
+): content is Partial<LearnedMemoryContent> & { approvalCount: number; rejectionCount: number } {
+  return typeof content.approvalCount === 'number' && typeof content.rejectionCount === 'number';
+}
+
+/**
+ * Memories written before counts existed only carry a confidence and a usage count; treat
+ * the usages as reviewed outcomes split by that confidence.
+ */
+export function seedEvidenceCounts(content: Partial<LearnedMemoryContent>): {
+  approvals: number;
+  rejections: number;
+} {
+  if (hasEvidenceCounts(content)) {
+    return { approvals: content.approvalCount, rejections: content.rejectionCount };
+  }
+  const usage = typeof content.usageCount === 'number' ? content.usageCount : 0;
+  const confidence = typeof content.confidence === 'number' ? content.confidence : 0.7;
+  const approvals = Math.round(usage * confidence);
+  return { approvals, rejections: usage - approvals };
+}
@@ -0,0 +1,175 @@
+import type { ScoredLearnedMemory } from './recall';
+import { seedEvidenceCounts } from './confidence';
+import { DEDICATED_MEMORY_FIELDS, memoryDerivation } from './correctionRules';
+
+export type ConflictResolutionStrategy = 'highestEvidence' | 'mostRecent' | 'escalate';
+
+export const CONFLICT_RESOLUTION_STRATEGIES: ConflictResolutionStrategy[] = [
+  'highestEvidence',
+  'mostRecent',
+  'escalate',
+];
+
+export interface ConflictCandidate {
+  memoryId: string;
+  value: unknown;
+  approvals: number;
+  rejections: number;
+  updatedAt: Date;
+}
+
+export interface MemoryConflict {
+  field: string;
+  lineItemDescription?: string | undefined;
+  candidates: ConflictCandidate[];
+  strategy: ConflictResolutionStrategy;
+  resolved: boolean;
+  /** Memory whose value is used when the conflict was resolved. */
+  winnerMemoryId?: string | undefined;
+  reason: string;
+}
+
+export interface ConflictDetectionResult {
+  conflicts: MemoryConflict[];
+  /** Memories that lost a resolved conflict and must not be used for this invoice. */
+  overruledMemoryIds: Set<string>;
+}
+
+/**
+ * The value a memory stands for, as the correction rules read it: the derivation replayed by
+ * `learnedFieldRule`, the literal value of a dedicated memory, or, for memories such as
+ * `vatIncluded` that carry no value, whether reviewers approved more often than they rejected.
+ */
+function claimedValue(memory: ScoredLearnedMemory): unknown {
+  const field = memory.content.field;
+  if (field !== undefined && !DEDICATED_MEMORY_FIELDS.includes(field)) {
+    const derivation = memoryDerivation(memory);
+    if (derivation) return derivation.kind === 'constant' ? derivation.value : derivation;
+  }
+  const proposedValue = memory.content.metadata?.proposedValue;
+  if (proposedValue !== undefined) return proposedValue;
+  const counts = seedEvidenceCounts(memory.content);
+  return counts.approvals >= counts.rejections;
+}
+
+function valueKey(value: unknown): string {
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+interface ValueGroup {
+  key: string;
+  memories: ScoredLearnedMemory[];
+  candidates: ConflictCandidate[];
+}
+
+function netEvidence(group: ValueGroup): number {
+  return group.candidates.reduce((sum, c) => sum + c.approvals - c.rejections, 0);
+}
+
+function latestUpdate(group: ValueGroup): number {
+  return Math.max(...group.candidates.map((c) => c.updatedAt.getTime()));
+}
+
+/** The single best group by `measure`, or undefined on a tie for first place. */
+function uniqueBest(groups: ValueGroup[], measure: (group: ValueGroup) => number): ValueGroup | undefined {
+  const ranked = [...groups].sort((a, b) => measure(b) - measure(a));
+  const [first, second] = ranked;
+  if (!first || (second && measure(second) === measure(first))) return undefined;
+  return first;
+}
+
+function describeConflict(
+  field: string,
+  groups: ValueGroup[],
+  strategy: ConflictResolutionStrategy,
+  winner: ValueGroup | undefined,
+): string {
+  const values = groups.map((g) => g.key).join(' vs ');
+  if (!winner) {
+    return strategy === 'escalate'
+      ? `Memories disagree on ${field} (${values}); escalated for review.`
+      : `Memories disagree on ${field} (${values}) and strategy "${strategy}" found no single winner; escalated for review.`;
+  }
+  return `Memories disagree on ${field} (${values}); using ${winner.key} by strategy "${strategy}".`;
+}
+
+/**
+ * Groups the memories by field (and line-item description) and reports fields whose
+ * memories stand for different values. `memories` must be sorted by score, so the
+ * best-scoring memory of the winning value is the one returned as winner.
+ */
+export function detectMemoryConflicts(
+  memories: ScoredLearnedMemory[],
+  strategy: ConflictResolutionStrategy = 'highestEvidence',
+): ConflictDetectionResult {
+  const byField = new Map<string, ScoredLearnedMemory[]>();
+  for (const memory of memories) {
+    const field = memory.content.field;
+    if (field === undefined) continue;
+    const description = memory.content.metadata?.lineItemDescription;
+    const key = `${field}|${typeof description === 'string' ? description.trim().toLowerCase() : ''}`;
+    byField.set(key, [...(byField.get(key) ?? []), memory]);
+  }
+
+  const conflicts: MemoryConflict[] = [];
+  const overruledMemoryIds = new Set<string>();
+
+  for (const fieldMemories of byField.values()) {
+    const groups = new Map<string, ValueGroup>();
+    for (const memory of fieldMemories) {
+      const value = claimedValue(memory);
+      const key = valueKey(value);
+      const counts = memory.evidence ?? seedEvidenceCounts(memory.content);
+      const group = groups.get(key) ?? { key, memories: [], candidates: [] };
+      group.memories.push(memory);
+      group.candidates.push({
+        memoryId: memory.memory.id,
+        value,
+        approvals: counts.approvals,
+        rejections: counts.rejections,
+        updatedAt: memory.memory.updatedAt,
+      });
+      groups.set(key, group);
+    }
+    if (groups.size < 2) continue;
+
+    const valueGroups = [...groups.values()];
+    const winner =
+      strategy === 'highestEvidence'
+        ? uniqueBest(valueGroups, netEvidence)
+        : strategy === 'mostRecent'
+          ? uniqueBest(valueGroups, latestUpdate)
+          : undefined;
+
+    const first = fieldMemories[0]!;
+    const field = first.content.field!;
+    const description = first.content.metadata?.lineItemDescription;
+    conflicts.push({
+      field,
+      ...(typeof description === 'string' ? { lineItemDescription: description } : {}),
+      candidates: valueGroups.flatMap((g) => g.candidates),
+      strategy,
+      resolved: winner !== undefined,
+      ...(winner ? { winnerMemoryId: winner.memories[0]!.memory.id } : {}),
+      reason: describeConflict(field, valueGroups, strategy, winner),
+    });
+
+    if (winner) {
+      for (const group of valueGroups) {
+        if (group === winner) continue;
+        for (const memory of group.memories) overruledMemoryIds.add(memory.memory.id);
+      }
+    }
+  }
+
+  return { conflicts, overruledMemoryIds };
+}
+
+/** Unresolved conflicts involving the given memory. */
+export function unresolvedConflictsFor(
+  conflicts: MemoryConflict[],
+  memoryId: string | undefined,
+): MemoryConflict[] {
+  if (memoryId === undefined) return [];
+  return conflicts.filter((c) => !c.resolved && c.candidates.some((m) => m.memoryId === memoryId));
+}
@@ -0,0 +1,428 @@
+import type { NormalizedInvoice, ProposedCorrection } from '../models/pipeline';
+import type { LearnedMemoryRecord } from '../models/memory';
+import type { ApplyInputContext } from './apply';
+import type { ScoredLearnedMemory } from './recall';
+import type { VatOptions } from './vat';
+import { computeVatBreakdown, describeVatBreakdown, findStatedGrossTotal } from './vat';
+import type { FieldDerivation } from './fieldLearning';
+import { inducePattern } from './patternInduction';
+import {
+  describeFieldDerivation,
+  evaluateFieldDerivation,
+  getFieldValue,
+  isFieldDerivation,
+  setFieldValue,
+} from './fieldLearning';
+
+export interface CorrectionRuleContext {
+  input: ApplyInputContext;
+  /** Invoice as corrected by the rules that ran before this one. */
+  normalizedInvoice: NormalizedInvoice;
+  /** Corrections proposed by the rules that ran before this one. */
+  proposedCorrections: readonly ProposedCorrection[];
+}
+
+export interface CorrectionProposal {
+  field: string;
+  proposedValue: unknown;
+  reason: string;
+  /** Learned memory backing the proposal; its confidence is used when present. */
+  memory?: ScoredLearnedMemory | undefined;
+  /** Confidence used when no memory backs the proposal. */
+  defaultConfidence: number;
+  /**
+   * Id recorded in `AppliedMemoryRecord` for an applied proposal without a memory. Without
+   * it, such proposals are applied but not listed as applied memories.
+   */
+  syntheticMemoryId?: string | undefined;
+  /** Also list the proposal in `AppliedMemoryRecord` (with `applied: false`) when only suggested. */
+  recordSuggestion?: boolean | undefined;
+}
+
+/**
+ * A correction rule detects whether it is relevant for an invoice, proposes corrections and
+ * writes a proposal into the invoice once it clears the auto-apply threshold. Thresholds
+ * are resolved by the engine from the decision policy, never by the rule itself.
+ */
+export interface CorrectionRule {
+  id: string;
+  detect(context: CorrectionRuleContext): boolean;
+  propose(context: CorrectionRuleContext): CorrectionProposal[];
+  apply(context: CorrectionRuleContext, proposal: CorrectionProposal): void;
+}
+
+export interface CorrectionRuleRegistry {
+  register(rule: CorrectionRule): void;
+  unregister(id: string): boolean;
+  get(id: string): CorrectionRule | undefined;
+  /** Rules in registration order, which is also the order they run in. */
+  list(): CorrectionRule[];
+}
+
+function findVendorMemory(
+  context: CorrectionRuleContext,
+  field: string,
+): ScoredLearnedMemory | undefined {
+  return context.input.recall.vendorMemories.find((m) => m.content.field === field);
+}
+
+function detectVatIncluded(rawText: string): boolean {
+  const text = rawText.toLowerCase();
+  return (
+    text.includes('mwst. inkl') ||
+    text.includes('mwst inkl') ||
+    text.includes('inkl. mwst') ||
+    text.includes('inkl mwst') ||
+    text.includes('prices incl. vat') ||
+    text.includes('price includes vat')
+  );
+}
+
+function normalizeCurrencyFromText(rawText: string): string | undefined {
+  const text = rawText.toUpperCase();
+  if (text.includes(' EUR') || text.includes('€')) return 'EUR';
+  if (text.includes(' USD') || text.includes('$')) return 'USD';
+  if (text.includes(' CHF')) return 'CHF';
+  if (text.includes(' GBP') || text.includes('£')) return 'GBP';
+  return undefined;
+}
+
+function detectSkontoTerms(rawText: string): string | undefined {
+  const text = rawText.toLowerCase();
+  const skontoIndex = text.indexOf('skonto');
+  if (skontoIndex === -1) return undefined;
+
+  const window = text.slice(Math.max(0, skontoIndex - 40), skontoIndex + 80);
+  const percentMatch = window.match(/(\d{1,2})%/);
+  if (percentMatch) {
+    const percentage = percentMatch[1];
+    return `${percentage}% skonto detected`;
+  }
+  return 'Skonto terms detected';
+}
+
+export function looksLikeFreight(description: string): boolean {
+  const text = description.toLowerCase();
+  return (
+    text.includes('seefracht') ||
+    text.includes('shipping') ||
+    text.includes('fracht') ||
+    text.includes('freight')
+  );
+}
+
+/**
+ * Fills a missing service date from the vendor's literal date. Memories that extract or
+ * compute the date are left to `learnedFieldRule`.
+ */
+export const serviceDateRule: CorrectionRule = {
+  id: 'serviceDate',
+  detect(context) {
+    return context.normalizedInvoice.serviceDate === undefined;
+  },
+  propose(context) {
+    const memory = findVendorMemory(context, 'serviceDate');
+    const derivation = memory ? memoryDerivation(memory) : undefined;
+    if (!memory || derivation?.kind !== 'constant') return [];
+
+    return [
+      {
+        field: 'serviceDate',
+        proposedValue: derivation.value,
+        reason: `Field serviceDate inferred from learned vendor memory for ${
+          memory.content.vendorName ?? 'unknown vendor'
+        }.`,
+        memory,
+        defaultConfidence: memory.content.confidence,
+        recordSuggestion: true,
+      },
+    ];
+  },
+  apply(context, proposal) {
+    (context.normalizedInvoice as any).serviceDate = proposal.proposedValue;
+  },
+};
+
+const VAT_FIELDS = ['taxAmount', 'grossAmount', 'metadata.netTotal'] as const;
+
+/**
+ * Splits VAT-inclusive totals into net and tax using the rates in `vat.ts`. The gross total
+ * printed in the raw text takes precedence over the extracted one. `taxAmount` is always
+ * proposed; gross and net values only when they differ from the extracted ones.
+ */
+export function createVatIncludedRule(options: VatOptions = {}): CorrectionRule {
+  return {
+    id: 'vatIncluded',
+    detect(context) {
+      return detectVatIncluded(context.input.rawText);
+    },
+    propose(context) {
+      const invoice = context.normalizedInvoice;
+      const gross = findStatedGrossTotal(context.input.rawText) ?? invoice.totalAmount;
+      const breakdown = computeVatBreakdown(invoice, context.input.rawText, gross, options);
+      const memory = findVendorMemory(context, 'vatIncluded');
+      const reason = `VAT inclusion inferred from raw text phrases such as "MwSt. inkl." or "Prices incl. VAT". ${describeVatBreakdown(breakdown)}`;
+
+      const current: Record<(typeof VAT_FIELDS)[number], unknown> = {
+        taxAmount: invoice.taxAmount,
+        grossAmount: invoice.grossAmount,
+        'metadata.netTotal': invoice.metadata?.netTotal,
+      };
+      const proposed: Record<(typeof VAT_FIELDS)[number], number> = {
+        taxAmount: breakdown.taxAmount,
+        grossAmount: breakdown.grossAmount,
+        'metadata.netTotal': breakdown.netAmount,
+      };
+
+      return VAT_FIELDS.filter(
+        (field) =>
+          field === 'taxAmount' ||
+          typeof current[field] !== 'number' ||
+          Math.abs((current[field] as number) - proposed[field]) >= 0.01,
+      ).map((field) => ({
+        field,
+        proposedValue: proposed[field],
+        reason,
+        memory,
+        defaultConfidence: 0.75,
+        syntheticMemoryId: 'synthetic-vat-rule',
+      }));
+    },
+    apply(context, proposal) {
+      if (proposal.field === 'metadata.netTotal') {
+        context.normalizedInvoice.metadata = {
+          ...(context.normalizedInvoice.metadata ?? {}),
+          netTotal: proposal.proposedValue,
+        };
+      } else {
+        (context.normalizedInvoice as any)[proposal.field] = proposal.proposedValue;
+      }
+    },
+  };
+}
+
+export const vatIncludedRule = createVatIncludedRule();
+
+export const currencyRule: CorrectionRule = {
+  id: 'currency',
+  detect(context) {
+    return !context.normalizedInvoice.currency;
+  },
+  propose(context) {
+    const memory = findVendorMemory(context, 'currency');
+    const candidateCurrency =
+      normalizeCurrencyFromText(context.input.rawText) ??
+      (memory?.content.metadata?.proposedValue as string | undefined);
+    if (!candidateCurrency) return [];
+
+    return [
+      {
+        field: 'currency',
+        proposedValue: candidateCurrency,
+        reason: 'Currency inferred from raw text and vendor-specific memory.',
+        memory,
+        defaultConfidence: 0.7,
+      },
+    ];
+  },
+  apply(context, proposal) {
+    (context.normalizedInvoice as any).currency = proposal.proposedValue;
+  },
+};
+
+export const freightSkuRule: CorrectionRule = {
+  id: 'freightSku',
+  detect(context) {
+    return context.normalizedInvoice.lineItems.some((item) => looksLikeFreight(item.description));
+  },
+  propose(context) {
+    const memory = findVendorMemory(context, 'freightSku');
+    const proposedSku = (memory?.content.metadata?.proposedValue as string | undefined) ?? 'FREIGHT';
+
+    return context.normalizedInvoice.lineItems
+      .filter((item) => looksLikeFreight(item.description))
+      .map((item) => ({
+        field: `lineItem:${item.id}:sku`,
+        proposedValue: proposedSku,
+        reason: 'Freight-related description mapped to freight SKU based on learned vendor memory.',
+        memory,
+        defaultConfidence: 0.75,
+        syntheticMemoryId: 'synthetic-freight-rule',
+      }));
+  },
+  apply(context, proposal) {
+    const item = context.normalizedInvoice.lineItems.find(
+      (li) => `lineItem:${li.id}:sku` === proposal.field,
+    );
+    if (item) {
+      (item as any).sku = proposal.proposedValue;
+    }
+  },
+};
+
+export const skontoRule: CorrectionRule = {
+  id: 'skonto',
+  detect(context) {
+    return detectSkontoTerms(context.input.rawText) !== undefined;
+  },
+  propose(context) {
+    const skonto = detectSkontoTerms(context.input.rawText);
+    if (!skonto) return [];
+
+    return [
+      {
+        field: 'paymentTermsNormalized',
+        proposedValue: skonto,
+        reason: 'Skonto (cash discount) terms detected in raw text.',
+        memory: findVendorMemory(context, 'skonto'),
+        defaultConfidence: 0.75,
+        syntheticMemoryId: 'synthetic-skonto-rule',
+      },
+    ];
+  },
+  apply(context, proposal) {
+    (context.normalizedInvoice as any).paymentTermsNormalized = proposal.proposedValue;
+  },
+};
+
+/** Memory fields consumed by the dedicated rules above rather than replayed generically. */
+export const DEDICATED_MEMORY_FIELDS = ['vatIncluded', 'freightSku', 'poMatching', 'skonto'];
+
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === 'number' && typeof b === 'number') return Math.abs(a - b) < 0.01;
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as string).getTime() === new Date(b as string).getTime();
+  }
+  return a === b;
+}
+
+function normalizeDescription(description: string): string {
+  return description.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Memories written before derivations existed carry a literal `proposedValue`. A constant is
+ * upgraded to an extraction when its value can be found in the memory's raw-text snippet.
+ */
+export function memoryDerivation(memory: LearnedMemoryRecord): FieldDerivation | undefined {
+  const metadata = memory.content.metadata ?? {};
+  const stored: FieldDerivation | undefined = isFieldDerivation(metadata.derivation)
+    ? metadata.derivation
+    : metadata.proposedValue !== undefined
+      ? { kind: 'constant', value: metadata.proposedValue }
+      : undefined;
+  if (stored?.kind !== 'constant' || typeof metadata.rawTextSnippet !== 'string') return stored;
+
+  const template = inducePattern(stored.value, metadata.rawTextSnippet);
+  return template ? { kind: 'extraction', ...template } : stored;
+}
+
+/**
+ * Replays generic field memories written by `learnFromSignal`. Runs after the dedicated
+ * rules and skips fields they already proposed. Constants only fill empty fields, while
+ * extractions and computations may also replace a value that differs from the derived one.
+ */
+export const learnedFieldRule: CorrectionRule = {
+  id: 'learnedFields',
+  detect(context) {
+    return context.input.recall.vendorMemories.some(
+      (m) => m.content.field !== undefined && !DEDICATED_MEMORY_FIELDS.includes(m.content.field),
+    );
+  },
+  propose(context) {
+    const invoice = context.normalizedInvoice;
+    const alreadyProposed = new Set(context.proposedCorrections.map((c) => c.field));
+    const seenMemoryFields = new Set<string>();
+    const proposals: CorrectionProposal[] = [];
+
+    for (const memory of context.input.recall.vendorMemories) {
+      const memoryField = memory.content.field;
+      if (memoryField === undefined || DEDICATED_MEMORY_FIELDS.includes(memoryField)) continue;
+      // vendorMemories is sorted by score, so the first memory per field wins.
+      if (seenMemoryFields.has(memoryField)) continue;
+      const derivation = memoryDerivation(memory);
+      if (!derivation) continue;
+      seenMemoryFields.add(memoryField);
+
+      let fields = [memoryField];
+      if (memoryField.startsWith('lineItem:*:')) {
+        const property = memoryField.slice('lineItem:*:'.length);
+        const description = memory.content.metadata?.lineItemDescription;
+        fields = invoice.lineItems
+          .filter(
+            (li) =>
+              typeof description === 'string' &&
+              normalizeDescription(li.description) === normalizeDescription(description),
+          )
+          .map((li) => `lineItem:${li.id}:${property}`);
+      }
+
+      for (const field of fields) {
+        if (alreadyProposed.has(field)) continue;
+        const proposedValue = evaluateFieldDerivation(derivation, invoice, context.input.rawText);
+        if (proposedValue === undefined) continue;
+
+        const current = getFieldValue(invoice, field);
+        const replaceable = derivation.kind !== 'constant' && !sameValue(current, proposedValue);
+        if (!isEmptyValue(current) && !replaceable) continue;
+
+        proposals.push({
+          field,
+          proposedValue,
+          reason: `Field ${field} inferred from learned vendor memory for ${
+            memory.content.vendorName ?? 'unknown vendor'
+          } (${describeFieldDerivation(derivation)}).`,
+          memory,
+          defaultConfidence: memory.content.confidence,
+          recordSuggestion: true,
+        });
+      }
+    }
+    return proposals;
+  },
+  apply(context, proposal) {
+    setFieldValue(context.normalizedInvoice, proposal.field, proposal.proposedValue);
+  },
+};
+
+export const BUILT_IN_CORRECTION_RULES: CorrectionRule[] = [
+  serviceDateRule,
+  vatIncludedRule,
+  currencyRule,
+  freightSkuRule,
+  skontoRule,
+  learnedFieldRule,
+];
+
+export function createCorrectionRuleRegistry(
+  rules: CorrectionRule[] = BUILT_IN_CORRECTION_RULES,
+): CorrectionRuleRegistry {
+  const registered = new Map<string, CorrectionRule>();
+
+  const registry: CorrectionRuleRegistry = {
+    register(rule: CorrectionRule) {
+      if (registered.has(rule.id)) {
+        throw new Error(`Correction rule "${rule.id}" is already registered.`);
+      }
+      registered.set(rule.id, rule);
+    },
+    unregister(id: string) {
+      return registered.delete(id);
+    },
+    get(id: string) {
+      return registered.get(id);
+    },
+    list() {
+      return [...registered.values()];
+    },
+  };
+
+  for (const rule of rules) {
+    registry.register(rule);
+  }
+  return registry;
+}
@@ -0,0 +1,163 @@
+import type { LearnedMemoryCategory, LearnedMemoryContent, Memory } from '../models/memory';
+import type { MemoryUpdate } from '../models/pipeline';
+import type { MemoryRepository } from '../memory/memoryRepository';
+import type { MemoryHistoryRepository } from '../memory/memoryHistoryRepository';
+import type { ProvenanceRepository } from '../memory/provenanceRepository';
+import type { ConfidenceEstimate, ConfidenceModelConfig } from './confidence';
+import { estimateConfidence, hasEvidenceCounts } from './confidence';
+import { saveMemoryWithHistory } from './history';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export const DEFAULT_DECAY_HALF_LIFE_DAYS: Record<LearnedMemoryCategory, number> = {
+  vendor: 365,
+  correction: 180,
+  resolution: 90,
+  duplicate: 90,
+};
+
+export const DEFAULT_DECAY_FLOOR = 0.5;
+
+export interface DecayConfig {
+  /** Half-life in days per category; categories without an entry use the defaults. */
+  halfLifeDays?: Partial<Record<LearnedMemoryCategory, number>> | undefined;
+  /**
+   * Confidence that stale memories without approval/rejection counts decay towards (default
+   * 0.5, i.e. "no evidence either way"). Memories already at or below the floor are left unchanged.
+   */
+  floor?: number | undefined;
+}
+
+export interface ConfidenceDecayOptions extends DecayConfig {
+  now?: Date | undefined;
+  /** Smallest confidence drop worth persisting (default 0.005). */
+  minChange?: number | undefined;
+  confidenceModel?: ConfidenceModelConfig | undefined;
+  /** Records a `timeDecay` lineage event for every memory whose confidence is lowered. */
+  provenance?: ProvenanceRepository | undefined;
+  /** Records a `decay` history event for every memory whose confidence is lowered. */
+  history?: MemoryHistoryRepository | undefined;
+}
+
+export function halfLifeFor(category: LearnedMemoryCategory, config: DecayConfig = {}): number {
+  return config.halfLifeDays?.[category] ?? DEFAULT_DECAY_HALF_LIFE_DAYS[category];
+}
+
+/** A memory's decay clock restarts whenever it is written or used on an invoice. */
+export function lastActivityAt(memory: Memory): Date {
+  const usedAt = memory.lastUsedAt?.getTime() ?? 0;
+  return new Date(Math.max(memory.updatedAt.getTime(), usedAt));
+}
+
+/** Fraction of its weight that evidence last touched at the memory's activity time retains now. */
+export function decayFactor(
+  memory: Memory,
+  category: LearnedMemoryCategory,
+  now: Date = new Date(),
+  config: DecayConfig = {},
+): number {
+  const halfLife = halfLifeFor(category, config);
+  if (!(halfLife > 0)) return 1;
+
+  const elapsedDays = Math.max(0, (now.getTime() - lastActivityAt(memory).getTime()) / MS_PER_DAY);
+  return Math.pow(0.5, elapsedDays / halfLife);
+}
+
+export function effectiveConfidence(
+  memory: Memory,
+  category: LearnedMemoryCategory,
+  rawConfidence: number,
+  now: Date = new Date(),
+  config: DecayConfig = {},
+): number {
+  const floor = config.floor ?? DEFAULT_DECAY_FLOOR;
+  if (rawConfidence <= floor) return rawConfidence;
+
+  return floor + (rawConfidence - floor) * decayFactor(memory, category, now, config);
+}
+
+/**
+ * Counted memories decay by fading their approvals, so the posterior drifts back towards the
+ * prior. Rejections are kept at full weight, which means decay never raises a confidence.
+ */
+export function decayedEstimate(
+  memory: Memory,
+  content: Partial<LearnedMemoryContent> & { category: LearnedMemoryCategory },
+  now: Date = new Date(),
+  config: DecayConfig = {},
+  confidenceModel: ConfidenceModelConfig = {},
+): ConfidenceEstimate | undefined {
+  if (!hasEvidenceCounts(content)) return undefined;
+
+  const factor = decayFactor(memory, content.category, now, config);
+  return estimateConfidence(
+    content.approvalCount * factor,
+    content.rejectionCount,
+    content.category,
+    confidenceModel,
+  );
+}
+
+/**
+ * Maintenance routine: writes the decayed confidence of every learned memory back to the
+ * repository, so stored values match what recall would use and the decay clock restarts.
+ */
+export function persistConfidenceDecay(
+  repository: MemoryRepository,
+  options: ConfidenceDecayOptions = {},
+): MemoryUpdate[] {
+  const now = options.now ?? new Date();
+  const minChange = options.minChange ?? 0.005;
+  const updates: MemoryUpdate[] = [];
+
+  for (const { memory, content } of repository.findLearnedMemories({})) {
+    const estimate = decayedEstimate(memory, content, now, options, options.confidenceModel);
+    const decayed =
+      estimate?.mean ??
+      effectiveConfidence(memory, content.category, content.confidence, now, options);
+    if (content.confidence - decayed < minChange) continue;
+
+    let stored: Record<string, unknown>;
+    try {
+      stored = JSON.parse(memory.content) as Record<string, unknown>;
+    } catch {
+      continue;
+    }
+
+    const newConfidence = Number(decayed.toFixed(4));
+    saveMemoryWithHistory(
+      repository,
+      options.history,
+      {
+        ...memory,
+        content: JSON.stringify({
+          ...stored,
+          confidence: newConfidence,
+          ...(estimate ? { approvalCount: Number(estimate.approvals.toFixed(4)) } : {}),
+        }),
+        updatedAt: now,
+      },
+      'decay',
+    );
+
+    options.provenance?.recordEvent({
+      memoryId: memory.id,
+      action: 'decay',
+      source: 'timeDecay',
+      field: content.field,
+      previousConfidence: content.confidence,
+      newConfidence,
+      recordedAt: now,
+    });
+
+    updates.push({
+      memoryId: memory.id,
+      previousConfidence: content.confidence,
+      newConfidence,
+      usageCount: content.usageCount,
+      action: 'decay',
+    });
+  }
+
+  return updates;
+}
@@ -1,4 +1,7 @@
 import type { ApplyContext } from './apply';
+import type { MatchDiscrepancy } from '../models/pipeline';
+import type { ConfidenceThresholds } from './policy';
+import { DEFAULT_DECISION_POLICY, resolveThresholds } from './policy';
 
 export interface Decision {
   requiresHumanReview: boolean;
@@ -6,15 +9,29 @@ export interface Decision {
   reasoning: string;
 }
 
-export function decideNextAction(context: ApplyContext): Decision {
+export function decideNextAction(
+  context: ApplyContext,
+  discrepancies: MatchDiscrepancy[] = [],
+): Decision {
   const hasDuplicate = context.input.recall.duplicateDetected;
+  const policy = context.input.policy ?? DEFAULT_DECISION_POLICY;
+  const thresholdsFor = (field: string, memoryId: string | undefined): ConfidenceThresholds =>
+    resolveThresholds(policy, {
+      vendorName: context.input.invoice.vendorName,
+      field,
+      category:
+        context.input.recall.allMemories.find((m) => m.memory.id === memoryId)?.content.category ??
+        'vendor',
+    });
 
   const highConfidenceApplied = context.appliedMemories.some(
-    (m) => m.applied && m.confidence >= 0.8,
+    (m) => m.applied && m.confidence >= thresholdsFor(m.field, m.memoryId).autoApply,
   );
 
+  // Suggestions whose mean clears the auto-apply threshold but whose lower credible bound did
+  // not are not applied either, so they need review just like medium-confidence ones.
   const mediumConfidenceSuggestions = context.proposedCorrections.filter(
-    (c) => !c.applied && c.confidence >= 0.7 && c.confidence < 0.8,
+    (c) => !c.applied && c.confidence >= thresholdsFor(c.field, c.memoryId).suggest,
   );
 
   const aggregateConfidence = context.aggregateConfidence;
@@ -25,7 +42,8 @@ export function decideNextAction(context: ApplyContext): Decision {
   if (hasDuplicate) {
     requiresHumanReview = true;
     reasoningParts.push(
-      'Potential duplicate detected based on vendor, invoice number, and invoice date proximity.',
+      context.input.recall.duplicateReason ??
+        'Potential duplicate detected based on vendor, invoice number, and invoice date proximity.',
     );
   }
 
@@ -48,6 +66,25 @@ export function decideNextAction(context: ApplyContext): Decision {
     reasoningParts.push('No sufficiently confident learned memory found; escalate to human review.');
   }
 
+  if (context.unresolvedConflicts.length > 0) {
+    requiresHumanReview = true;
+    reasoningParts.push(
+      `Learned memories disagree on ${context.unresolvedConflicts
+        .map((c) => c.field)
+        .join(', ')} and the conflict could not be resolved; human review required.`,
+    );
+  }
+
+  const exceededDiscrepancies = discrepancies.filter((d) => d.exceedsTolerance);
+  if (exceededDiscrepancies.length > 0) {
+    const poNumbers = [...new Set(exceededDiscrepancies.map((d) => d.poNumber ?? 'the purchase order'))];
+    const types = [...new Set(exceededDiscrepancies.map((d) => d.type))];
+    requiresHumanReview = true;
+    reasoningParts.push(
+      `Purchase order matching against ${poNumbers.join(', ')} exceeds tolerance (${types.join(', ')}); human review required.`,
+    );
+  }
+
   const confidenceScore = Math.min(Math.max(aggregateConfidence, 0), 1);
 
   return {
@@ -0,0 +1,201 @@
+import type { InvoiceFingerprint } from '../memory/processedInvoiceRepository';
+import type { NormalizedInvoice } from '../models/pipeline';
+
+export interface DuplicateDetectionOptions {
+  /** Weighted score from which a prior invoice counts as a duplicate. */
+  threshold?: number | undefined;
+  /** Invoices issued further apart than this get no date-proximity credit. */
+  maxDaysApart?: number | undefined;
+}
+
+export interface DuplicateSignals {
+  invoiceNumber: number;
+  amount: number;
+  date: number;
+  lineItems: number;
+  rawTextCue: number;
+}
+
+export interface DuplicateMatch {
+  priorInvoiceId: string;
+  priorInvoiceNumber: string;
+  score: number;
+  /** Per-signal similarity in 0..1, before weighting. */
+  signals: DuplicateSignals;
+  /** Raw-text phrases such as "Duplicate submission" found on the current invoice. */
+  cues: string[];
+}
+
+const DEFAULT_THRESHOLD = 0.7;
+const DEFAULT_MAX_DAYS_APART = 30;
+const MIN_NUMBER_SIMILARITY = 0.8;
+
+const SIGNAL_WEIGHTS: DuplicateSignals = {
+  invoiceNumber: 0.4,
+  amount: 0.25,
+  date: 0.1,
+  lineItems: 0.15,
+  rawTextCue: 0.1,
+};
+
+const DUPLICATE_CUES = [
+  /duplicate submission/i,
+  /duplicate invoice/i,
+  /\bresubmi(?:ssion|tted)\b/i,
+  /\bresent\b/i,
+  /erneute zusendung/i,
+  /erneut (?:zugesandt|zugestellt|versendet)/i,
+  /zweitschrift/i,
+  /rechnungskopie/i,
+];
+
+/** "INV-2024-003", "inv 2024 3" and "2024/003" all normalize to "2024-3". */
+export function normalizeInvoiceNumber(invoiceNumber: string): string {
+  const withoutPrefix = invoiceNumber
+    .toUpperCase()
+    .trim()
+    .replace(/^(?:[A-Z]+\.?(?:[\s\-_/#:]+|(?=\d)))+/, '');
+  const groups = withoutPrefix.match(/[A-Z0-9]+/g) ?? [];
+  return groups.map((group) => group.replace(/^0+(?=.)/, '')).join('-');
+}
+
+function lineItemKey(item: NormalizedInvoice['lineItems'][number]): string {
+  const label = (item.sku ?? item.description).trim().toLowerCase().replace(/\s+/g, ' ');
+  return `${label}|${item.quantity}|${item.unitPrice.toFixed(2)}`;
+}
+
+export function invoiceFingerprint(invoice: NormalizedInvoice): InvoiceFingerprint {
+  return {
+    invoiceId: invoice.id,
+    vendorName: invoice.vendorName,
+    invoiceNumber: invoice.invoiceNumber,
+    normalizedInvoiceNumber: normalizeInvoiceNumber(invoice.invoiceNumber),
+    issuedAt: invoice.issuedAt,
+    totalAmount: invoice.totalAmount,
+    ...(invoice.currency !== undefined ? { currency: invoice.currency } : {}),
+    lineItemKeys: invoice.lineItems.map(lineItemKey).sort(),
+  };
+}
+
+export function findDuplicateCues(rawText: string): string[] {
+  const cues: string[] = [];
+  for (const cue of DUPLICATE_CUES) {
+    const match = rawText.match(cue);
+    if (match) cues.push(match[0]);
+  }
+  return cues;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = (previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length] ?? 0;
+}
+
+/**
+ * Near-identical numbers (OCR slips, a missing separator) score close to 1. Anything below
+ * `MIN_NUMBER_SIMILARITY` scores 0, since "1003" vs "1004" is a different invoice, not a typo.
+ * For the same reason a different trailing sequence group ("2024-42" vs "2024-43") scores 0.
+ */
+function invoiceNumberSimilarity(a: string, b: string): number {
+  if (a === b) return a.length > 0 ? 1 : 0;
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 0;
+  const groupsA = a.split('-');
+  const groupsB = b.split('-');
+  const sequenceA = groupsA[groupsA.length - 1] ?? '';
+  const sequenceB = groupsB[groupsB.length - 1] ?? '';
+  const bothSequences = /^\d+$/.test(sequenceA) && /^\d+$/.test(sequenceB);
+  if (groupsA.length === groupsB.length && bothSequences && sequenceA !== sequenceB) return 0;
+  const similarity = 1 - editDistance(a, b) / longest;
+  return similarity >= MIN_NUMBER_SIMILARITY ? similarity : 0;
+}
+
+function amountSimilarity(current: InvoiceFingerprint, prior: InvoiceFingerprint): number {
+  if (current.currency && prior.currency && current.currency !== prior.currency) return 0;
+  const difference = Math.abs(current.totalAmount - prior.totalAmount);
+  if (difference <= 0.01) return 1;
+  return difference <= 0.01 * Math.max(current.totalAmount, prior.totalAmount) ? 0.5 : 0;
+}
+
+function dateProximity(a: Date, b: Date, maxDaysApart: number): number {
+  const days = Math.abs(a.getTime() - b.getTime()) / (1000 * 60 * 60 * 24);
+  return Math.max(0, 1 - days / maxDaysApart);
+}
+
+function lineItemOverlap(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const shared = [...setA].filter((key) => setB.has(key)).length;
+  return shared / new Set([...setA, ...setB]).size;
+}
+
+export function scoreDuplicate(
+  current: InvoiceFingerprint,
+  prior: InvoiceFingerprint,
+  cues: string[],
+  options: DuplicateDetectionOptions = {},
+): DuplicateMatch {
+  const signals: DuplicateSignals = {
+    invoiceNumber: invoiceNumberSimilarity(current.normalizedInvoiceNumber, prior.normalizedInvoiceNumber),
+    amount: amountSimilarity(current, prior),
+    date: dateProximity(current.issuedAt, prior.issuedAt, options.maxDaysApart ?? DEFAULT_MAX_DAYS_APART),
+    lineItems: lineItemOverlap(current.lineItemKeys, prior.lineItemKeys),
+    rawTextCue: cues.length > 0 ? 1 : 0,
+  };
+  const score = (Object.keys(SIGNAL_WEIGHTS) as Array<keyof DuplicateSignals>).reduce(
+    (sum, signal) => sum + SIGNAL_WEIGHTS[signal] * signals[signal],
+    0,
+  );
+
+  return {
+    priorInvoiceId: prior.invoiceId,
+    priorInvoiceNumber: prior.invoiceNumber,
+    score: Number(score.toFixed(4)),
+    signals,
+    cues,
+  };
+}
+
+/** Best-scoring prior invoice at or above the threshold, if any. */
+export function detectDuplicate(
+  current: InvoiceFingerprint,
+  rawText: string,
+  priorInvoices: InvoiceFingerprint[],
+  options: DuplicateDetectionOptions = {},
+): DuplicateMatch | undefined {
+  const cues = findDuplicateCues(rawText);
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  let best: DuplicateMatch | undefined;
+  for (const prior of priorInvoices) {
+    if (prior.invoiceId === current.invoiceId) continue;
+    const match = scoreDuplicate(current, prior, cues, options);
+    if (match.score >= threshold && (!best || match.score > best.score)) {
+      best = match;
+    }
+  }
+  return best;
+}
+
+export function describeDuplicateMatch(match: DuplicateMatch): string {
+  const signals = [
+    match.signals.invoiceNumber === 1
+      ? 'same invoice number'
+      : match.signals.invoiceNumber > 0
+        ? 'near-identical invoice number'
+        : undefined,
+    match.signals.amount === 1 ? 'same amount' : match.signals.amount > 0 ? 'amount within 1%' : undefined,
+    match.signals.date > 0 ? 'close invoice date' : undefined,
+    match.signals.lineItems > 0 ? 'matching line items' : undefined,
+    match.cues.length > 0 ? `raw text says "${match.cues.join('", "')}"` : undefined,
+  ].filter((s): s is string => s !== undefined);
+  return `Potential duplicate of invoice ${match.priorInvoiceNumber} (${match.priorInvoiceId}), score ${match.score.toFixed(2)}: ${signals.join(', ')}.`;
+}
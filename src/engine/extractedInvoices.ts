@@ -0,0 +1,166 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { NormalizedInvoice } from '../models/pipeline';
+import type { HumanFeedbackInput } from './index';
+
+/** An invoice as delivered by the extraction pipeline (`data/invoices_extracted.json`). */
+export interface ExtractedInvoiceRecord {
+  invoiceId: string;
+  vendor: string;
+  fields: {
+    invoiceNumber: string;
+    invoiceDate: string;
+    serviceDate: string | null;
+    currency: string | null;
+    poNumber: string | null;
+    netTotal: number;
+    taxRate: number;
+    taxTotal: number;
+    grossTotal: number;
+    lineItems: {
+      sku: string | null;
+      description: string;
+      qty: number;
+      unitPrice: number;
+    }[];
+  };
+  confidence: number;
+  rawText: string;
+}
+
+/** A reviewer's corrections for one invoice (`data/human_corrections.json`). */
+export interface HumanCorrectionRecord {
+  invoiceId: string;
+  vendor: string;
+  corrections: {
+    field: string;
+    from: unknown;
+    to: unknown;
+    reason: string;
+  }[];
+  finalDecision: string;
+}
+
+/** Parses `dd.mm.yyyy`, `dd-mm-yyyy` and ISO dates. */
+export function parseInvoiceDate(value: string | null): Date | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim();
+
+  const dotMatch = trimmed.match(/^(\d{2})\.(\d{2})\.(\d{4})$/);
+  if (dotMatch) {
+    const [, dd, mm, yyyy] = dotMatch;
+    return new Date(Number(yyyy), Number(mm) - 1, Number(dd));
+  }
+
+  const dashMatch = trimmed.match(/^(\d{2})-(\d{2})-(\d{4})$/);
+  if (dashMatch) {
+    const [, dd, mm, yyyy] = dashMatch;
+    return new Date(Number(yyyy), Number(mm) - 1, Number(dd));
+  }
+
+  const iso = new Date(trimmed);
+  if (!Number.isNaN(iso.getTime())) {
+    return iso;
+  }
+
+  return undefined;
+}
+
+export function toNormalizedInvoice(record: ExtractedInvoiceRecord): NormalizedInvoice {
+  const issuedAt = parseInvoiceDate(record.fields.invoiceDate) ?? new Date();
+  const serviceDate = parseInvoiceDate(record.fields.serviceDate);
+
+  return {
+    id: record.invoiceId,
+    externalId: record.invoiceId,
+    customerName: record.vendor,
+    vendorName: record.vendor,
+    invoiceNumber: record.fields.invoiceNumber,
+    currency: record.fields.currency ?? '',
+    totalAmount: record.fields.grossTotal,
+    issuedAt,
+    lineItems: record.fields.lineItems.map((li, index) => ({
+      id: String(index + 1),
+      description: li.description,
+      sku: li.sku ?? undefined,
+      quantity: li.qty,
+      unitPrice: li.unitPrice,
+    })),
+    rawText: record.rawText,
+    serviceDate: serviceDate,
+    taxAmount: record.fields.taxTotal,
+    grossAmount: record.fields.grossTotal,
+    metadata: {
+      poNumber: record.fields.poNumber ?? undefined,
+      taxRate: record.fields.taxRate,
+      netTotal: record.fields.netTotal,
+      extractorConfidence: record.confidence,
+    },
+  };
+}
+
+/** Reads a file holding one extracted invoice or an array of them. */
+export function loadExtractedInvoices(filename = 'data/invoices_extracted.json'): ExtractedInvoiceRecord[] {
+  const fullPath = path.resolve(process.cwd(), filename);
+  const parsed = JSON.parse(fs.readFileSync(fullPath, 'utf8')) as
+    | ExtractedInvoiceRecord
+    | ExtractedInvoiceRecord[];
+  const records = Array.isArray(parsed) ? parsed : [parsed];
+
+  for (const [index, record] of records.entries()) {
+    if (typeof record?.invoiceId !== 'string' || typeof record.vendor !== 'string' || !record.fields) {
+      throw new Error(
+        `${filename}: entry ${index} is not an extracted invoice (needs invoiceId, vendor and fields).`,
+      );
+    }
+  }
+  return records;
+}
+
+/** Maps the extraction field names reviewers use to the engine's field paths. */
+export function mapHumanFieldToEngineField(field: string): string {
+  switch (field) {
+    case 'taxTotal':
+      return 'taxAmount';
+    case 'grossTotal':
+      return 'grossAmount';
+    case 'discountTerms':
+      return 'paymentTermsNormalized';
+    case 'lineItems[0].sku':
+      return 'lineItem:1:sku';
+    case 'poNumber':
+      return 'metadata.poNumber';
+    default:
+      return field;
+  }
+}
+
+/**
+ * Turns a reviewer's corrections into feedback carrying their values. `from` is not needed:
+ * the engine compares each value with its own proposal to tell approvals from edits.
+ */
+export function humanCorrectionsToFeedback(record: HumanCorrectionRecord): HumanFeedbackInput {
+  return {
+    approvedCorrections: [],
+    rejectedCorrections: [],
+    corrections: record.corrections.map((c) => {
+      const field = mapHumanFieldToEngineField(c.field);
+      const value = field === 'serviceDate' && typeof c.to === 'string' ? parseInvoiceDate(c.to) ?? c.to : c.to;
+      return { field, value, reason: c.reason };
+    }),
+  };
+}
+
+/** Reads a file holding reviewer corrections for one invoice or an array of them. */
+export function loadHumanCorrections(filename = 'data/human_corrections.json'): HumanCorrectionRecord[] {
+  const fullPath = path.resolve(process.cwd(), filename);
+  const parsed = JSON.parse(fs.readFileSync(fullPath, 'utf8')) as HumanCorrectionRecord | HumanCorrectionRecord[];
+  const records = Array.isArray(parsed) ? parsed : [parsed];
+
+  for (const [index, record] of records.entries()) {
+    if (typeof record?.invoiceId !== 'string' || !Array.isArray(record.corrections)) {
+      throw new Error(`${filename}: entry ${index} is not a human correction (needs invoiceId and corrections).`);
+    }
+  }
+  return records;
+}
@@ -0,0 +1,111 @@
+import type { ProposedCorrection, ReviewerCorrection } from '../models/pipeline';
+import type { HumanFeedbackInput } from './index';
+
+/**
+ * `edited` is an approval whose value the reviewer changed; `added` is a correction the
+ * engine did not propose.
+ */
+export type FeedbackOutcome = 'approved' | 'edited' | 'rejected' | 'added';
+
+/**
+ * Weight of each outcome in a memory's approval or rejection count. An edit confirms that
+ * the field needed correcting but not the value: it is half a rejection of the proposed value,
+ * and the reviewer's value starts its own evidence with half an approval.
+ */
+export const FEEDBACK_WEIGHTS: Record<FeedbackOutcome, number> = {
+  approved: 1,
+  edited: 0.5,
+  rejected: 1,
+  added: 1,
+};
+
+/** One field the engine learns from, with the value the reviewer settled on. */
+export interface FeedbackDecision {
+  field: string;
+  value: unknown;
+  outcome: FeedbackOutcome;
+  approved: boolean;
+  weight: number;
+  /** Value the engine proposed, for edited fields. */
+  proposedValue?: unknown;
+  /** Memory behind the proposal, for approved, edited and rejected fields. */
+  memoryId?: string | undefined;
+  reason?: string | undefined;
+}
+
+/** Dates arrive as `Date`s from the engine and as ISO strings from reviewers. */
+function comparable(value: unknown): string {
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return JSON.stringify(`${value}T00:00:00.000Z`);
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+/** Whether a reviewer value stands for the same value the engine or a memory holds. */
+export function sameFeedbackValue(a: unknown, b: unknown): boolean {
+  return comparable(a) === comparable(b);
+}
+
+function decision(
+  field: string,
+  value: unknown,
+  outcome: FeedbackOutcome,
+  memoryId: string | undefined,
+  reason: string | undefined,
+): FeedbackDecision {
+  return {
+    field,
+    value,
+    outcome,
+    approved: outcome !== 'rejected',
+    weight: FEEDBACK_WEIGHTS[outcome],
+    ...(memoryId !== undefined ? { memoryId } : {}),
+    ...(reason !== undefined ? { reason } : {}),
+  };
+}
+
+/**
+ * Pairs the feedback with the corrections the engine proposed, in proposal order, followed
+ * by the reviewer's own corrections for fields it did not propose. A reviewer value for a
+ * proposed field counts as an approval when it matches the proposal and as an edit otherwise,
+ * even when the field is also listed as approved or rejected.
+ */
+export function resolveFeedback(
+  proposedCorrections: ProposedCorrection[],
+  feedback: HumanFeedbackInput,
+): FeedbackDecision[] {
+  const corrections = new Map<string, ReviewerCorrection>(
+    (feedback.corrections ?? []).map((c) => [c.field, c]),
+  );
+  const decisions: FeedbackDecision[] = [];
+
+  for (const proposal of proposedCorrections) {
+    const correction = corrections.get(proposal.field);
+    if (correction) {
+      const edited = !sameFeedbackValue(correction.value, proposal.proposedValue);
+      decisions.push({
+        ...decision(
+          proposal.field,
+          edited ? correction.value : proposal.proposedValue,
+          edited ? 'edited' : 'approved',
+          proposal.memoryId,
+          correction.reason,
+        ),
+        ...(edited ? { proposedValue: proposal.proposedValue } : {}),
+      });
+    } else if (feedback.approvedCorrections.includes(proposal.field)) {
+      decisions.push(decision(proposal.field, proposal.proposedValue, 'approved', proposal.memoryId, undefined));
+    } else if (feedback.rejectedCorrections.includes(proposal.field)) {
+      decisions.push(decision(proposal.field, proposal.proposedValue, 'rejected', proposal.memoryId, undefined));
+    }
+  }
+
+  const proposedFields = new Set(proposedCorrections.map((c) => c.field));
+  for (const correction of corrections.values()) {
+    if (!proposedFields.has(correction.field)) {
+      decisions.push(decision(correction.field, correction.value, 'added', undefined, correction.reason));
+    }
+  }
+  return decisions;
+}
@@ -0,0 +1,175 @@
+import type { NormalizedInvoice } from '../models/pipeline';
+import type { ExtractionTemplate } from './patternInduction';
+import { describeExtractionTemplate, extractWithTemplate, inducePattern } from './patternInduction';
+
+export type FieldComputationOperation = 'copy' | 'sum' | 'difference' | 'product' | 'quotient';
+
+/** How a learned field value is derived on a future invoice of the same vendor. */
+export type FieldDerivation =
+  | { kind: 'constant'; value: unknown }
+  | ({ kind: 'extraction' } & ExtractionTemplate)
+  | { kind: 'computation'; operation: FieldComputationOperation; operands: string[] };
+
+/** Virtual operand: sum of quantity × unit price over all line items. */
+export const LINE_ITEMS_TOTAL = 'lineItemsTotal';
+
+const LINE_ITEM_FIELD = /^lineItem:([^:]+):(.+)$/;
+const AMOUNT_TOLERANCE = 0.005;
+
+export function parseLineItemField(
+  field: string,
+): { lineItemId: string; property: string } | undefined {
+  const match = field.match(LINE_ITEM_FIELD);
+  if (!match?.[1] || !match[2]) return undefined;
+  return { lineItemId: match[1], property: match[2] };
+}
+
+/** `lineItem:3:sku` → `lineItem:*:sku`, so a line-item memory is not tied to one line number. */
+export function generalizeFieldPath(field: string): string {
+  const lineItem = parseLineItemField(field);
+  return lineItem ? `lineItem:*:${lineItem.property}` : field;
+}
+
+export function getFieldValue(invoice: NormalizedInvoice, field: string): unknown {
+  const lineItem = parseLineItemField(field);
+  if (lineItem) {
+    const item = invoice.lineItems.find((li) => li.id === lineItem.lineItemId);
+    return item ? (item as unknown as Record<string, unknown>)[lineItem.property] : undefined;
+  }
+  if (field === LINE_ITEMS_TOTAL) {
+    return invoice.lineItems.reduce((sum, li) => sum + li.quantity * li.unitPrice, 0);
+  }
+  if (field.startsWith('metadata.')) {
+    return invoice.metadata?.[field.slice('metadata.'.length)];
+  }
+  return (invoice as unknown as Record<string, unknown>)[field];
+}
+
+export function setFieldValue(invoice: NormalizedInvoice, field: string, value: unknown): void {
+  const lineItem = parseLineItemField(field);
+  if (lineItem) {
+    const item = invoice.lineItems.find((li) => li.id === lineItem.lineItemId);
+    if (item) {
+      (item as unknown as Record<string, unknown>)[lineItem.property] = value;
+    }
+    return;
+  }
+  if (field.startsWith('metadata.')) {
+    invoice.metadata = { ...(invoice.metadata ?? {}), [field.slice('metadata.'.length)]: value };
+    return;
+  }
+  (invoice as unknown as Record<string, unknown>)[field] = value;
+}
+
+function numericOperands(invoice: NormalizedInvoice, exclude: string): Array<[string, number]> {
+  const operands: Array<[string, number]> = [];
+  for (const [key, value] of Object.entries(invoice)) {
+    if (typeof value === 'number' && key !== exclude) operands.push([key, value]);
+  }
+  for (const [key, value] of Object.entries(invoice.metadata ?? {})) {
+    const path = `metadata.${key}`;
+    if (typeof value === 'number' && path !== exclude) operands.push([path, value]);
+  }
+  if (invoice.lineItems.length > 0 && exclude !== LINE_ITEMS_TOTAL) {
+    operands.push([LINE_ITEMS_TOTAL, getFieldValue(invoice, LINE_ITEMS_TOTAL) as number]);
+  }
+  return operands;
+}
+
+function compute(operation: FieldComputationOperation, values: number[]): number | undefined {
+  const [a, b] = values;
+  if (a === undefined) return undefined;
+  switch (operation) {
+    case 'copy':
+      return a;
+    case 'sum':
+      return b === undefined ? undefined : a + b;
+    case 'difference':
+      return b === undefined ? undefined : a - b;
+    case 'product':
+      return b === undefined ? undefined : a * b;
+    case 'quotient':
+      return b === undefined || b === 0 ? undefined : a / b;
+  }
+}
+
+function findComputation(
+  field: string,
+  value: number,
+  invoice: NormalizedInvoice,
+): FieldDerivation | undefined {
+  const operands = numericOperands(invoice, field);
+  const matches = (result: number | undefined) =>
+    result !== undefined && Math.abs(result - value) <= AMOUNT_TOLERANCE;
+
+  for (const [path, operand] of operands) {
+    if (matches(operand)) return { kind: 'computation', operation: 'copy', operands: [path] };
+  }
+  const binary: FieldComputationOperation[] = ['sum', 'difference', 'product', 'quotient'];
+  for (const operation of binary) {
+    for (const [pathA, a] of operands) {
+      for (const [pathB, b] of operands) {
+        if (pathA === pathB) continue;
+        if (matches(compute(operation, [a, b]))) {
+          return { kind: 'computation', operation, operands: [pathA, pathB] };
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+export function inferFieldDerivation(
+  field: string,
+  value: unknown,
+  invoice: NormalizedInvoice,
+  rawText: string,
+): FieldDerivation {
+  const template = inducePattern(value, rawText);
+  if (template) return { kind: 'extraction', ...template };
+
+  if (typeof value === 'number' && !parseLineItemField(field)) {
+    const computation = findComputation(field, value, invoice);
+    if (computation) return computation;
+  }
+
+  return { kind: 'constant', value };
+}
+
+export function evaluateFieldDerivation(
+  derivation: FieldDerivation,
+  invoice: NormalizedInvoice,
+  rawText: string,
+): unknown {
+  switch (derivation.kind) {
+    case 'constant':
+      return derivation.value;
+    case 'extraction':
+      return extractWithTemplate(derivation, rawText);
+    case 'computation': {
+      const values = derivation.operands.map((path) => getFieldValue(invoice, path));
+      if (!values.every((v): v is number => typeof v === 'number')) return undefined;
+      const result = compute(derivation.operation, values);
+      return result === undefined ? undefined : Number(result.toFixed(2));
+    }
+  }
+}
+
+export function describeFieldDerivation(derivation: FieldDerivation): string {
+  switch (derivation.kind) {
+    case 'constant':
+      return `constant ${JSON.stringify(derivation.value)}`;
+    case 'extraction':
+      return `extracted ${describeExtractionTemplate(derivation)}`;
+    case 'computation':
+      return derivation.operation === 'copy'
+        ? `copied from ${derivation.operands[0] ?? '?'}`
+        : `${derivation.operation} of ${derivation.operands.join(' and ')}`;
+  }
+}
+
+export function isFieldDerivation(value: unknown): value is FieldDerivation {
+  if (typeof value !== 'object' || value === null) return false;
+  const kind = (value as { kind?: unknown }).kind;
+  return kind === 'constant' || kind === 'extraction' || kind === 'computation';
+}
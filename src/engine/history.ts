@@ -0,0 +1,254 @@
+import type { LearnedMemoryContent, Memory } from '../models/memory';
+import type { MemoryRepository } from '../memory/memoryRepository';
+import type {
+  MemoryEvent,
+  MemoryEventFilter,
+  MemoryEventType,
+  MemoryHistoryRepository,
+  MemorySnapshot,
+} from '../memory/memoryHistoryRepository';
+import { memoryFromSnapshot, snapshotOf } from '../memory/memoryHistoryRepository';
+import type { ConfidenceModelConfig } from './confidence';
+import { estimateConfidence, seedEvidenceCounts } from './confidence';
+
+interface EvidenceTotals {
+  approvals: number;
+  rejections: number;
+  usage: number;
+}
+
+function parseContent(content: string): Partial<LearnedMemoryContent> {
+  try {
+    return JSON.parse(content) as Partial<LearnedMemoryContent>;
+  } catch {
+    return {};
+  }
+}
+
+function totalsOf(snapshot: MemorySnapshot | undefined): EvidenceTotals {
+  if (!snapshot) return { approvals: 0, rejections: 0, usage: 0 };
+  const content = parseContent(snapshot.content);
+  const counts = seedEvidenceCounts(content);
+  return {
+    approvals: counts.approvals,
+    rejections: counts.rejections,
+    usage: typeof content.usageCount === 'number' ? content.usageCount : 0,
+  };
+}
+
+function latestEvent(history: MemoryHistoryRepository, filter: MemoryEventFilter): MemoryEvent | undefined {
+  const events = history.findEvents(filter);
+  return events[events.length - 1];
+}
+
+/** Memory writes outside learning and undo, recorded with their own event type. */
+export type MemoryChangeType = Extract<MemoryEventType, 'decay' | 'merge' | 'edit' | 'delete'>;
+
+/** Saves the memory and records the change as a history event, in one transaction. */
+export function saveMemoryWithHistory(
+  repository: MemoryRepository,
+  history: MemoryHistoryRepository | undefined,
+  memory: Memory,
+  type: MemoryChangeType,
+): MemoryEvent | undefined {
+  return repository.transaction(() => {
+    const current = repository.getMemoryById(memory.id);
+    repository.saveMemory(memory);
+    return history?.appendEvent({
+      memoryId: memory.id,
+      type,
+      before: current ? snapshotOf(current) : undefined,
+      after: snapshotOf(repository.getMemoryById(memory.id)!),
+      recordedAt: memory.updatedAt,
+    });
+  });
+}
+
+/** Deletes the memory and records a `delete` (or `merge`) event; false when it does not exist. */
+export function deleteMemoryWithHistory(
+  repository: MemoryRepository,
+  history: MemoryHistoryRepository | undefined,
+  memoryId: string,
+  type: Extract<MemoryChangeType, 'merge' | 'delete'> = 'delete',
+): boolean {
+  return repository.transaction(() => {
+    const current = repository.getMemoryById(memoryId);
+    if (!current || !repository.deleteMemory(memoryId)) return false;
+    history?.appendEvent({ memoryId, type, before: snapshotOf(current) });
+    return true;
+  });
+}
+
+/** Writes `snapshot` back as the memory's state, or deletes the memory when there is none. */
+function restore(repository: MemoryRepository, memoryId: string, snapshot: MemorySnapshot | undefined): void {
+  if (snapshot) {
+    repository.saveMemory(memoryFromSnapshot(memoryId, snapshot));
+  } else {
+    repository.deleteMemory(memoryId);
+  }
+}
+
+/**
+ * Takes a `learn` event's evidence out of the memory's current state. When nothing changed
+ * the memory since, its state before the event is restored as is; otherwise the approvals,
+ * rejections and usage the event added are subtracted and the confidence is re-estimated.
+ */
+function revertedState(
+  event: MemoryEvent,
+  current: Memory | undefined,
+  isLatest: boolean,
+  now: Date,
+  confidenceModel: ConfidenceModelConfig,
+): MemorySnapshot | undefined {
+  if (isLatest || (current !== undefined && current.content === event.after?.content)) return event.before;
+  // A memory deleted since (e.g. by a rollback) has no evidence left to take out.
+  if (!current) return undefined;
+
+  const before = totalsOf(event.before);
+  const after = totalsOf(event.after);
+  const remaining = totalsOf(snapshotOf(current));
+  const approvalCount = Math.max(0, remaining.approvals - (after.approvals - before.approvals));
+  const rejectionCount = Math.max(0, remaining.rejections - (after.rejections - before.rejections));
+  const usageCount = Math.max(0, remaining.usage - (after.usage - before.usage));
+
+  const content = parseContent(current.content);
+  const estimate = estimateConfidence(
+    approvalCount,
+    rejectionCount,
+    content.category ?? 'correction',
+    confidenceModel,
+  );
+  return {
+    ...snapshotOf(current),
+    content: JSON.stringify({
+      ...content,
+      confidence: Number(estimate.mean.toFixed(4)),
+      usageCount,
+      approvalCount,
+      rejectionCount,
+    }),
+    updatedAt: now,
+  };
+}
+
+/** Undoes one `learn` event and records the undo as a `revert` event. */
+export function revertMemoryEvent(
+  repository: MemoryRepository,
+  history: MemoryHistoryRepository,
+  eventId: string,
+  confidenceModel: ConfidenceModelConfig = {},
+): MemoryEvent {
+  const event = history.getEvent(eventId);
+  if (!event) {
+    throw new Error(`Unknown memory event ${eventId}.`);
+  }
+  if (event.type !== 'learn') {
+    throw new Error(`Memory event ${eventId} is a ${event.type} event; only learn events can be reverted.`);
+  }
+  if (history.findEvents({ revertsEventId: eventId }).length > 0) {
+    throw new Error(`Memory event ${eventId} was already reverted.`);
+  }
+
+  return repository.transaction(() => {
+    const now = new Date();
+    const current = repository.getMemoryById(event.memoryId);
+    const latest = latestEvent(history, { memoryId: event.memoryId });
+    const after = revertedState(event, current, latest?.id === event.id, now, confidenceModel);
+
+    restore(repository, event.memoryId, after);
+    return history.appendEvent({
+      memoryId: event.memoryId,
+      type: 'revert',
+      invoiceId: event.invoiceId,
+      feedbackEventId: event.feedbackEventId,
+      revertsEventId: event.id,
+      before: current ? snapshotOf(current) : undefined,
+      after,
+      recordedAt: now,
+    });
+  });
+}
+
+function revertAll(
+  repository: MemoryRepository,
+  history: MemoryHistoryRepository,
+  events: MemoryEvent[],
+  confidenceModel: ConfidenceModelConfig,
+): MemoryEvent[] {
+  const pending = events.filter(
+    (e) => e.type === 'learn' && history.findEvents({ revertsEventId: e.id }).length === 0,
+  );
+  // Newest first, so a memory touched twice is restored step by step.
+  return repository.transaction(() =>
+    pending.reverse().map((event) => revertMemoryEvent(repository, history, event.id, confidenceModel)),
+  );
+}
+
+/** Undoes every memory change made by one reviewer decision (one learning signal). */
+export function revertFeedbackEvent(
+  repository: MemoryRepository,
+  history: MemoryHistoryRepository,
+  feedbackEventId: string,
+  confidenceModel: ConfidenceModelConfig = {},
+): MemoryEvent[] {
+  const events = history.findEvents({ feedbackEventId, type: 'learn' });
+  if (events.length === 0) {
+    throw new Error(`No memory changes recorded for feedback event ${feedbackEventId}.`);
+  }
+  return revertAll(repository, history, events, confidenceModel);
+}
+
+/** Undoes everything learned from feedback on one invoice. */
+export function rollbackInvoice(
+  repository: MemoryRepository,
+  history: MemoryHistoryRepository,
+  invoiceId: string,
+  confidenceModel: ConfidenceModelConfig = {},
+): MemoryEvent[] {
+  return revertAll(repository, history, history.findEvents({ invoiceId, type: 'learn' }), confidenceModel);
+}
+
+/**
+ * Restores the memory to its state at `to` and records a `rollback` event. A memory created
+ * after `to` is deleted.
+ */
+export function rollbackMemory(
+  repository: MemoryRepository,
+  history: MemoryHistoryRepository,
+  memoryId: string,
+  to: Date,
+): MemoryEvent {
+  const events = history.findEvents({ memoryId });
+  if (events.length === 0) {
+    throw new Error(`No history recorded for memory ${memoryId}.`);
+  }
+
+  const lastBefore = latestEvent(history, { memoryId, until: to });
+  // Before its first recorded event, the memory was in that event's `before` state.
+  const target = lastBefore ? lastBefore.after : events[0]!.before;
+
+  return repository.transaction(() => {
+    const current = repository.getMemoryById(memoryId);
+    restore(repository, memoryId, target);
+    return history.appendEvent({
+      memoryId,
+      type: 'rollback',
+      before: current ? snapshotOf(current) : undefined,
+      after: target,
+    });
+  });
+}
+
+/** Rebuilds every memory with recorded history from the state after its latest event. */
+export function rebuildMemoriesFromHistory(
+  repository: MemoryRepository,
+  history: MemoryHistoryRepository,
+): number {
+  const memoryIds = history.listMemoryIds();
+  repository.transaction(() => {
+    for (const memoryId of memoryIds) {
+      restore(repository, memoryId, latestEvent(history, { memoryId })?.after);
+    }
+  });
+  return memoryIds.length;
+}
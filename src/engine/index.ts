@@ -2,19 +2,126 @@ export * from './recall';
 export * from './apply';
 export * from './decide';
 export * from './learn';
+export * from './poMatching';
+export * from './threeWayMatch';
+export * from './poLedger';
+export * from './decay';
+export * from './confidence';
+export * from './policy';
+export * from './correctionRules';
+export * from './vat';
+export * from './fieldLearning';
+export * from './patternInduction';
+export * from './duplicates';
+export * from './vendors';
+export * from './conflicts';
+export * from './provenance';
+export * from './history';
+export * from './extractedInvoices';
+export * from './reviewQueue';
+export * from './feedback';
 
 import { v4 as uuidv4 } from 'uuid';
 import type { MemoryRepository } from '../memory/memoryRepository';
-import type { NormalizedInvoice, EngineOutputContract, AuditTrailEntry, MemoryUpdate } from '../models';
+import type { PoLedgerRepository } from '../memory/poLedgerRepository';
+import type { ProcessedInvoiceRepository } from '../memory/processedInvoiceRepository';
+import type { VendorRepository } from '../memory/vendorRepository';
+import type { ProvenanceRepository } from '../memory/provenanceRepository';
+import type { MemoryHistoryRepository } from '../memory/memoryHistoryRepository';
+import type { AuditLogRepository } from '../memory/auditLogRepository';
+import type { EngineRunRepository } from '../memory/engineRunRepository';
+import type { ReviewItem, ReviewQueueRepository } from '../memory/reviewQueueRepository';
+import { normalizeVendorName } from '../memory/vendorRepository';
+import type { EmbeddingProvider } from '../memory/embeddings';
+import { defaultEmbeddingProvider } from '../memory/embeddings';
+import type {
+	NormalizedInvoice,
+	EngineOutputContract,
+	AuditTrailEntry,
+	MemoryUpdate,
+	MatchDiscrepancy,
+	PurchaseOrder,
+	ProposedCorrection,
+	ReviewerCorrection,
+	DeliveryNote,
+	Memory,
+} from '../models';
 import type { RecallQuery } from './recall';
-import { recallMemories } from './recall';
+import { invoiceEmbeddingText, recallMemories } from './recall';
 import { applyMemoriesToContext } from './apply';
 import { decideNextAction } from './decide';
-import { learnFromSignal } from './learn';
+import type { LearningSignal } from './learn';
+import { findSignalMemory, learnedValueFor, learnFromSignal, learningTargetKey } from './learn';
+import { matchPurchaseOrder } from './poMatching';
+import type { ThreeWayMatchResult, ThreeWayMatchTolerance } from './threeWayMatch';
+import { matchThreeWay } from './threeWayMatch';
+import { checkPoConsumption } from './poLedger';
+import type { DecayConfig } from './decay';
+import type { ConfidenceModelConfig } from './confidence';
+import type { DecisionPolicy } from './policy';
+import { DEFAULT_DECISION_POLICY, validateDecisionPolicy } from './policy';
+import type { CorrectionRuleRegistry } from './correctionRules';
+import { BUILT_IN_CORRECTION_RULES } from './correctionRules';
+import { inferFieldDerivation, parseLineItemField } from './fieldLearning';
+import type { DuplicateDetectionOptions } from './duplicates';
+import { invoiceFingerprint } from './duplicates';
+import { findVendorIdentity } from './vendors';
+import { resolveFeedback, sameFeedbackValue } from './feedback';
+import type { ReviewCompletion } from './reviewQueue';
+import { completeReview, enqueueForReview, reviewFeedback } from './reviewQueue';
+
+const RAW_TEXT_SNIPPET_LENGTH = 500;
 
 export interface HumanFeedbackInput {
 	approvedCorrections: string[];
 	rejectedCorrections: string[];
+	/**
+	 * Values the reviewer set. For a proposed field this approves the proposal, with an edit when
+	 * the value differs; any other field is a correction the engine did not propose.
+	 */
+	corrections?: ReviewerCorrection[];
+}
+
+export interface ProcessInvoiceOptions {
+	purchaseOrders?: PurchaseOrder[];
+	deliveryNotes?: DeliveryNote[];
+	matchTolerance?: ThreeWayMatchTolerance;
+	poLedger?: PoLedgerRepository;
+	embeddingProvider?: EmbeddingProvider;
+	decay?: DecayConfig;
+	confidenceModel?: ConfidenceModelConfig;
+	/** Validated before use; defaults to `DEFAULT_DECISION_POLICY`. */
+	policy?: DecisionPolicy;
+	/** Built-in plus host-registered correction rules; defaults to the built-in rules only. */
+	ruleRegistry?: CorrectionRuleRegistry;
+	/** Registry of processed invoices; enables duplicate detection and vendor history. */
+	invoiceRegistry?: ProcessedInvoiceRepository;
+	duplicateDetection?: DuplicateDetectionOptions;
+	/** Vendor master; when set, name variants of a vendor share one id and one set of memories. */
+	vendors?: VendorRepository;
+	/** Memory lineage; every memory created or updated from feedback gets an event. */
+	provenance?: ProvenanceRepository;
+	/** Memory event log; learning from this invoice can then be reverted. */
+	history?: MemoryHistoryRepository;
+	/** Persistent audit log; the run's audit trail is appended to it under the run id. */
+	auditLog?: AuditLogRepository;
+	/** Keeps the input and proposals of runs processed without feedback, so feedback can follow later. */
+	runs?: EngineRunRepository;
+	/** Review queue; flagged runs processed without feedback are queued for a reviewer. */
+	reviewQueue?: ReviewQueueRepository;
+	/** Identifies the run in the audit log, run store and review queue; generated when omitted. */
+	runId?: string;
+	/**
+	 * Proposals the feedback was given on, e.g. those of a stored run; defaults to this run's
+	 * proposals. Learning must follow what the reviewer saw, not what a later re-run proposes.
+	 */
+	reviewedCorrections?: ProposedCorrection[];
+}
+
+export interface ReviewCompletionResult {
+	item: ReviewItem;
+	/** Output of re-processing the invoice with the reviewer's decisions; absent when there were none. */
+	output?: EngineOutputContract;
 }
 
 export async function processInvoiceWithMemory(
@@ -22,14 +129,52 @@ export async function processInvoiceWithMemory(
 	invoice: NormalizedInvoice,
 	rawText: string,
 	humanFeedback?: HumanFeedbackInput,
+	options: ProcessInvoiceOptions = {},
 ): Promise<EngineOutputContract> {
 	const auditTrail: AuditTrailEntry[] = [];
+	// The engine fills in line item fields in place; keep the invoice as it came in.
+	const input = options.runs && !humanFeedback ? structuredClone(invoice) : undefined;
+	const policy = options.policy
+		? validateDecisionPolicy(options.policy)
+		: DEFAULT_DECISION_POLICY;
+
+	const embeddingProvider = options.embeddingProvider ?? defaultEmbeddingProvider;
+	const embedding = embeddingProvider.embed(
+		invoiceEmbeddingText(
+			rawText,
+			invoice.lineItems.map((li) => li.description),
+		),
+	);
+
+	const vendor = options.vendors?.resolveVendor(findVendorIdentity(invoice, rawText));
+	const vendorNames = new Set(
+		(vendor?.aliases ?? [invoice.vendorName]).map(normalizeVendorName),
+	);
+
+	const fingerprint = invoiceFingerprint(invoice);
+	const priorInvoices = options.invoiceRegistry?.findDuplicateCandidates(
+		invoice.vendorName,
+		fingerprint.normalizedInvoiceNumber,
+		invoice.id,
+	);
+	const priorVendorInvoices = (priorInvoices ?? []).filter((p) =>
+		vendorNames.has(normalizeVendorName(p.vendorName)),
+	);
 
 	const recallQuery: RecallQuery = {
 		vendorName: invoice.vendorName,
+		vendorId: vendor?.id,
 		invoiceNumber: invoice.invoiceNumber,
 		invoiceDate: invoice.issuedAt,
 		rawText,
+		embedding,
+		embeddingModel: embeddingProvider.id,
+		decay: options.decay,
+		confidenceModel: options.confidenceModel,
+		fingerprint,
+		// Another vendor's invoice with the same number and amount is not a duplicate.
+		priorInvoices: priorInvoices && priorVendorInvoices,
+		duplicateDetection: options.duplicateDetection,
 	};
 
 	const recallResult = await recallMemories(repository, recallQuery);
@@ -37,18 +182,50 @@ export async function processInvoiceWithMemory(
 		step: 'recall',
 		timestamp: new Date(),
 		details: {
+			...(vendor ? { vendorId: vendor.id, vendorCanonicalName: vendor.canonicalName } : {}),
 			duplicateDetected: recallResult.duplicateDetected,
 			duplicateScore: recallResult.duplicateScore,
+			...(recallResult.duplicateMatch
+				? {
+						duplicateOf: recallResult.duplicateMatch.priorInvoiceId,
+						duplicateSignals: recallResult.duplicateMatch.signals,
+					}
+				: {}),
+			...(priorInvoices
+				? {
+						vendorHistory: {
+							processedInvoices: priorVendorInvoices.length,
+							reviewedInvoices: priorVendorInvoices.filter((p) => p.decision?.requiresHumanReview)
+								.length,
+						},
+					}
+				: {}),
 			vendorMemories: recallResult.vendorMemories.length,
 			correctionMemories: recallResult.correctionMemories.length,
 			resolutionMemories: recallResult.resolutionMemories.length,
+			fullTextMatches: recallResult.allMemories.filter((m) => m.textRank !== undefined).length,
+			similarMemories: recallResult.allMemories
+				.filter((m) => m.similarity !== undefined)
+				.map((m) => ({ memoryId: m.memory.id, similarity: Number(m.similarity?.toFixed(3)) })),
+			confidences: recallResult.allMemories.map((m) => ({
+				memoryId: m.memory.id,
+				field: m.content.field,
+				rawConfidence: m.rawConfidence,
+				decayedConfidence: Number(m.content.confidence.toFixed(4)),
+				...(m.confidenceLowerBound !== undefined
+					? { lowerBound: Number(m.confidenceLowerBound.toFixed(4)) }
+					: {}),
+			})),
 		},
 	});
 
+	const correctionRules = options.ruleRegistry?.list() ?? BUILT_IN_CORRECTION_RULES;
 	const applyResult = applyMemoriesToContext({
 		invoice,
 		rawText,
 		recall: recallResult,
+		policy,
+		rules: correctionRules,
 	});
 
 	auditTrail.push({
@@ -59,13 +236,133 @@ export async function processInvoiceWithMemory(
 				field: m.field,
 				memoryId: m.memoryId,
 				confidence: m.confidence,
+				rawConfidence: recallResult.allMemories.find((r) => r.memory.id === m.memoryId)
+					?.rawConfidence,
 				applied: m.applied,
 			})),
 			proposedCorrections: applyResult.proposedCorrections,
+			...(applyResult.conflicts.length > 0 ? { conflicts: applyResult.conflicts } : {}),
+			rules: correctionRules.map((r) => r.id),
+			policyVersion: policy.version,
 		},
 	});
 
-	const decision = decideNextAction(applyResult);
+	if (options.purchaseOrders) {
+		const poMatch = matchPurchaseOrder({
+			invoice: applyResult.normalizedInvoice,
+			recall: recallResult,
+			purchaseOrders: options.purchaseOrders,
+			policy,
+		});
+		applyResult.normalizedInvoice = poMatch.normalizedInvoice;
+		if (poMatch.correction) {
+			applyResult.proposedCorrections.push(poMatch.correction);
+			applyResult.aggregateConfidence = Math.max(
+				applyResult.aggregateConfidence,
+				poMatch.correction.confidence,
+			);
+		}
+		if (poMatch.appliedMemory) {
+			applyResult.appliedMemories.push(poMatch.appliedMemory);
+		}
+
+		auditTrail.push({
+			step: 'poMatch',
+			timestamp: new Date(),
+			details: {
+				candidates: poMatch.candidates.map((c) => ({
+					poNumber: c.purchaseOrder.poNumber,
+					score: Number(c.score.toFixed(2)),
+					signals: c.signals,
+				})),
+				proposedPoNumber: poMatch.correction?.proposedValue,
+				confidence: poMatch.correction?.confidence,
+				applied: poMatch.correction?.applied ?? false,
+				memoryId: poMatch.correction?.memoryId,
+				...(poMatch.skippedReason !== undefined ? { reason: poMatch.skippedReason } : {}),
+			},
+		});
+	} else {
+		auditTrail.push({
+			step: 'poMatch',
+			timestamp: new Date(),
+			details: {
+				candidates: [],
+				applied: false,
+				reason: 'No purchase orders supplied; purchase order matching skipped.',
+			},
+		});
+	}
+
+	let threeWayMatch: ThreeWayMatchResult | undefined;
+	if (options.purchaseOrders) {
+		threeWayMatch = matchThreeWay({
+			invoice: applyResult.normalizedInvoice,
+			purchaseOrders: options.purchaseOrders,
+			deliveryNotes: options.deliveryNotes,
+			tolerance: options.matchTolerance,
+		});
+	}
+
+	auditTrail.push({
+		step: 'threeWayMatch',
+		timestamp: new Date(),
+		details: threeWayMatch
+			? {
+					poNumber: threeWayMatch.poNumber,
+					deliveryNotes: threeWayMatch.deliveryNoteNumbers,
+					discrepancies: threeWayMatch.discrepancies,
+					toleranceExceeded: threeWayMatch.toleranceExceeded,
+					...(threeWayMatch.skippedReason !== undefined
+						? { reason: threeWayMatch.skippedReason }
+						: {}),
+				}
+			: {
+					discrepancies: [],
+					toleranceExceeded: false,
+					reason: 'No purchase orders supplied; three-way match skipped.',
+				},
+	});
+
+	const discrepancies: MatchDiscrepancy[] = [...(threeWayMatch?.discrepancies ?? [])];
+
+	if (options.poLedger && options.purchaseOrders) {
+		const consumption = checkPoConsumption({
+			invoice: applyResult.normalizedInvoice,
+			ledger: options.poLedger,
+			purchaseOrders: options.purchaseOrders,
+			deliveryNotes: options.deliveryNotes,
+			tolerance: options.matchTolerance,
+		});
+		discrepancies.push(...consumption.discrepancies);
+		options.poLedger.recordConsumption(applyResult.normalizedInvoice.id, consumption.entries);
+
+		auditTrail.push({
+			step: 'threeWayMatch',
+			timestamp: new Date(),
+			details: {
+				poNumber: consumption.poNumber,
+				ledgerEntries: consumption.entries.map((e) => ({
+					sku: e.sku,
+					quantity: e.quantity,
+				})),
+				discrepancies: consumption.discrepancies,
+				toleranceExceeded: consumption.discrepancies.some((d) => d.exceedsTolerance),
+			},
+		});
+	}
+
+	// Only auto-applied corrections count as a use (approved feedback rewrites the memory); a
+	// suggestion nobody approved must not restart the memory's decay clock.
+	const usedMemoryIds = applyResult.proposedCorrections
+		.filter((c) => c.applied)
+		.map((c) => c.memoryId)
+		.filter((id): id is string => id !== undefined);
+	repository.markMemoriesUsed([...new Set(usedMemoryIds)], new Date());
+
+	const decision = decideNextAction(applyResult, discrepancies);
+	// Feedback learned below happens after the decision; lineage queries as of this time exclude it.
+	const decidedAt = new Date();
 
 	auditTrail.push({
 		step: 'decide',
@@ -75,43 +372,70 @@ export async function processInvoiceWithMemory(
 			confidenceScore: decision.confidenceScore,
 			reasoning: decision.reasoning,
 			duplicateDetected: recallResult.duplicateDetected,
+			unresolvedConflicts: applyResult.unresolvedConflicts.map((c) => c.field),
+			policyVersion: policy.version,
 		},
 	});
 
 	const memoryUpdates: MemoryUpdate[] = [];
 
 	if (humanFeedback) {
-		for (const correction of applyResult.proposedCorrections) {
-			const approved = humanFeedback.approvedCorrections.includes(correction.field);
-			const rejected = humanFeedback.rejectedCorrections.includes(correction.field);
-			if (!approved && !rejected) continue;
+		// One rule can propose several fields backed by the same memory (e.g. VAT); the
+		// invoice still counts as a single outcome for that memory.
+		const learnedTargets = new Set<string>();
+		const feedbackDecisions = resolveFeedback(
+			options.reviewedCorrections ?? applyResult.proposedCorrections,
+			humanFeedback,
+		);
+		for (const feedbackDecision of feedbackDecisions) {
+			const { approved } = feedbackDecision;
 
-			const signal = {
+			const lineItem = parseLineItemField(feedbackDecision.field);
+			const lineItemDescription = lineItem
+				? invoice.lineItems.find((li) => li.id === lineItem.lineItemId)?.description
+				: undefined;
+			const feedbackEventId = uuidv4();
+			const memoryId = feedbackDecision.memoryId ?? uuidv4();
+			const signal = (
+				signalApproved: boolean,
+				value: unknown,
+				details: Record<string, unknown> = {},
+			): LearningSignal => ({
 				event: {
-					id: uuidv4(),
+					id: feedbackEventId,
 					type: 'learn',
 					timestamp: new Date(),
-						details: {
-							memoryId: correction.memoryId ?? uuidv4(),
-							approved,
-							field: correction.field,
-							value: correction.proposedValue,
-							vendorName: invoice.vendorName,
-							invoiceNumber: invoice.invoiceNumber,
-							invoiceDate: invoice.issuedAt.toISOString(),
-							resolutionStatus: approved ? 'approved' : 'rejected',
-							isDuplicate: recallResult.duplicateDetected,
-						},
+					details: {
+						memoryId,
+						approved: signalApproved,
+						field: feedbackDecision.field,
+						value,
+						reason: feedbackDecision.reason,
+						vendorName: invoice.vendorName,
+						vendorId: vendor?.id,
+						invoiceId: invoice.id,
+						invoiceNumber: invoice.invoiceNumber,
+						invoiceDate: invoice.issuedAt.toISOString(),
+						resolutionStatus: approved ? 'approved' : 'rejected',
+						isDuplicate: recallResult.duplicateDetected,
+						rawTextSnippet: rawText.slice(0, RAW_TEXT_SNIPPET_LENGTH),
+						embedding,
+						embeddingModel: embeddingProvider.id,
+						derivation: inferFieldDerivation(feedbackDecision.field, value, invoice, rawText),
+						lineItemDescription,
+						...details,
+					},
 				},
-				feedbackScore: approved ? 1 : -1,
-			} as const;
+				feedbackScore: signalApproved ? feedbackDecision.weight : -feedbackDecision.weight,
+			});
 
-			const beforeMemory =
-				correction.memoryId !== undefined
-					? repository.getMemoryById(correction.memoryId)
-					: undefined;
+			const beforeMemory = findSignalMemory(repository, signal(approved, feedbackDecision.value));
+			const targets = [beforeMemory?.id, learningTargetKey(signal(approved, feedbackDecision.value))].filter(
+				(target): target is string => target !== undefined,
+			);
+			if (targets.some((target) => learnedTargets.has(target))) continue;
 
-			let previousConfidence = 0.7;
+			let previousConfidence: number | undefined;
 			let previousUsage = 0;
 			if (beforeMemory) {
 				try {
@@ -126,9 +450,34 @@ export async function processInvoiceWithMemory(
 				}
 			}
 
-			const updated = learnFromSignal(repository, signal);
+			// An edit is evidence against the proposed value, and the reviewer's value starts its
+			// own evidence instead of inheriting the proposal's. An added value that differs from
+			// the one the vendor's memory holds replaces it the same way.
+			const replacedValue =
+				feedbackDecision.outcome === 'edited'
+					? feedbackDecision.proposedValue
+					: feedbackDecision.outcome === 'added' && beforeMemory
+						? learnedValueFor(beforeMemory, invoice, rawText)
+						: undefined;
+			const edited =
+				feedbackDecision.outcome === 'edited' ||
+				(replacedValue !== undefined && !sameFeedbackValue(replacedValue, feedbackDecision.value));
+			const signals: LearningSignal[] = [];
+			if (edited && beforeMemory) {
+				signals.push(signal(false, replacedValue, { resolutionStatus: undefined, isDuplicate: false }));
+			}
+			signals.push(signal(approved, feedbackDecision.value, edited ? { restartEvidence: true } : {}));
+			let updated: Memory | undefined;
+			for (const learningSignal of signals) {
+				updated =
+					learnFromSignal(repository, learningSignal, options.confidenceModel, {
+						provenance: options.provenance,
+						history: options.history,
+					}) ?? updated;
+			}
+			for (const target of updated ? [...targets, updated.id] : targets) learnedTargets.add(target);
 			if (updated) {
-				let newConfidence = previousConfidence;
+				let newConfidence = previousConfidence ?? 0;
 				let newUsage = previousUsage + 1;
 				try {
 					const parsed = JSON.parse(updated.content) as {
@@ -143,10 +492,10 @@ export async function processInvoiceWithMemory(
 
 				memoryUpdates.push({
 					memoryId: updated.id,
-					previousConfidence,
+					...(previousConfidence !== undefined ? { previousConfidence } : {}),
 					newConfidence,
 					usageCount: newUsage,
-					action: approved ? 'reinforce' : 'decay',
+					action: !beforeMemory ? 'create' : approved && !edited ? 'reinforce' : 'decay',
 				});
 			}
 		}
@@ -155,6 +504,13 @@ export async function processInvoiceWithMemory(
 			step: 'learn',
 			timestamp: new Date(),
 			details: {
+				feedback: feedbackDecisions.map(({ field, value, outcome, weight, reason }) => ({
+					field,
+					value,
+					outcome,
+					weight,
+					...(reason !== undefined ? { reason } : {}),
+				})),
 				updates: memoryUpdates,
 			},
 		});
@@ -169,15 +525,123 @@ export async function processInvoiceWithMemory(
 		});
 	}
 
+	options.invoiceRegistry?.recordProcessedInvoice(
+		fingerprint,
+		{
+			requiresHumanReview: decision.requiresHumanReview || recallResult.duplicateDetected,
+			confidenceScore: decision.confidenceScore,
+			reasoning: decision.reasoning,
+		},
+		applyResult.proposedCorrections.filter((c) => c.applied),
+		decidedAt,
+	);
+
 	const output: EngineOutputContract = {
 		normalizedInvoice: applyResult.normalizedInvoice,
 		proposedCorrections: applyResult.proposedCorrections,
 		requiresHumanReview: decision.requiresHumanReview || recallResult.duplicateDetected,
 		reasoning: decision.reasoning,
 		confidenceScore: decision.confidenceScore,
+		discrepancies,
 		memoryUpdates,
 		auditTrail,
 	};
 
+	if (options.auditLog || options.runs || options.reviewQueue) {
+		output.runId = options.runId ?? uuidv4();
+	}
+	if (options.auditLog) {
+		options.auditLog.appendRun({
+			runId: output.runId!,
+			invoiceId: invoice.id,
+			vendorName: invoice.vendorName,
+			vendorId: vendor?.id,
+			entries: auditTrail,
+		});
+	}
+	if (options.runs && input) {
+		options.runs.saveRun({
+			runId: output.runId!,
+			invoice: input,
+			rawText,
+			proposedCorrections: output.proposedCorrections,
+			requiresHumanReview: output.requiresHumanReview,
+		});
+	}
+	if (options.reviewQueue && !humanFeedback && output.requiresHumanReview) {
+		enqueueForReview(options.reviewQueue, output);
+	}
+
 	return output;
 }
+
+/**
+ * Learns from a reviewer's feedback on a stored run. Learning needs the invoice itself, so the
+ * run's input is re-processed with the feedback under a new run id, which is recorded on the
+ * stored run. Corrected values may be for any field; approvals and rejections must name
+ * fields the run proposed.
+ */
+export async function learnFromRunFeedback(
+	repository: MemoryRepository,
+	runs: EngineRunRepository,
+	runId: string,
+	feedback: HumanFeedbackInput,
+	options: ProcessInvoiceOptions = {},
+): Promise<EngineOutputContract> {
+	const run = runs.getRun(runId);
+	if (!run) {
+		throw new Error(`Run ${runId} not found.`);
+	}
+	if (run.feedbackRunId !== undefined) {
+		throw new Error(`Feedback for run ${runId} was already recorded by run ${run.feedbackRunId}.`);
+	}
+	const reviewedCorrections = options.reviewedCorrections ?? run.proposedCorrections;
+	const proposed = new Set(reviewedCorrections.map((c) => c.field));
+	const unknown = [...feedback.approvedCorrections, ...feedback.rejectedCorrections].filter(
+		(f) => !proposed.has(f),
+	);
+	if (unknown.length > 0) {
+		throw new Error(`Run ${runId} proposed no correction for: ${unknown.join(', ')}.`);
+	}
+
+	const feedbackRunId = options.runId ?? uuidv4();
+	const output = await processInvoiceWithMemory(repository, run.invoice, run.rawText, feedback, {
+		...options,
+		runs,
+		runId: feedbackRunId,
+		reviewedCorrections,
+	});
+	runs.recordFeedback(runId, feedbackRunId);
+	return output;
+}
+
+/**
+ * Completes a review and learns from it: the reviewer's decisions become `HumanFeedbackInput`
+ * for `learnFromRunFeedback` on the reviewed run.
+ */
+export async function completeReviewWithLearning(
+	repository: MemoryRepository,
+	reviewQueue: ReviewQueueRepository,
+	runs: EngineRunRepository,
+	itemId: string,
+	completion: ReviewCompletion,
+	options: ProcessInvoiceOptions = {},
+): Promise<ReviewCompletionResult> {
+	const item = reviewQueue.getItem(itemId);
+	if (!item) {
+		throw new Error(`Review item ${itemId} not found.`);
+	}
+	const feedback = reviewFeedback(item, completion);
+	if (resolveFeedback(item.proposedCorrections, feedback).length === 0) {
+		return { item: completeReview(reviewQueue, itemId, completion) };
+	}
+
+	const feedbackRunId = options.runId ?? uuidv4();
+	const output = await learnFromRunFeedback(repository, runs, item.runId, feedback, {
+		...options,
+		reviewQueue,
+		runId: feedbackRunId,
+		reviewedCorrections: item.proposedCorrections,
+	});
+	return { item: completeReview(reviewQueue, itemId, completion, { feedbackRunId }), output };
+}
@@ -2,20 +2,219 @@ import { v4 as uuidv4 } from 'uuid';
 import type { Memory, LearnedMemoryContent, LearnedMemoryCategory } from '../models/memory';
 import type { AuditEvent } from '../models/audit';
 import type { MemoryRepository } from '../memory/memoryRepository';
+import type { ProvenanceRepository } from '../memory/provenanceRepository';
+import type { MemoryHistoryRepository } from '../memory/memoryHistoryRepository';
+import { snapshotOf } from '../memory/memoryHistoryRepository';
+import type { MemoryUpdate, NormalizedInvoice } from '../models/pipeline';
+import { PO_MATCHING_MEMORY_FIELD, PO_NUMBER_FIELD } from './poMatching';
+import type { ConfidenceModelConfig } from './confidence';
+import { estimateConfidence, seedEvidenceCounts } from './confidence';
+import type { FieldDerivation } from './fieldLearning';
+import { evaluateFieldDerivation, generalizeFieldPath, isFieldDerivation, parseLineItemField } from './fieldLearning';
+import { looksLikeFreight, memoryDerivation } from './correctionRules';
 
 export interface LearningSignal {
   event: AuditEvent;
+  /** Weight of this outcome in the approval/rejection counts; the sign is ignored. */
   feedbackScore?: number;
 }
 
+export interface LearnRecorders {
+  /** Lineage events explaining how each memory got its confidence. */
+  provenance?: ProvenanceRepository | undefined;
+  /** Before/after snapshots of each memory change, so learning can be reverted. */
+  history?: MemoryHistoryRepository | undefined;
+}
+
+interface FieldClassification {
+  category: LearnedMemoryCategory;
+  storedField: string | undefined;
+}
+
+/**
+ * VAT, freight SKU and PO fields feed the dedicated memories their rules read. Any other
+ * field becomes a generic vendor memory keyed by its path, with line numbers generalized.
+ */
+function classifyField(
+  field: string | undefined,
+  vendorName: string | undefined,
+  lineItemDescription: string | undefined,
+): FieldClassification | undefined {
+  if (field === undefined) return undefined;
+  if (field === 'taxAmount' || field === 'grossAmount' || field === 'metadata.netTotal') {
+    return { category: 'vendor', storedField: 'vatIncluded' };
+  }
+  const lineItem = parseLineItemField(field);
+  if (
+    lineItem?.property === 'sku' &&
+    (lineItemDescription === undefined || looksLikeFreight(lineItemDescription))
+  ) {
+    return { category: 'vendor', storedField: 'freightSku' };
+  }
+  if (field === PO_NUMBER_FIELD) {
+    return { category: 'vendor', storedField: PO_MATCHING_MEMORY_FIELD };
+  }
+  return {
+    category: vendorName !== undefined ? 'vendor' : 'correction',
+    storedField: generalizeFieldPath(field),
+  };
+}
+
+function fieldMetadata(
+  classification: FieldClassification | undefined,
+  value: unknown,
+  derivation: FieldDerivation | undefined,
+  lineItemDescription: string | undefined,
+): Record<string, unknown> {
+  const storedField = classification?.storedField;
+  if (storedField === 'freightSku') return { proposedValue: value };
+  if (
+    storedField === undefined ||
+    storedField === 'vatIncluded' ||
+    storedField === PO_MATCHING_MEMORY_FIELD
+  ) {
+    return {};
+  }
+
+  const resolved = derivation ?? { kind: 'constant', value };
+  const metadata: Record<string, unknown> = { derivation: resolved };
+  if (resolved.kind === 'constant') metadata.proposedValue = resolved.value;
+  if (lineItemDescription !== undefined) metadata.lineItemDescription = lineItemDescription;
+  return metadata;
+}
+
+/** Reuses the vendor's memory for a field when the signal comes from a fresh proposal. */
+function findExistingFieldMemory(
+  repository: MemoryRepository,
+  vendorName: string | undefined,
+  vendorId: string | undefined,
+  classification: FieldClassification | undefined,
+  lineItemDescription: string | undefined,
+): Memory | undefined {
+  if (vendorName === undefined || classification?.storedField === undefined) return undefined;
+  const candidates =
+    vendorId !== undefined
+      ? repository.findLearnedMemories({ vendorId, field: classification.storedField })
+      : repository.findMemoriesForVendorField(vendorName, classification.storedField);
+  return candidates
+    .find(
+      (record) =>
+        record.content.category === classification.category &&
+        (lineItemDescription === undefined ||
+          record.content.metadata?.lineItemDescription === undefined ||
+          record.content.metadata.lineItemDescription === lineItemDescription),
+    )?.memory;
+}
+
+function recordFeedbackProvenance(
+  provenance: ProvenanceRepository | undefined,
+  signal: LearningSignal,
+  memoryId: string,
+  action: MemoryUpdate['action'],
+  previousConfidence: number | undefined,
+  newConfidence: number,
+  recordedAt: Date,
+): void {
+  const { details } = signal.event;
+  provenance?.recordEvent({
+    memoryId,
+    action,
+    source: 'feedback',
+    invoiceId: details.invoiceId as string | undefined,
+    field: details.field as string | undefined,
+    proposedValue: details.value,
+    outcome: details.approved === true ? 'approved' : 'rejected',
+    feedbackEventId: signal.event.id,
+    previousConfidence,
+    newConfidence,
+    recordedAt,
+  });
+}
+
+function recordHistory(
+  history: MemoryHistoryRepository | undefined,
+  signal: LearningSignal,
+  before: Memory | undefined,
+  after: Memory,
+  recordedAt: Date,
+): void {
+  history?.appendEvent({
+    memoryId: after.id,
+    type: 'learn',
+    invoiceId: signal.event.details.invoiceId as string | undefined,
+    feedbackEventId: signal.event.id,
+    before: before ? snapshotOf(before) : undefined,
+    after: snapshotOf(after),
+    recordedAt,
+  });
+}
+
+/**
+ * Memory a signal updates: the one it names, else the vendor's memory for its field.
+ * Undefined when learning from the signal creates a memory.
+ */
+export function findSignalMemory(repository: MemoryRepository, signal: LearningSignal): Memory | undefined {
+  const { details } = signal.event;
+  const vendorName = details.vendorName as string | undefined;
+  const lineItemDescription = details.lineItemDescription as string | undefined;
+  return (
+    repository.getMemoryById(details.memoryId as string) ??
+    findExistingFieldMemory(
+      repository,
+      vendorName,
+      details.vendorId as string | undefined,
+      classifyField(details.field as string | undefined, vendorName, lineItemDescription),
+      lineItemDescription,
+    )
+  );
+}
+
+/**
+ * Vendor memory a signal feeds (vendor, category and stored field), whether or not it exists
+ * yet. Fields sharing a key, like the VAT fields, are one outcome per invoice.
+ */
+export function learningTargetKey(signal: LearningSignal): string | undefined {
+  const { details } = signal.event;
+  const vendor = (details.vendorId ?? details.vendorName) as string | undefined;
+  const lineItemDescription = details.lineItemDescription as string | undefined;
+  const classification = classifyField(
+    details.field as string | undefined,
+    details.vendorName as string | undefined,
+    lineItemDescription,
+  );
+  if (vendor === undefined || classification?.storedField === undefined) return undefined;
+  const { lineItemDescription: description } = fieldMetadata(classification, undefined, undefined, lineItemDescription);
+  return [vendor, classification.category, classification.storedField, description ?? ''].join('|');
+}
+
+/**
+ * Value a memory stands for on this invoice: its derivation replayed against the invoice.
+ * Undefined for memories such as `vatIncluded` that hold no value.
+ */
+export function learnedValueFor(memory: Memory, invoice: NormalizedInvoice, rawText: string): unknown {
+  let content: LearnedMemoryContent;
+  try {
+    content = JSON.parse(memory.content) as LearnedMemoryContent;
+  } catch {
+    return undefined;
+  }
+  const derivation = memoryDerivation({ memory, content });
+  return derivation ? evaluateFieldDerivation(derivation, invoice, rawText) : undefined;
+}
+
+/** Every memory the signal creates or updates is reported to the given recorders. */
 export function learnFromSignal(
   repository: MemoryRepository,
   signal: LearningSignal,
+  confidenceModel: ConfidenceModelConfig = {},
+  recorders: LearnRecorders = {},
 ): Memory | undefined {
+  const { provenance, history } = recorders;
   const memoryId = signal.event.details.memoryId as string | undefined;
   const approved = signal.event.details.approved as boolean | undefined;
   const field = signal.event.details.field as string | undefined;
   const vendorName = signal.event.details.vendorName as string | undefined;
+  const vendorId = signal.event.details.vendorId as string | undefined;
   const invoiceNumber = signal.event.details.invoiceNumber as string | undefined;
   const invoiceDate = signal.event.details.invoiceDate as string | undefined;
   const resolutionStatus = signal.event.details.resolutionStatus as
@@ -23,41 +222,52 @@ export function learnFromSignal(
     | 'rejected'
     | undefined;
   const isDuplicate = signal.event.details.isDuplicate as boolean | undefined;
+  const rawTextSnippet = signal.event.details.rawTextSnippet as string | undefined;
+  const embedding = signal.event.details.embedding as number[] | undefined;
+  const embeddingModel = signal.event.details.embeddingModel as string | undefined;
+  const derivation = isFieldDerivation(signal.event.details.derivation)
+    ? signal.event.details.derivation
+    : undefined;
+  const lineItemDescription = signal.event.details.lineItemDescription as string | undefined;
+  const reason = signal.event.details.reason as string | undefined;
+  const restartEvidence = signal.event.details.restartEvidence === true;
 
   if (!memoryId || approved === undefined) {
     return undefined;
   }
 
   const now = new Date();
-  const existing = repository.getMemoryById(memoryId);
+  const classification = classifyField(field, vendorName, lineItemDescription);
+  const existing = findSignalMemory(repository, signal);
+  const weight = Math.abs(signal.feedbackScore ?? 1);
 
   if (!existing) {
-    const initialConfidence = approved ? 0.8 : 0.5;
-
-    let category: LearnedMemoryCategory = 'correction';
-    let storedField = field;
-    if (field === 'taxAmount' || field === 'grossAmount') {
-      category = 'vendor';
-      storedField = 'vatIncluded';
-    }
-    if (field && field.startsWith('lineItem:') && field.endsWith(':sku')) {
-      category = 'vendor';
-      storedField = 'freightSku';
-    }
+    const category = classification?.category ?? 'correction';
+    const storedField = classification?.storedField;
 
     const baseMetadata: Record<string, unknown> = {
       field,
       value: signal.event.details.value,
+      ...fieldMetadata(classification, signal.event.details.value, derivation, lineItemDescription),
     };
 
-    if (storedField === 'freightSku') {
-      baseMetadata.proposedValue = signal.event.details.value;
+    if (rawTextSnippet !== undefined) {
+      baseMetadata.rawTextSnippet = rawTextSnippet;
+    }
+    if (reason !== undefined) {
+      baseMetadata.reviewerReason = reason;
     }
 
+    const approvalCount = approved ? weight : 0;
+    const rejectionCount = approved ? 0 : weight;
+    const estimate = estimateConfidence(approvalCount, rejectionCount, category, confidenceModel);
+
     const content: Partial<LearnedMemoryContent> = {
       category,
-      confidence: initialConfidence,
+      confidence: Number(estimate.mean.toFixed(4)),
       usageCount: 1,
+      approvalCount,
+      rejectionCount,
       metadata: baseMetadata,
     };
 
@@ -68,6 +278,9 @@ export function learnFromSignal(
     if (vendorName !== undefined) {
       content.vendorName = vendorName;
     }
+    if (vendorId !== undefined) {
+      content.vendorId = vendorId;
+    }
     if (invoiceNumber !== undefined) {
       content.invoiceNumber = invoiceNumber;
     }
@@ -82,9 +295,12 @@ export function learnFromSignal(
       createdAt: now,
       updatedAt: now,
       source: 'learn',
+      ...(embedding ? { embedding, embeddingModel } : {}),
     };
 
     repository.saveMemory(memory);
+    recordFeedbackProvenance(provenance, signal, memory.id, 'create', undefined, content.confidence!, now);
+    recordHistory(history, signal, undefined, memory, now);
     return memory;
   }
 
@@ -95,43 +311,49 @@ export function learnFromSignal(
     parsed = {};
   }
 
-  const currentConfidence = typeof parsed.confidence === 'number' ? parsed.confidence : 0.7;
   const currentUsage = typeof parsed.usageCount === 'number' ? parsed.usageCount : 0;
 
-  let newConfidence = currentConfidence;
-  if (approved) {
-    const delta = 0.05 * (signal.feedbackScore ?? 1);
-    newConfidence = Math.min(currentConfidence + delta, 0.95);
-  } else {
-    const delta = 0.05 * (signal.feedbackScore ?? 1);
-    newConfidence = Math.max(currentConfidence - delta, 0);
-  }
+  // Memories that already have a field keep it; only unclassified ones adopt the signal's.
+  const existingClassification: FieldClassification | undefined =
+    parsed.field !== undefined
+      ? { category: parsed.category ?? classification?.category ?? 'correction', storedField: parsed.field }
+      : classification;
+  const category = existingClassification?.category ?? parsed.category ?? 'correction';
+  const storedField = existingClassification?.storedField;
 
-  let category: LearnedMemoryCategory = (parsed.category as LearnedMemoryCategory) ?? 'correction';
-  let storedField = parsed.field ?? field;
-  if (field === 'taxAmount' || field === 'grossAmount') {
-    category = 'vendor';
-    storedField = 'vatIncluded';
-  }
-  if (field && field.startsWith('lineItem:') && field.endsWith(':sku')) {
-    category = 'vendor';
-    storedField = 'freightSku';
-  }
+  const valueMetadata = approved
+    ? fieldMetadata(existingClassification, signal.event.details.value, derivation, lineItemDescription)
+    : {};
+  // An edited value replaces the one the memory proposed; its evidence starts with this signal.
+  const counts =
+    restartEvidence && Object.keys(valueMetadata).length > 0
+      ? { approvals: 0, rejections: 0 }
+      : seedEvidenceCounts(parsed);
+  const approvalCount = counts.approvals + (approved ? weight : 0);
+  const rejectionCount = counts.rejections + (approved ? 0 : weight);
 
   const metadata: Record<string, unknown> = {
     ...(parsed.metadata ?? {}),
     field,
     value: signal.event.details.value,
+    ...valueMetadata,
   };
 
-  if (storedField === 'freightSku') {
-    metadata.proposedValue = signal.event.details.value;
+  if (rawTextSnippet !== undefined) {
+    metadata.rawTextSnippet = rawTextSnippet;
+  }
+  if (reason !== undefined) {
+    metadata.reviewerReason = reason;
   }
 
+  const estimate = estimateConfidence(approvalCount, rejectionCount, category, confidenceModel);
+
   const updated: Partial<LearnedMemoryContent> = {
     category,
-    confidence: newConfidence,
+    confidence: Number(estimate.mean.toFixed(4)),
     usageCount: currentUsage + 1,
+    approvalCount,
+    rejectionCount,
     metadata,
   };
 
@@ -140,12 +362,16 @@ export function learnFromSignal(
   }
 
   const nextVendorName = parsed.vendorName ?? vendorName;
+  const nextVendorId = parsed.vendorId ?? vendorId;
   const nextInvoiceNumber = parsed.invoiceNumber ?? invoiceNumber;
   const nextInvoiceDate = parsed.invoiceDate ?? invoiceDate;
 
   if (nextVendorName !== undefined) {
     updated.vendorName = nextVendorName;
   }
+  if (nextVendorId !== undefined) {
+    updated.vendorId = nextVendorId;
+  }
   if (nextInvoiceNumber !== undefined) {
     updated.invoiceNumber = nextInvoiceNumber;
   }
@@ -157,18 +383,40 @@ export function learnFromSignal(
     ...existing,
     content: JSON.stringify(updated),
     updatedAt: now,
+    ...(embedding ? { embedding, embeddingModel } : {}),
   };
 
   repository.saveMemory(updatedMemory);
+  recordHistory(history, signal, existing, updatedMemory, now);
+  recordFeedbackProvenance(
+    provenance,
+    signal,
+    updatedMemory.id,
+    approved ? 'reinforce' : 'decay',
+    typeof parsed.confidence === 'number' ? parsed.confidence : undefined,
+    updated.confidence!,
+    now,
+  );
   if (resolutionStatus || isDuplicate) {
+    const resolutionApprovals = approved ? 1 : 0;
+    const resolutionRejections = approved ? 0 : 1;
+    const resolutionEstimate = estimateConfidence(
+      resolutionApprovals,
+      resolutionRejections,
+      'resolution',
+      confidenceModel,
+    );
     const resolutionContent: LearnedMemoryContent = {
       category: 'resolution',
       vendorName,
+      vendorId,
       invoiceNumber,
       invoiceDate,
       resolutionStatus: resolutionStatus ?? (isDuplicate ? 'approved' : undefined),
-      confidence: approved ? 0.8 : 0.5,
+      confidence: Number(resolutionEstimate.mean.toFixed(4)),
       usageCount: 1,
+      approvalCount: resolutionApprovals,
+      rejectionCount: resolutionRejections,
       metadata: {
         isDuplicate: isDuplicate === true,
       },
@@ -184,6 +432,16 @@ export function learnFromSignal(
     };
 
     repository.saveMemory(resolutionMemory);
+    recordHistory(history, signal, undefined, resolutionMemory, now);
+    recordFeedbackProvenance(
+      provenance,
+      signal,
+      resolutionMemory.id,
+      'create',
+      undefined,
+      resolutionContent.confidence,
+      now,
+    );
   }
 
   return updatedMemory;
@@ -0,0 +1,259 @@
+import { parseAmount } from './vat';
+
+export type ExtractionFormat = 'text' | 'number' | 'currency' | 'date';
+
+export type DatePattern =
+  | 'DD.MM.YYYY'
+  | 'D.M.YYYY'
+  | 'DD.MM.YY'
+  | 'YYYY-MM-DD'
+  | 'DD-MM-YYYY'
+  | 'DD/MM/YYYY'
+  | 'MM/DD/YYYY'
+  | 'D. MMMM YYYY'
+  | 'MMMM D, YYYY';
+
+/** Label in front of a value in the raw text plus how to read the value that follows it. */
+export interface ExtractionTemplate {
+  label: string;
+  format: ExtractionFormat;
+  datePattern?: DatePattern | undefined;
+}
+
+interface ValueRendering {
+  text: string;
+  format: Exclude<ExtractionFormat, 'currency'>;
+  datePattern?: DatePattern;
+}
+
+interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const MAX_LABEL_LENGTH = 40;
+const CURRENCY_MARKER = '(?:EUR|CHF|USD|GBP|€|\\$|£)';
+
+const MONTH_NAMES: string[][] = [
+  ['januar', 'january', 'jänner'],
+  ['februar', 'february'],
+  ['märz', 'march'],
+  ['april'],
+  ['mai', 'may'],
+  ['juni', 'june'],
+  ['juli', 'july'],
+  ['august'],
+  ['september'],
+  ['oktober', 'october'],
+  ['november'],
+  ['dezember', 'december'],
+];
+
+const DATE_PATTERNS: Record<DatePattern, { source: string; order: Array<keyof CalendarDate> }> = {
+  'DD.MM.YYYY': { source: '(\\d{2})\\.(\\d{2})\\.(\\d{4})', order: ['day', 'month', 'year'] },
+  'D.M.YYYY': { source: '(\\d{1,2})\\.(\\d{1,2})\\.(\\d{4})', order: ['day', 'month', 'year'] },
+  'DD.MM.YY': { source: '(\\d{2})\\.(\\d{2})\\.(\\d{2})(?!\\d)', order: ['day', 'month', 'year'] },
+  'YYYY-MM-DD': { source: '(\\d{4})-(\\d{2})-(\\d{2})', order: ['year', 'month', 'day'] },
+  'DD-MM-YYYY': { source: '(\\d{2})-(\\d{2})-(\\d{4})', order: ['day', 'month', 'year'] },
+  'DD/MM/YYYY': { source: '(\\d{2})/(\\d{2})/(\\d{4})', order: ['day', 'month', 'year'] },
+  'MM/DD/YYYY': { source: '(\\d{2})/(\\d{2})/(\\d{4})', order: ['month', 'day', 'year'] },
+  'D. MMMM YYYY': { source: '(\\d{1,2})\\.?\\s+(\\p{L}+)\\s+(\\d{4})', order: ['day', 'month', 'year'] },
+  'MMMM D, YYYY': { source: '(\\p{L}+)\\s+(\\d{1,2}),?\\s+(\\d{4})', order: ['month', 'day', 'year'] },
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Escaped label that tolerates different runs of whitespace. */
+function labelSource(label: string): string {
+  return label.split(/\s+/).map(escapeRegExp).join('\\s+');
+}
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, '0');
+}
+
+/**
+ * Calendar dates a value may stand for. `Date` values are read in both local time and UTC,
+ * since corrections arrive as either local-midnight or ISO dates.
+ */
+function calendarDates(value: unknown): CalendarDate[] {
+  if (typeof value === 'string') {
+    const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (!iso) return [];
+    return [{ year: Number(iso[1]), month: Number(iso[2]), day: Number(iso[3]) }];
+  }
+  if (!(value instanceof Date) || Number.isNaN(value.getTime())) return [];
+
+  const local = { year: value.getFullYear(), month: value.getMonth() + 1, day: value.getDate() };
+  const utc = { year: value.getUTCFullYear(), month: value.getUTCMonth() + 1, day: value.getUTCDate() };
+  return local.day === utc.day && local.month === utc.month ? [local] : [local, utc];
+}
+
+function renderDate(date: CalendarDate, pattern: DatePattern): string[] {
+  const { year, month, day } = date;
+  switch (pattern) {
+    case 'DD.MM.YYYY':
+      return [`${pad(day)}.${pad(month)}.${year}`];
+    case 'D.M.YYYY':
+      return [`${day}.${month}.${year}`];
+    case 'DD.MM.YY':
+      return [`${pad(day)}.${pad(month)}.${pad(year % 100)}`];
+    case 'YYYY-MM-DD':
+      return [`${year}-${pad(month)}-${pad(day)}`];
+    case 'DD-MM-YYYY':
+      return [`${pad(day)}-${pad(month)}-${year}`];
+    case 'DD/MM/YYYY':
+      return [`${pad(day)}/${pad(month)}/${year}`];
+    case 'MM/DD/YYYY':
+      return [`${pad(month)}/${pad(day)}/${year}`];
+    case 'D. MMMM YYYY':
+      return (MONTH_NAMES[month - 1] ?? []).flatMap((name) => [
+        `${day}. ${name} ${year}`,
+        `${day} ${name} ${year}`,
+      ]);
+    case 'MMMM D, YYYY':
+      return (MONTH_NAMES[month - 1] ?? []).map((name) => `${name} ${day}, ${year}`);
+  }
+}
+
+function groupThousands(integer: string, separator: string): string {
+  return integer.replace(/\B(?=(\d{3})+(?!\d))/g, separator);
+}
+
+function renderNumber(value: number): string[] {
+  const [integer = '', decimals = ''] = Math.abs(value).toFixed(2).split('.');
+  const sign = value < 0 ? '-' : '';
+  const renderings = [
+    `${sign}${groupThousands(integer, '.')},${decimals}`,
+    `${sign}${groupThousands(integer, ',')}.${decimals}`,
+    `${sign}${integer},${decimals}`,
+    `${sign}${integer}.${decimals}`,
+    String(value),
+  ];
+  return [...new Set(renderings)];
+}
+
+/** Most specific renderings first, so "01.01.2024" is not mistaken for the number 1.01. */
+function renderValue(value: unknown): ValueRendering[] {
+  const dates = calendarDates(value);
+  if (dates.length > 0) {
+    const patterns = Object.keys(DATE_PATTERNS) as DatePattern[];
+    return dates.flatMap((date) =>
+      patterns.flatMap((datePattern) =>
+        renderDate(date, datePattern).map((text) => ({ text, format: 'date' as const, datePattern })),
+      ),
+    );
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return renderNumber(value).map((text) => ({ text, format: 'number' as const }));
+  }
+  if (typeof value === 'string' && value.trim().length > 0) {
+    return [{ text: value.trim(), format: 'text' }];
+  }
+  return [];
+}
+
+/**
+ * Finds the corrected value in the raw text in any common date, number or currency format and
+ * returns the label in front of it on the same line, e.g. "Leistungsdatum: 01.01.2024" →
+ * `{ label: 'Leistungsdatum:', format: 'date', datePattern: 'DD.MM.YYYY' }`.
+ */
+export function inducePattern(value: unknown, rawText: string): ExtractionTemplate | undefined {
+  for (const rendering of renderValue(value)) {
+    const pattern = new RegExp(
+      `(^|[^\\p{L}\\p{N}])${escapeRegExp(rendering.text)}(?![\\p{L}\\p{N}]|[.,]\\d)`,
+      'iu',
+    );
+    const match = pattern.exec(rawText);
+    if (!match) continue;
+
+    const lineStart = rawText.lastIndexOf('\n', match.index) + 1;
+    let label = rawText
+      .slice(lineStart, match.index + (match[1]?.length ?? 0))
+      .slice(-MAX_LABEL_LENGTH)
+      .trim();
+
+    let format: ExtractionFormat = rendering.format;
+    if (format === 'number') {
+      const leadingMarker = label.match(new RegExp(`\\s*${CURRENCY_MARKER}$`, 'i'));
+      const after = rawText.slice(match.index + match[0].length);
+      if (leadingMarker) {
+        label = label.slice(0, label.length - leadingMarker[0].length).trim();
+        format = 'currency';
+      } else if (new RegExp(`^\\s*${CURRENCY_MARKER}`, 'i').test(after)) {
+        format = 'currency';
+      }
+    }
+
+    if (!/\p{L}/u.test(label)) continue;
+    return rendering.datePattern !== undefined
+      ? { label, format, datePattern: rendering.datePattern }
+      : { label, format };
+  }
+  return undefined;
+}
+
+function monthFromName(name: string): number | undefined {
+  const lower = name.toLowerCase();
+  const index = MONTH_NAMES.findIndex((names) => names.includes(lower));
+  return index >= 0 ? index + 1 : undefined;
+}
+
+function parseDateWithPattern(text: string, datePattern: DatePattern): Date | undefined {
+  const { source, order } = DATE_PATTERNS[datePattern];
+  const match = new RegExp(`^${source}`, 'u').exec(text);
+  if (!match) return undefined;
+
+  const parts: Partial<CalendarDate> = {};
+  order.forEach((part, index) => {
+    const raw = match[index + 1] ?? '';
+    const value = part === 'month' && /\p{L}/u.test(raw) ? monthFromName(raw) : Number(raw);
+    if (value !== undefined) parts[part] = value;
+  });
+  const { year, month, day } = parts;
+  if (year === undefined || month === undefined || day === undefined) return undefined;
+
+  const fullYear = datePattern === 'DD.MM.YY' ? 2000 + year : year;
+  const date = new Date(fullYear, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : undefined;
+}
+
+/** Reads a fresh value after the template's label; undefined when the label or value is missing. */
+export function extractWithTemplate(template: ExtractionTemplate, rawText: string): unknown {
+  const valueSource =
+    template.format === 'date' && template.datePattern !== undefined
+      ? `(${DATE_PATTERNS[template.datePattern].source.replace(/\((?!\?)/g, '(?:')})`
+      : template.format === 'currency'
+        ? `(?:${CURRENCY_MARKER}\\s*)?(-?\\d[\\d.,]*)`
+        : template.format === 'number'
+          ? '(-?\\d[\\d.,]*)'
+          : '(\\S+)';
+  const match = new RegExp(`${labelSource(template.label)}[ \\t]*${valueSource}`, 'iu').exec(rawText);
+  const text = match?.[1];
+  if (text === undefined) return undefined;
+
+  switch (template.format) {
+    case 'date':
+      return template.datePattern !== undefined ? parseDateWithPattern(text, template.datePattern) : undefined;
+    case 'number':
+    case 'currency': {
+      const amount = parseAmount(text.replace(/^-/, ''));
+      return amount !== undefined && text.startsWith('-') ? -amount : amount;
+    }
+    case 'text':
+      return text;
+  }
+}
+
+export function describeExtractionTemplate(template: ExtractionTemplate): string {
+  const format =
+    template.format === 'date' && template.datePattern !== undefined
+      ? `${template.datePattern} date`
+      : template.format === 'currency'
+        ? 'currency amount'
+        : template.format;
+  return `${format} after "${template.label}" in raw text`;
+}
@@ -0,0 +1,113 @@
+import type { MatchDiscrepancy, NormalizedInvoice } from '../models/pipeline';
+import type { InvoiceLineItem } from '../models/invoice';
+import type { PurchaseOrder, PurchaseOrderLineItem } from '../models/purchaseOrder';
+import type { DeliveryNote } from '../models/deliveryNote';
+import type { PoLedgerEntry, PoLedgerRepository } from '../memory/poLedgerRepository';
+import type { ThreeWayMatchTolerance } from './threeWayMatch';
+import { DEFAULT_THREE_WAY_MATCH_TOLERANCE, findPurchaseOrderLine } from './threeWayMatch';
+
+export interface PoConsumptionInput {
+  invoice: NormalizedInvoice;
+  ledger: PoLedgerRepository;
+  purchaseOrders: PurchaseOrder[];
+  deliveryNotes?: DeliveryNote[] | undefined;
+  tolerance?: ThreeWayMatchTolerance | undefined;
+}
+
+export interface PoConsumptionResult {
+  poNumber?: string | undefined;
+  entries: PoLedgerEntry[];
+  discrepancies: MatchDiscrepancy[];
+}
+
+export function checkPoConsumption(input: PoConsumptionInput): PoConsumptionResult {
+  const { invoice, ledger } = input;
+  const tolerance = input.tolerance ?? DEFAULT_THREE_WAY_MATCH_TOLERANCE;
+  const poNumber = invoice.metadata?.poNumber;
+  if (typeof poNumber !== 'string' || poNumber.length === 0) {
+    return { entries: [], discrepancies: [] };
+  }
+
+  const purchaseOrder = input.purchaseOrders.find((po) => po.poNumber === poNumber);
+  if (!purchaseOrder) {
+    return { poNumber, entries: [], discrepancies: [] };
+  }
+
+  const deliveryNotes = input.deliveryNotes?.filter((dn) => dn.poNumber === poNumber);
+  const now = new Date();
+  const entries: PoLedgerEntry[] = [];
+  const discrepancies: MatchDiscrepancy[] = [];
+
+  // Lines billing the same PO line are one consumption: the ledger keeps a row per SKU and invoice.
+  const consumed = new Map<string, { poLine: PurchaseOrderLineItem; lines: InvoiceLineItem[] }>();
+  for (const item of invoice.lineItems) {
+    const poLine = findPurchaseOrderLine(purchaseOrder, item, invoice.lineItems.length);
+    if (!poLine) continue;
+    const group = consumed.get(poLine.sku) ?? { poLine, lines: [] };
+    group.lines.push(item);
+    consumed.set(poLine.sku, group);
+  }
+
+  for (const { poLine, lines } of consumed.values()) {
+    const quantity = lines.reduce((sum, li) => sum + li.quantity, 0);
+    const amount = lines.reduce((sum, li) => sum + li.quantity * li.unitPrice, 0);
+    const unitPrice = quantity !== 0 ? Number((amount / quantity).toFixed(4)) : lines[0]!.unitPrice;
+
+    entries.push({
+      poNumber,
+      sku: poLine.sku,
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoiceNumber,
+      vendorName: invoice.vendorName,
+      quantity,
+      unitPrice,
+      recordedAt: now,
+    });
+
+    const previouslyInvoiced = ledger.getInvoicedQuantity(poNumber, poLine.sku, invoice.id);
+    if (previouslyInvoiced === 0) continue;
+
+    const cumulative = previouslyInvoiced + quantity;
+    const base = {
+      lineItemId: lines.map((li) => li.id).join(', '),
+      sku: poLine.sku,
+      poNumber,
+      invoicedQuantity: cumulative,
+      orderedQuantity: poLine.quantity,
+      invoicedUnitPrice: unitPrice,
+      orderedUnitPrice: poLine.unitPrice,
+    };
+
+    if (cumulative > poLine.quantity) {
+      const variance = cumulative - poLine.quantity;
+      discrepancies.push({
+        ...base,
+        type: 'cumulative_over_billing',
+        variance,
+        exceedsTolerance: variance > tolerance.quantity,
+        message: `Invoices against ${poNumber} now bill ${cumulative} x ${poLine.sku} (${previouslyInvoiced} previously) but only ${poLine.quantity} were ordered.`,
+      });
+    }
+
+    if (deliveryNotes) {
+      const deliveredQuantity = deliveryNotes
+        .flatMap((dn) => dn.lineItems)
+        .filter((li) => li.sku === poLine.sku)
+        .reduce((sum, li) => sum + li.quantityDelivered, 0);
+
+      if (cumulative > deliveredQuantity) {
+        const variance = cumulative - deliveredQuantity;
+        discrepancies.push({
+          ...base,
+          type: 'cumulative_undelivered',
+          deliveredQuantity,
+          variance,
+          exceedsTolerance: variance > tolerance.quantity,
+          message: `Invoices against ${poNumber} now bill ${cumulative} x ${poLine.sku} (${previouslyInvoiced} previously) but only ${deliveredQuantity} were delivered.`,
+        });
+      }
+    }
+  }
+
+  return { poNumber, entries, discrepancies };
+}
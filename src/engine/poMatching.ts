@@ -0,0 +1,221 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { NormalizedInvoice, ProposedCorrection } from '../models/pipeline';
+import type { PurchaseOrder } from '../models/purchaseOrder';
+import type { AppliedMemoryRecord } from './apply';
+import type { RecallSummary, ScoredLearnedMemory } from './recall';
+import type { DecisionPolicy } from './policy';
+import { DEFAULT_DECISION_POLICY, resolveThresholds } from './policy';
+
+export const PO_NUMBER_FIELD = 'metadata.poNumber';
+export const PO_MATCHING_MEMORY_FIELD = 'poMatching';
+
+const DATE_WINDOW_DAYS = 30;
+const MIN_CANDIDATE_SCORE = 0.5;
+const AMBIGUITY_MARGIN = 0.15;
+const UNLEARNED_CONFIDENCE_FACTOR = 0.75;
+const MEMORY_CONFIDENCE_WEIGHT = 0.4;
+
+interface PurchaseOrderRecord {
+  poNumber: string;
+  vendor: string;
+  date: string;
+  lineItems: {
+    sku: string;
+    qty: number;
+    unitPrice: number;
+  }[];
+}
+
+export interface PurchaseOrderMatchSignals {
+  daysFromInvoice: number;
+  dateScore: number;
+  skuOverlap: number;
+  amountOverlap: number;
+}
+
+export interface PurchaseOrderCandidate {
+  purchaseOrder: PurchaseOrder;
+  score: number;
+  signals: PurchaseOrderMatchSignals;
+}
+
+export interface PurchaseOrderMatchInput {
+  invoice: NormalizedInvoice;
+  recall: RecallSummary;
+  purchaseOrders: PurchaseOrder[];
+  policy?: DecisionPolicy | undefined;
+}
+
+export interface PurchaseOrderMatchResult {
+  normalizedInvoice: NormalizedInvoice;
+  candidates: PurchaseOrderCandidate[];
+  correction?: ProposedCorrection | undefined;
+  appliedMemory?: AppliedMemoryRecord | undefined;
+  skippedReason?: string | undefined;
+}
+
+export function loadPurchaseOrders(filename = 'data/purchase_orders.json'): PurchaseOrder[] {
+  const fullPath = path.resolve(process.cwd(), filename);
+  const records = JSON.parse(fs.readFileSync(fullPath, 'utf8')) as PurchaseOrderRecord[];
+
+  return records.map((record) => ({
+    poNumber: record.poNumber,
+    vendorName: record.vendor,
+    orderedAt: new Date(record.date),
+    lineItems: record.lineItems.map((li) => ({
+      sku: li.sku,
+      quantity: li.qty,
+      unitPrice: li.unitPrice,
+    })),
+  }));
+}
+
+function invoiceNetAmount(invoice: NormalizedInvoice): number {
+  const netTotal = invoice.metadata?.netTotal;
+  if (typeof netTotal === 'number') return netTotal;
+  return invoice.lineItems.reduce((sum, li) => sum + li.quantity * li.unitPrice, 0);
+}
+
+export function scorePurchaseOrder(
+  invoice: NormalizedInvoice,
+  purchaseOrder: PurchaseOrder,
+): PurchaseOrderCandidate | undefined {
+  if (purchaseOrder.vendorName.toLowerCase() !== invoice.vendorName.toLowerCase()) {
+    return undefined;
+  }
+
+  // Orders are placed before they are invoiced, so only look backwards from the invoice date.
+  const diffMs = invoice.issuedAt.getTime() - purchaseOrder.orderedAt.getTime();
+  const daysFromInvoice = diffMs / (1000 * 60 * 60 * 24);
+  if (daysFromInvoice < 0 || daysFromInvoice > DATE_WINDOW_DAYS) {
+    return undefined;
+  }
+  const dateScore = 1 - daysFromInvoice / DATE_WINDOW_DAYS;
+
+  const invoiceSkus = invoice.lineItems
+    .map((li) => li.sku)
+    .filter((sku): sku is string => typeof sku === 'string' && sku.length > 0);
+  const poSkus = new Set(purchaseOrder.lineItems.map((li) => li.sku));
+  const skuOverlap =
+    invoiceSkus.length > 0 ? invoiceSkus.filter((sku) => poSkus.has(sku)).length / invoiceSkus.length : 0;
+
+  const invoiceAmount = invoiceNetAmount(invoice);
+  const poAmount = purchaseOrder.lineItems.reduce((sum, li) => sum + li.quantity * li.unitPrice, 0);
+  const amountOverlap =
+    invoiceAmount > 0 && poAmount > 0
+      ? Math.min(invoiceAmount, poAmount) / Math.max(invoiceAmount, poAmount)
+      : 0;
+
+  const score = 0.2 * dateScore + 0.45 * skuOverlap + 0.35 * amountOverlap;
+
+  return {
+    purchaseOrder,
+    score,
+    signals: {
+      daysFromInvoice: Number(daysFromInvoice.toFixed(1)),
+      dateScore: Number(dateScore.toFixed(2)),
+      skuOverlap: Number(skuOverlap.toFixed(2)),
+      amountOverlap: Number(amountOverlap.toFixed(2)),
+    },
+  };
+}
+
+export function matchPurchaseOrder(input: PurchaseOrderMatchInput): PurchaseOrderMatchResult {
+  const { invoice } = input;
+  const existingPoNumber = invoice.metadata?.poNumber;
+  if (typeof existingPoNumber === 'string' && existingPoNumber.length > 0) {
+    return {
+      normalizedInvoice: invoice,
+      candidates: [],
+      skippedReason: `Invoice already references purchase order ${existingPoNumber}.`,
+    };
+  }
+
+  const candidates = input.purchaseOrders
+    .map((po) => scorePurchaseOrder(invoice, po))
+    .filter((c): c is PurchaseOrderCandidate => c !== undefined && c.score >= MIN_CANDIDATE_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  const best = candidates[0];
+  if (!best) {
+    return {
+      normalizedInvoice: invoice,
+      candidates,
+      skippedReason: `No purchase order for ${invoice.vendorName} within ${DATE_WINDOW_DAYS} days matched the invoice.`,
+    };
+  }
+
+  const matchingMemory: ScoredLearnedMemory | undefined = input.recall.vendorMemories.find(
+    (m) => m.content.field === PO_MATCHING_MEMORY_FIELD,
+  );
+
+  const runnerUp = candidates[1];
+  const ambiguous = runnerUp !== undefined && best.score - runnerUp.score < AMBIGUITY_MARGIN;
+  const blend = (memoryConfidence: number | undefined): number => {
+    let value =
+      memoryConfidence !== undefined
+        ? best.score * (1 - MEMORY_CONFIDENCE_WEIGHT) + memoryConfidence * MEMORY_CONFIDENCE_WEIGHT
+        : best.score * UNLEARNED_CONFIDENCE_FACTOR;
+    if (ambiguous) value *= 0.8;
+    return Number(Math.min(value, 1).toFixed(2));
+  };
+
+  const confidence = blend(matchingMemory?.content.confidence);
+  // Auto-apply uses the memory's lower credible bound when recall provides one.
+  const autoApplyConfidence =
+    matchingMemory?.confidenceLowerBound !== undefined
+      ? blend(matchingMemory.confidenceLowerBound)
+      : confidence;
+
+  const thresholds = resolveThresholds(input.policy ?? DEFAULT_DECISION_POLICY, {
+    vendorName: invoice.vendorName,
+    field: PO_NUMBER_FIELD,
+    category: 'vendor',
+  });
+
+  if (confidence < thresholds.suggest) {
+    return {
+      normalizedInvoice: invoice,
+      candidates,
+      skippedReason: `Best purchase order candidate ${best.purchaseOrder.poNumber} is below the suggestion threshold.`,
+    };
+  }
+
+  const applied = autoApplyConfidence >= thresholds.autoApply;
+  const reason =
+    `Purchase order ${best.purchaseOrder.poNumber} matched for ${invoice.vendorName}: ` +
+    `${best.signals.daysFromInvoice} days before invoice, SKU overlap ${best.signals.skuOverlap}, ` +
+    `amount overlap ${best.signals.amountOverlap}` +
+    (matchingMemory ? ', reinforced by learned vendor PO-matching memory.' : '.');
+
+  const correction: ProposedCorrection = {
+    field: PO_NUMBER_FIELD,
+    proposedValue: best.purchaseOrder.poNumber,
+    reason,
+    confidence,
+    ...(matchingMemory ? { memoryId: matchingMemory.memory.id } : {}),
+    applied,
+  };
+
+  const normalizedInvoice: NormalizedInvoice = applied
+    ? { ...invoice, metadata: { ...(invoice.metadata ?? {}), poNumber: best.purchaseOrder.poNumber } }
+    : invoice;
+
+  return {
+    normalizedInvoice,
+    candidates,
+    correction,
+    ...(matchingMemory
+      ? {
+          appliedMemory: {
+            field: PO_NUMBER_FIELD,
+            memoryId: matchingMemory.memory.id,
+            confidence,
+            applied,
+            reason,
+          },
+        }
+      : {}),
+  };
+}
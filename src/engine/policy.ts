@@ -0,0 +1,202 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { LearnedMemoryCategory } from '../models/memory';
+import type { ConflictResolutionStrategy } from './conflicts';
+import { CONFLICT_RESOLUTION_STRATEGIES } from './conflicts';
+
+export interface ConfidenceThresholds {
+  /** Minimum confidence for a correction to be applied without review. */
+  autoApply: number;
+  /** Minimum confidence for a correction to be proposed at all. */
+  suggest: number;
+}
+
+export type ThresholdOverride = Partial<ConfidenceThresholds>;
+
+export interface VendorPolicy {
+  defaults?: ThresholdOverride | undefined;
+  fields?: Record<string, ThresholdOverride> | undefined;
+}
+
+/**
+ * Field keys may contain `*` wildcards, e.g. `lineItem:*:sku`. Overrides are layered from
+ * least to most specific: defaults, category, field, vendor defaults, vendor field.
+ */
+export interface DecisionPolicy {
+  version: string;
+  defaults: ConfidenceThresholds;
+  categories?: Partial<Record<LearnedMemoryCategory, ThresholdOverride>> | undefined;
+  fields?: Record<string, ThresholdOverride> | undefined;
+  vendors?: Record<string, VendorPolicy> | undefined;
+  /** How disagreeing memories for one field are settled; defaults to `highestEvidence`. */
+  conflictResolution?: ConflictResolutionStrategy | undefined;
+}
+
+export interface ThresholdContext {
+  vendorName?: string | undefined;
+  field?: string | undefined;
+  category?: LearnedMemoryCategory | undefined;
+}
+
+export const DEFAULT_DECISION_POLICY: DecisionPolicy = {
+  version: 'default',
+  defaults: { autoApply: 0.8, suggest: 0.7 },
+};
+
+const CATEGORIES: LearnedMemoryCategory[] = ['vendor', 'correction', 'resolution', 'duplicate'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateOverride(value: unknown, at: string, errors: string[], required = false): void {
+  if (!isRecord(value)) {
+    errors.push(`${at} must be an object`);
+    return;
+  }
+  for (const key of Object.keys(value)) {
+    if (key !== 'autoApply' && key !== 'suggest') {
+      errors.push(`${at}.${key} is not a known threshold`);
+    }
+  }
+  for (const key of ['autoApply', 'suggest'] as const) {
+    const threshold = value[key];
+    if (threshold === undefined && !required) continue;
+    if (typeof threshold !== 'number' || !(threshold >= 0 && threshold <= 1)) {
+      errors.push(`${at}.${key} must be a number between 0 and 1`);
+    }
+  }
+  if (
+    typeof value.autoApply === 'number' &&
+    typeof value.suggest === 'number' &&
+    value.suggest > value.autoApply
+  ) {
+    errors.push(`${at}.suggest must not exceed ${at}.autoApply`);
+  }
+}
+
+function validateFieldOverrides(value: unknown, at: string, errors: string[]): void {
+  if (!isRecord(value)) {
+    errors.push(`${at} must be an object`);
+    return;
+  }
+  for (const [field, override] of Object.entries(value)) {
+    validateOverride(override, `${at}.${field}`, errors);
+  }
+}
+
+export function validateDecisionPolicy(value: unknown): DecisionPolicy {
+  const errors: string[] = [];
+  if (!isRecord(value)) {
+    throw new Error('Invalid decision policy: expected an object.');
+  }
+
+  if (typeof value.version !== 'string' || value.version.trim() === '') {
+    errors.push('version must be a non-empty string');
+  }
+  validateOverride(value.defaults, 'defaults', errors, true);
+
+  if (value.categories !== undefined) {
+    if (!isRecord(value.categories)) {
+      errors.push('categories must be an object');
+    } else {
+      for (const [category, override] of Object.entries(value.categories)) {
+        if (!CATEGORIES.includes(category as LearnedMemoryCategory)) {
+          errors.push(`categories.${category} is not a memory category`);
+          continue;
+        }
+        validateOverride(override, `categories.${category}`, errors);
+      }
+    }
+  }
+
+  if (value.fields !== undefined) {
+    validateFieldOverrides(value.fields, 'fields', errors);
+  }
+
+  if (value.vendors !== undefined) {
+    if (!isRecord(value.vendors)) {
+      errors.push('vendors must be an object');
+    } else {
+      for (const [vendorName, vendorPolicy] of Object.entries(value.vendors)) {
+        const at = `vendors.${vendorName}`;
+        if (!isRecord(vendorPolicy)) {
+          errors.push(`${at} must be an object`);
+          continue;
+        }
+        if (vendorPolicy.defaults !== undefined) {
+          validateOverride(vendorPolicy.defaults, `${at}.defaults`, errors);
+        }
+        if (vendorPolicy.fields !== undefined) {
+          validateFieldOverrides(vendorPolicy.fields, `${at}.fields`, errors);
+        }
+      }
+    }
+  }
+
+  if (
+    value.conflictResolution !== undefined &&
+    !CONFLICT_RESOLUTION_STRATEGIES.includes(value.conflictResolution as ConflictResolutionStrategy)
+  ) {
+    errors.push(`conflictResolution must be one of ${CONFLICT_RESOLUTION_STRATEGIES.join(', ')}`);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid decision policy: ${errors.join('; ')}.`);
+  }
+  return value as unknown as DecisionPolicy;
+}
+
+export function loadDecisionPolicy(filename = 'data/decision_policy.json'): DecisionPolicy {
+  const fullPath = path.resolve(process.cwd(), filename);
+  return validateDecisionPolicy(JSON.parse(fs.readFileSync(fullPath, 'utf8')) as unknown);
+}
+
+function fieldPatternMatches(pattern: string, field: string): boolean {
+  if (!pattern.includes('*')) return pattern === field;
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(field);
+}
+
+/** Wildcard entries apply first so that an exact field key always wins. */
+function fieldOverrides(
+  overrides: Record<string, ThresholdOverride> | undefined,
+  field: string | undefined,
+): ThresholdOverride[] {
+  if (!overrides || field === undefined) return [];
+  const matching = Object.entries(overrides).filter(([pattern]) => fieldPatternMatches(pattern, field));
+  return [
+    ...matching.filter(([pattern]) => pattern !== field).map(([, override]) => override),
+    ...matching.filter(([pattern]) => pattern === field).map(([, override]) => override),
+  ];
+}
+
+function vendorPolicyFor(policy: DecisionPolicy, vendorName: string | undefined): VendorPolicy | undefined {
+  if (!policy.vendors || vendorName === undefined) return undefined;
+  const key = Object.keys(policy.vendors).find((v) => v.toLowerCase() === vendorName.toLowerCase());
+  return key !== undefined ? policy.vendors[key] : undefined;
+}
+
+export function resolveThresholds(
+  policy: DecisionPolicy,
+  context: ThresholdContext = {},
+): ConfidenceThresholds {
+  const vendorPolicy = vendorPolicyFor(policy, context.vendorName);
+  const layers: Array<ThresholdOverride | undefined> = [
+    context.category !== undefined ? policy.categories?.[context.category] : undefined,
+    ...fieldOverrides(policy.fields, context.field),
+    vendorPolicy?.defaults,
+    ...fieldOverrides(vendorPolicy?.fields, context.field),
+  ];
+
+  const thresholds: ConfidenceThresholds = { ...policy.defaults };
+  for (const layer of layers) {
+    if (layer?.autoApply !== undefined) thresholds.autoApply = layer.autoApply;
+    if (layer?.suggest !== undefined) thresholds.suggest = layer.suggest;
+  }
+  thresholds.suggest = Math.min(thresholds.suggest, thresholds.autoApply);
+  return thresholds;
+}
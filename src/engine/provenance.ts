@@ -0,0 +1,32 @@
+import type { ProposedCorrection } from '../models/pipeline';
+import type { ProcessedInvoiceRepository } from '../memory/processedInvoiceRepository';
+import type { MemoryLineage, ProvenanceRepository } from '../memory/provenanceRepository';
+
+export interface CorrectionExplanation {
+  invoiceId: string;
+  correction: ProposedCorrection;
+  /** Lineage of the memory behind the correction, as it stood when the invoice was processed. */
+  lineage: MemoryLineage;
+}
+
+/**
+ * Explains a correction applied on a processed invoice: the memory behind it and every
+ * feedback and decay event that led to its confidence at the time. Returns undefined when the
+ * invoice is unknown or no memory-backed correction was applied to the field.
+ */
+export function explainAppliedCorrection(
+  provenance: ProvenanceRepository,
+  invoiceRegistry: ProcessedInvoiceRepository,
+  invoiceId: string,
+  field: string,
+): CorrectionExplanation | undefined {
+  const record = invoiceRegistry.getProcessedInvoice(invoiceId);
+  const correction = record?.corrections.find((c) => c.field === field && c.memoryId !== undefined);
+  if (!record || !correction?.memoryId) return undefined;
+
+  return {
+    invoiceId,
+    correction,
+    lineage: provenance.getLineage(correction.memoryId, record.processedAt),
+  };
+}
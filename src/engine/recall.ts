@@ -1,18 +1,57 @@
-import type { Memory, LearnedMemoryContent, LearnedMemoryCategory } from '../models/memory';
-import type { MemoryRepository } from '../memory/memoryRepository';
+import type {
+  LearnedMemoryCategory,
+  LearnedMemoryContent,
+  LearnedMemoryRecord,
+} from '../models/memory';
+import type { MemoryRepository, RankedMemory } from '../memory/memoryRepository';
+import type { DecayConfig } from './decay';
+import { decayedEstimate, effectiveConfidence } from './decay';
+import type { ConfidenceModelConfig } from './confidence';
+import type { InvoiceFingerprint } from '../memory/processedInvoiceRepository';
+import type { DuplicateDetectionOptions, DuplicateMatch } from './duplicates';
+import { describeDuplicateMatch, detectDuplicate } from './duplicates';
+
+const DEFAULT_MIN_SIMILARITY = 0.35;
+const CROSS_VENDOR_MIN_SIMILARITY = 0.5;
+const CROSS_VENDOR_CONFIDENCE_CAP = 0.75;
 
 export interface RecallQuery {
   vendorName: string;
+  /** Vendor-master id; memories keyed by it match whichever name variant they were learned under. */
+  vendorId?: string | undefined;
   invoiceNumber: string;
   invoiceDate: Date;
   rawText?: string;
   limit?: number;
+  embedding?: number[] | undefined;
+  embeddingModel?: string | undefined;
+  minSimilarity?: number | undefined;
+  decay?: DecayConfig | undefined;
+  confidenceModel?: ConfidenceModelConfig | undefined;
+  /** The current invoice's fingerprint, compared against `priorInvoices` for duplicates. */
+  fingerprint?: InvoiceFingerprint | undefined;
+  priorInvoices?: InvoiceFingerprint[] | undefined;
+  duplicateDetection?: DuplicateDetectionOptions | undefined;
+  now?: Date | undefined;
 }
 
-export interface ScoredLearnedMemory {
-  memory: Memory;
-  content: LearnedMemoryContent;
+export interface ScoredLearnedMemory extends LearnedMemoryRecord {
   score: number;
+  /** Stored confidence before time decay; `content.confidence` holds the effective value. */
+  rawConfidence: number;
+  /**
+   * Lower credible bound of the memory's (decayed) posterior. Set only for memories with
+   * approval/rejection counts when auto-apply is configured to use the bound.
+   */
+  confidenceLowerBound?: number | undefined;
+  /** Another vendor's memory, recalled on embedding similarity alone. */
+  crossVendor?: boolean | undefined;
+  /** Approvals (faded by time decay) and rejections behind the memory's posterior. */
+  evidence?: { approvals: number; rejections: number } | undefined;
+  /** Best BM25 rank from full-text search, when the memory was matched by it. */
+  textRank?: number | undefined;
+  /** Cosine similarity between the invoice and the memory's stored embedding. */
+  similarity?: number | undefined;
 }
 
 export interface RecallSummary {
@@ -22,30 +61,26 @@ export interface RecallSummary {
   duplicateDetected: boolean;
   duplicateScore: number;
   duplicateReason?: string | undefined;
+  /** Best-scoring prior invoice when the fingerprint-based detector flagged a duplicate. */
+  duplicateMatch?: DuplicateMatch | undefined;
   allMemories: ScoredLearnedMemory[];
 }
 
-function parseLearnedContent(memory: Memory): LearnedMemoryContent | undefined {
-  try {
-    const parsed = JSON.parse(memory.content) as Partial<LearnedMemoryContent>;
-    if (typeof parsed.confidence === 'number' && typeof parsed.usageCount === 'number' && parsed.category) {
-      return parsed as LearnedMemoryContent;
-    }
-  } catch {
-    // Non-JSON or incompatible content is ignored for learned memory logic.
-  }
-  return undefined;
-}
-
 function scoreMemory(
   content: LearnedMemoryContent,
-  vendorName: string,
+  sameVendor: boolean,
   invoiceNumber: string,
   invoiceDate: Date,
+  textRelevance = 0,
+  similarity = 0,
 ): number {
   let score = content.confidence;
 
-  if (content.vendorName && content.vendorName.toLowerCase() === vendorName.toLowerCase()) {
+  // textRelevance is the memory's BM25 rank relative to the best hit (0..1).
+  score += 0.05 * textRelevance;
+  score += 0.05 * Math.max(similarity, 0);
+
+  if (sameVendor) {
     score += 0.05;
   }
 
@@ -65,6 +100,44 @@ function scoreMemory(
   return Math.min(score, 1);
 }
 
+function tokensOf(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+/**
+ * A full-text hit on the vendor name only counts as the same vendor when every token of the
+ * stored name appears in the queried name, e.g. "Supplier GmbH" for "SUPPLIER GMBH, Berlin".
+ */
+function isVendorVariant(storedVendorName: string | undefined, vendorName: string): boolean {
+  if (!storedVendorName) return false;
+  const queried = tokensOf(vendorName);
+  const stored = tokensOf(storedVendorName);
+  return stored.size > 0 && [...stored].every((t) => queried.has(t));
+}
+
+/**
+ * Vendor ids decide when both sides have one, so "Parts AG" and "Spare Parts AG" stay apart.
+ * Memories learned before the vendor master existed fall back to name matching.
+ */
+function isSameVendor(content: LearnedMemoryContent, query: RecallQuery, exactName = false): boolean {
+  if (query.vendorId && content.vendorId) return content.vendorId === query.vendorId;
+  if (exactName) return content.vendorName?.toLowerCase() === query.vendorName.toLowerCase();
+  return isVendorVariant(content.vendorName, query.vendorName);
+}
+
+function collectRanks(results: RankedMemory[], ranks: Map<string, number>): void {
+  for (const result of results) {
+    const previous = ranks.get(result.memory.id);
+    if (previous === undefined || result.rank < previous) {
+      ranks.set(result.memory.id, result.rank);
+    }
+  }
+}
+
+export function invoiceEmbeddingText(rawText: string, lineDescriptions: string[]): string {
+  return [...lineDescriptions, rawText].join('\n');
+}
+
 function filterByCategory(
   memories: ScoredLearnedMemory[],
   category: LearnedMemoryCategory,
@@ -79,20 +152,96 @@ export async function recallMemories(
   query: RecallQuery,
 ): Promise<RecallSummary> {
   const limit = query.limit ?? 50;
-  const byVendor = repository.searchMemories(query.vendorName, limit);
-  const byInvoiceNumber = repository.searchMemories(query.invoiceNumber, limit);
+  const byVendor = [
+    ...(query.vendorId ? repository.findLearnedMemories({ vendorId: query.vendorId, limit }) : []),
+    ...repository
+      .findLearnedMemories({ vendorName: query.vendorName, limit })
+      .filter(({ content }) => isSameVendor(content, query, true)),
+  ];
+  const byInvoiceNumber = repository.findLearnedMemories({
+    invoiceNumber: query.invoiceNumber,
+    limit,
+  });
+
+  const byVendorText = repository.searchMemories(query.vendorName, limit);
+  const byRawText = query.rawText ? repository.searchMemories(query.rawText, limit) : [];
+
+  const combined = new Map<string, LearnedMemoryRecord>();
+  for (const record of [...byVendor, ...byInvoiceNumber]) {
+    combined.set(record.memory.id, record);
+  }
+  for (const { memory, content } of byVendorText) {
+    if (content && !combined.has(memory.id) && isSameVendor(content, query)) {
+      combined.set(memory.id, { memory, content });
+    }
+  }
 
-  const combined = new Map<string, Memory>();
-  for (const m of [...byVendor, ...byInvoiceNumber]) {
-    combined.set(m.id, m);
+  const similarities = new Map<string, number>();
+  const crossVendor = new Set<string>();
+  if (query.embedding && query.embeddingModel) {
+    const similar = repository.findSimilarMemories({
+      embedding: query.embedding,
+      embeddingModel: query.embeddingModel,
+      limit,
+      minSimilarity: query.minSimilarity ?? DEFAULT_MIN_SIMILARITY,
+    });
+    for (const { memory, content, similarity } of similar) {
+      similarities.set(memory.id, similarity);
+      if (combined.has(memory.id)) continue;
+      if (isSameVendor(content, query)) {
+        combined.set(memory.id, { memory, content });
+      } else if (similarity >= CROSS_VENDOR_MIN_SIMILARITY) {
+        combined.set(memory.id, { memory, content });
+        crossVendor.add(memory.id);
+      }
+    }
   }
 
+  const ranks = new Map<string, number>();
+  collectRanks(byVendorText, ranks);
+  collectRanks(byRawText, ranks);
+  const bestRank = Math.min(0, ...[...combined.keys()].map((id) => ranks.get(id) ?? 0));
+
+  const now = query.now ?? new Date();
   const scored: ScoredLearnedMemory[] = [];
-  for (const memory of combined.values()) {
-    const content = parseLearnedContent(memory);
-    if (!content) continue;
-    const score = scoreMemory(content, query.vendorName, query.invoiceNumber, query.invoiceDate);
-    scored.push({ memory, content, score });
+  for (const { memory, content: storedContent } of combined.values()) {
+    const estimate = decayedEstimate(memory, storedContent, now, query.decay, query.confidenceModel);
+    let confidence =
+      estimate?.mean ??
+      effectiveConfidence(memory, storedContent.category, storedContent.confidence, now, query.decay);
+    let confidenceLowerBound =
+      query.confidenceModel?.autoApplyOn === 'mean' ? undefined : estimate?.lowerBound;
+    if (crossVendor.has(memory.id)) {
+      // Another vendor's pattern may be suggested, but never auto-applied on similarity alone.
+      confidence = Math.min(confidence, CROSS_VENDOR_CONFIDENCE_CAP);
+      if (confidenceLowerBound !== undefined) {
+        confidenceLowerBound = Math.min(confidenceLowerBound, CROSS_VENDOR_CONFIDENCE_CAP);
+      }
+    }
+    const content = { ...storedContent, confidence };
+
+    const textRank = ranks.get(memory.id);
+    const textRelevance = textRank !== undefined && bestRank < 0 ? textRank / bestRank : 0;
+    const similarity = similarities.get(memory.id);
+    const score = scoreMemory(
+      content,
+      isSameVendor(content, query, true),
+      query.invoiceNumber,
+      query.invoiceDate,
+      textRelevance,
+      similarity,
+    );
+    scored.push({
+      memory,
+      content,
+      score,
+      rawConfidence: storedContent.confidence,
+      ...(confidenceLowerBound !== undefined ? { confidenceLowerBound } : {}),
+      ...(crossVendor.has(memory.id) ? { crossVendor: true } : {}),
+      ...(estimate ? { evidence: { approvals: estimate.approvals, rejections: estimate.rejections } } : {}),
+      ...(textRank !== undefined ? { textRank } : {}),
+      ...(similarity !== undefined ? { similarity } : {}),
+    });
   }
 
   const vendorMemories = filterByCategory(scored, 'vendor');
@@ -103,13 +252,24 @@ export async function recallMemories(
   let duplicateScore = 0;
   let duplicateReason: string | undefined;
 
+  const duplicateMatch =
+    query.fingerprint && query.priorInvoices
+      ? detectDuplicate(query.fingerprint, query.rawText ?? '', query.priorInvoices, query.duplicateDetection)
+      : undefined;
+
+  // Resolution memories only know vendor and invoice number; they remain a fallback for
+  // databases without fingerprints of earlier invoices.
   const duplicateCandidates = resolutionMemories.filter((m) =>
-    m.content.vendorName?.toLowerCase() === query.vendorName.toLowerCase() &&
+    isSameVendor(m.content, query, true) &&
     m.content.invoiceNumber === query.invoiceNumber &&
     m.content.invoiceDate,
   );
 
-  if (duplicateCandidates.length > 0) {
+  if (duplicateMatch) {
+    duplicateDetected = true;
+    duplicateScore = duplicateMatch.score;
+    duplicateReason = describeDuplicateMatch(duplicateMatch);
+  } else if (duplicateCandidates.length > 0) {
     const best = duplicateCandidates[0]!;
     duplicateDetected = true;
     duplicateScore = best.score;
@@ -124,6 +284,7 @@ export async function recallMemories(
     duplicateDetected,
     duplicateScore,
     ...(duplicateReason !== undefined ? { duplicateReason } : {}),
+    ...(duplicateMatch !== undefined ? { duplicateMatch } : {}),
     allMemories: scored,
   };
 }
@@ -0,0 +1,200 @@
+import type { EngineOutputContract, ReviewerCorrection } from '../models/pipeline';
+import type {
+  ReviewDecisions,
+  ReviewItem,
+  ReviewPriority,
+  ReviewQueueRepository,
+  ReviewStatus,
+} from '../memory/reviewQueueRepository';
+import type { HumanFeedbackInput } from './index';
+
+/** Hours a reviewer has to complete an item, by priority. */
+export const REVIEW_SLA_HOURS: Record<ReviewPriority, number> = {
+  urgent: 4,
+  high: 8,
+  normal: 24,
+  low: 72,
+};
+
+export const REVIEW_TRANSITIONS: Record<ReviewStatus, ReviewStatus[]> = {
+  pending: ['in_review', 'escalated'],
+  in_review: ['pending', 'approved', 'rejected', 'escalated'],
+  escalated: ['in_review'],
+  approved: [],
+  rejected: [],
+};
+
+const PRIORITY_RANK: Record<ReviewPriority, number> = { low: 0, normal: 1, high: 2, urgent: 3 };
+
+export interface EnqueueReviewOptions {
+  /** Defaults to `reviewPriorityFor(output)`. */
+  priority?: ReviewPriority;
+  now?: Date;
+}
+
+export interface ReviewCompletion {
+  outcome: 'approved' | 'rejected';
+  /** Decision per proposed correction field; fields left out are not learned from. */
+  decisions: ReviewDecisions;
+  /** Values the reviewer set: edits of proposed fields and corrections the engine did not propose. */
+  corrections?: ReviewerCorrection[];
+}
+
+export function reviewDueAt(priority: ReviewPriority, from: Date): Date {
+  return new Date(from.getTime() + REVIEW_SLA_HOURS[priority] * 60 * 60 * 1000);
+}
+
+/**
+ * Runs with a discrepancy beyond tolerance, a suspected duplicate or conflicting memories are
+ * high priority; everything else is normal.
+ */
+export function reviewPriorityFor(output: EngineOutputContract): ReviewPriority {
+  const recall = output.auditTrail.find((e) => e.step === 'recall');
+  const apply = output.auditTrail.find((e) => e.step === 'apply');
+  const duplicate = recall?.details.duplicateDetected === true;
+  const conflicts = Array.isArray(apply?.details.conflicts) && apply.details.conflicts.length > 0;
+  const discrepancy = (output.discrepancies ?? []).some((d) => d.exceedsTolerance);
+  return duplicate || conflicts || discrepancy ? 'high' : 'normal';
+}
+
+function transition(queue: ReviewQueueRepository, id: string, to: ReviewStatus): ReviewItem {
+  const item = queue.getItem(id);
+  if (!item) {
+    throw new Error(`Review item ${id} not found.`);
+  }
+  if (!REVIEW_TRANSITIONS[item.status].includes(to)) {
+    throw new Error(`Review item ${id} cannot move from ${item.status} to ${to}.`);
+  }
+  return item;
+}
+
+export function enqueueForReview(
+  queue: ReviewQueueRepository,
+  output: EngineOutputContract,
+  options: EnqueueReviewOptions = {},
+): ReviewItem {
+  if (!output.runId) {
+    throw new Error('Only runs with a run id can be queued for review.');
+  }
+  const now = options.now ?? new Date();
+  const priority = options.priority ?? reviewPriorityFor(output);
+  return queue.enqueue({
+    runId: output.runId,
+    invoiceId: output.normalizedInvoice.id,
+    vendorName: output.normalizedInvoice.vendorName,
+    priority,
+    proposedCorrections: output.proposedCorrections,
+    reasoning: output.reasoning,
+    confidenceScore: output.confidenceScore,
+    dueAt: reviewDueAt(priority, now),
+    createdAt: now,
+  });
+}
+
+/** Assigns or reassigns an open item; the status does not change. */
+export function assignReview(queue: ReviewQueueRepository, id: string, assignee: string, now = new Date()): ReviewItem {
+  const item = queue.getItem(id);
+  if (!item) {
+    throw new Error(`Review item ${id} not found.`);
+  }
+  if (REVIEW_TRANSITIONS[item.status].length === 0) {
+    throw new Error(`Review item ${id} is already ${item.status}.`);
+  }
+  return queue.updateItem(id, { assignee, assignedAt: now }, now);
+}
+
+export function startReview(queue: ReviewQueueRepository, id: string, now = new Date()): ReviewItem {
+  const item = transition(queue, id, 'in_review');
+  if (!item.assignee) {
+    throw new Error(`Review item ${id} must be assigned before the review starts.`);
+  }
+  return queue.updateItem(id, { status: 'in_review', startedAt: now }, now);
+}
+
+/** Puts an in-review item back in the queue, keeping its assignee. */
+export function releaseReview(queue: ReviewQueueRepository, id: string, now = new Date()): ReviewItem {
+  transition(queue, id, 'pending');
+  return queue.updateItem(id, { status: 'pending' }, now);
+}
+
+/** Raises the item to at least high priority and restarts its SLA from now. */
+export function escalateReview(
+  queue: ReviewQueueRepository,
+  id: string,
+  reason: string,
+  now = new Date(),
+): ReviewItem {
+  const item = transition(queue, id, 'escalated');
+  const priority = PRIORITY_RANK[item.priority] >= PRIORITY_RANK.high ? item.priority : 'high';
+  return queue.updateItem(
+    id,
+    {
+      status: 'escalated',
+      priority,
+      dueAt: reviewDueAt(priority, now),
+      escalatedAt: now,
+      escalationReason: reason,
+    },
+    now,
+  );
+}
+
+export function reviewDecisionsToFeedback(
+  decisions: ReviewDecisions,
+  corrections: ReviewerCorrection[] = [],
+): HumanFeedbackInput {
+  const fields = Object.keys(decisions);
+  return {
+    approvedCorrections: fields.filter((f) => decisions[f] === 'approved'),
+    rejectedCorrections: fields.filter((f) => decisions[f] === 'rejected'),
+    ...(corrections.length > 0 ? { corrections } : {}),
+  };
+}
+
+/** Checks that the item can be completed with these decisions and returns them as feedback. */
+export function reviewFeedback(item: ReviewItem, completion: ReviewCompletion): HumanFeedbackInput {
+  if (!REVIEW_TRANSITIONS[item.status].includes(completion.outcome)) {
+    throw new Error(`Review item ${item.id} cannot move from ${item.status} to ${completion.outcome}.`);
+  }
+  const proposed = new Set(item.proposedCorrections.map((c) => c.field));
+  const unknown = Object.keys(completion.decisions).filter((f) => !proposed.has(f));
+  if (unknown.length > 0) {
+    throw new Error(`Review item ${item.id} has no proposed correction for: ${unknown.join(', ')}.`);
+  }
+  const rejectedWithValue = (completion.corrections ?? [])
+    .map((c) => c.field)
+    .filter((f) => completion.decisions[f] === 'rejected');
+  if (rejectedWithValue.length > 0) {
+    throw new Error(`Review item ${item.id} rejects fields it also sets a value for: ${rejectedWithValue.join(', ')}.`);
+  }
+  return reviewDecisionsToFeedback(completion.decisions, completion.corrections);
+}
+
+/**
+ * Records the reviewer's decisions and closes the item. Learning from them is up to the
+ * caller; `completeReviewWithLearning` does both.
+ */
+export function completeReview(
+  queue: ReviewQueueRepository,
+  id: string,
+  completion: ReviewCompletion,
+  options: { feedbackRunId?: string; now?: Date } = {},
+): ReviewItem {
+  const item = queue.getItem(id);
+  if (!item) {
+    throw new Error(`Review item ${id} not found.`);
+  }
+  reviewFeedback(item, completion);
+  const now = options.now ?? new Date();
+  return queue.updateItem(
+    id,
+    {
+      status: completion.outcome,
+      decisions: completion.decisions,
+      ...(completion.corrections !== undefined ? { corrections: completion.corrections } : {}),
+      completedAt: now,
+      ...(options.feedbackRunId !== undefined ? { feedbackRunId: options.feedbackRunId } : {}),
+    },
+    now,
+  );
+}
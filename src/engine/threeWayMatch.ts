@@ -0,0 +1,180 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { InvoiceLineItem } from '../models/invoice';
+import type { MatchDiscrepancy, NormalizedInvoice } from '../models/pipeline';
+import type { PurchaseOrder, PurchaseOrderLineItem } from '../models/purchaseOrder';
+import type { DeliveryNote } from '../models/deliveryNote';
+
+interface DeliveryNoteRecord {
+  dnNumber: string;
+  vendor: string;
+  poNumber: string;
+  date: string;
+  lineItems: {
+    sku: string;
+    qtyDelivered: number;
+  }[];
+}
+
+export interface ThreeWayMatchTolerance {
+  /** Absolute number of units an invoice line may exceed the ordered or delivered quantity by. */
+  quantity: number;
+  /** Relative unit price deviation from the PO price, e.g. 0.02 for 2%. */
+  priceRatio: number;
+}
+
+export const DEFAULT_THREE_WAY_MATCH_TOLERANCE: ThreeWayMatchTolerance = {
+  quantity: 0,
+  priceRatio: 0.02,
+};
+
+export interface ThreeWayMatchInput {
+  invoice: NormalizedInvoice;
+  purchaseOrders: PurchaseOrder[];
+  deliveryNotes?: DeliveryNote[] | undefined;
+  tolerance?: ThreeWayMatchTolerance | undefined;
+}
+
+export interface ThreeWayMatchResult {
+  poNumber?: string | undefined;
+  deliveryNoteNumbers: string[];
+  discrepancies: MatchDiscrepancy[];
+  toleranceExceeded: boolean;
+  skippedReason?: string | undefined;
+}
+
+export function loadDeliveryNotes(filename = 'data/delivery_notes.json'): DeliveryNote[] {
+  const fullPath = path.resolve(process.cwd(), filename);
+  const records = JSON.parse(fs.readFileSync(fullPath, 'utf8')) as DeliveryNoteRecord[];
+
+  return records.map((record) => ({
+    dnNumber: record.dnNumber,
+    vendorName: record.vendor,
+    poNumber: record.poNumber,
+    deliveredAt: new Date(record.date),
+    lineItems: record.lineItems.map((li) => ({
+      sku: li.sku,
+      quantityDelivered: li.qtyDelivered,
+    })),
+  }));
+}
+
+export function findPurchaseOrderLine(
+  purchaseOrder: PurchaseOrder,
+  item: InvoiceLineItem,
+  invoiceLineCount: number,
+): PurchaseOrderLineItem | undefined {
+  if (item.sku) {
+    return purchaseOrder.lineItems.find((li) => li.sku === item.sku);
+  }
+  // Lines without a SKU can only be paired unambiguously on single-line documents.
+  if (invoiceLineCount === 1 && purchaseOrder.lineItems.length === 1) {
+    return purchaseOrder.lineItems[0];
+  }
+  return undefined;
+}
+
+export function matchThreeWay(input: ThreeWayMatchInput): ThreeWayMatchResult {
+  const { invoice } = input;
+  const tolerance = input.tolerance ?? DEFAULT_THREE_WAY_MATCH_TOLERANCE;
+  const poNumber = invoice.metadata?.poNumber;
+
+  if (typeof poNumber !== 'string' || poNumber.length === 0) {
+    return {
+      deliveryNoteNumbers: [],
+      discrepancies: [],
+      toleranceExceeded: false,
+      skippedReason: 'Invoice does not reference a purchase order; three-way match skipped.',
+    };
+  }
+
+  const purchaseOrder = input.purchaseOrders.find((po) => po.poNumber === poNumber);
+  if (!purchaseOrder) {
+    return {
+      poNumber,
+      deliveryNoteNumbers: [],
+      discrepancies: [],
+      toleranceExceeded: false,
+      skippedReason: `Purchase order ${poNumber} is unknown; three-way match skipped.`,
+    };
+  }
+
+  const deliveryNotes = input.deliveryNotes?.filter((dn) => dn.poNumber === poNumber);
+  const discrepancies: MatchDiscrepancy[] = [];
+
+  for (const item of invoice.lineItems) {
+    const poLine = findPurchaseOrderLine(purchaseOrder, item, invoice.lineItems.length);
+    if (!poLine) {
+      discrepancies.push({
+        type: 'unmatched_line',
+        lineItemId: item.id,
+        sku: item.sku,
+        poNumber,
+        invoicedQuantity: item.quantity,
+        invoicedUnitPrice: item.unitPrice,
+        variance: item.quantity,
+        exceedsTolerance: true,
+        message: `Line ${item.id} (${item.description}) has no matching line on ${poNumber}.`,
+      });
+      continue;
+    }
+
+    const base = {
+      lineItemId: item.id,
+      sku: poLine.sku,
+      poNumber,
+      invoicedQuantity: item.quantity,
+      orderedQuantity: poLine.quantity,
+      invoicedUnitPrice: item.unitPrice,
+      orderedUnitPrice: poLine.unitPrice,
+    };
+
+    if (item.quantity > poLine.quantity) {
+      const variance = item.quantity - poLine.quantity;
+      discrepancies.push({
+        ...base,
+        type: 'over_billing',
+        variance,
+        exceedsTolerance: variance > tolerance.quantity,
+        message: `Line ${item.id} invoices ${item.quantity} x ${poLine.sku} but ${poNumber} ordered ${poLine.quantity}.`,
+      });
+    }
+
+    if (poLine.unitPrice > 0 && item.unitPrice !== poLine.unitPrice) {
+      const variance = (item.unitPrice - poLine.unitPrice) / poLine.unitPrice;
+      discrepancies.push({
+        ...base,
+        type: 'price_variance',
+        variance: Number(variance.toFixed(4)),
+        exceedsTolerance: Math.abs(variance) > tolerance.priceRatio,
+        message: `Line ${item.id} unit price ${item.unitPrice} deviates ${(variance * 100).toFixed(1)}% from PO price ${poLine.unitPrice}.`,
+      });
+    }
+
+    if (deliveryNotes) {
+      const deliveredQuantity = deliveryNotes
+        .flatMap((dn) => dn.lineItems)
+        .filter((li) => li.sku === poLine.sku)
+        .reduce((sum, li) => sum + li.quantityDelivered, 0);
+
+      if (item.quantity > deliveredQuantity) {
+        const variance = item.quantity - deliveredQuantity;
+        discrepancies.push({
+          ...base,
+          type: 'undelivered',
+          deliveredQuantity,
+          variance,
+          exceedsTolerance: variance > tolerance.quantity,
+          message: `Line ${item.id} invoices ${item.quantity} x ${poLine.sku} but only ${deliveredQuantity} were delivered.`,
+        });
+      }
+    }
+  }
+
+  return {
+    poNumber,
+    deliveryNoteNumbers: deliveryNotes?.map((dn) => dn.dnNumber) ?? [],
+    discrepancies,
+    toleranceExceeded: discrepancies.some((d) => d.exceedsTolerance),
+  };
+}
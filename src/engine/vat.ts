@@ -0,0 +1,244 @@
+import type { VatRateCategory } from '../models/invoice';
+import type { NormalizedInvoice } from '../models/pipeline';
+
+export type VatRateTable = Record<string, Partial<Record<VatRateCategory, number>>>;
+
+/** Rates as fractions, keyed by ISO country code. */
+export const DEFAULT_VAT_RATES: VatRateTable = {
+  DE: { standard: 0.19, reduced: 0.07, zero: 0 },
+  AT: { standard: 0.2, intermediate: 0.13, reduced: 0.1, zero: 0 },
+  CH: { standard: 0.081, intermediate: 0.038, reduced: 0.026, zero: 0 },
+  FR: { standard: 0.2, intermediate: 0.1, reduced: 0.055, superReduced: 0.021, zero: 0 },
+  NL: { standard: 0.21, reduced: 0.09, zero: 0 },
+  IT: { standard: 0.22, intermediate: 0.1, reduced: 0.05, superReduced: 0.04, zero: 0 },
+  GB: { standard: 0.2, reduced: 0.05, zero: 0 },
+};
+
+export const DEFAULT_VAT_COUNTRY = 'DE';
+
+export interface VatOptions {
+  rates?: VatRateTable | undefined;
+  /** Country assumed when neither the invoice nor its raw text identifies one. */
+  defaultCountry?: string | undefined;
+}
+
+export type VatRateSource = 'line' | 'lineCategory' | 'invoice' | 'rawText' | 'country';
+
+export interface VatRateGroup {
+  rate: number;
+  source: VatRateSource;
+  lineItemIds: string[];
+  grossAmount: number;
+  netAmount: number;
+  taxAmount: number;
+}
+
+export interface VatBreakdown {
+  country: string;
+  countrySource: 'metadata' | 'vatId' | 'currency' | 'default';
+  groups: VatRateGroup[];
+  grossAmount: number;
+  netAmount: number;
+  taxAmount: number;
+}
+
+const VAT_ID_PREFIXES: Array<[pattern: RegExp, country: string]> = [
+  [/\bDE\s?\d{9}\b/, 'DE'],
+  [/\bATU\s?\d{8}\b/, 'AT'],
+  [/\bCHE[-\s]?\d{3}\.?\d{3}\.?\d{3}\b/, 'CH'],
+  [/\bFR\s?[0-9A-Z]{2}\s?\d{9}\b/, 'FR'],
+  [/\bNL\s?\d{9}B\d{2}\b/, 'NL'],
+  [/\bIT\s?\d{11}\b/, 'IT'],
+  [/\bGB\s?\d{9}\b/, 'GB'],
+];
+
+const CURRENCY_COUNTRIES: Record<string, string> = {
+  CHF: 'CH',
+  GBP: 'GB',
+};
+
+function roundCents(value: number): number {
+  return Number(value.toFixed(2));
+}
+
+/** Accepts fractions (0.19) as well as percentages (19). */
+export function normalizeTaxRate(value: unknown): number | undefined {
+  const rate = typeof value === 'string' ? Number(value.replace(',', '.')) : value;
+  if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < 0) return undefined;
+  return rate > 1 ? rate / 100 : rate;
+}
+
+function formatRate(rate: number): string {
+  return `${Number((rate * 100).toFixed(2))}%`;
+}
+
+/** First VAT ID in the text, with spaces and separators removed, and its country. */
+export function findVatId(rawText: string): { vatId: string; country: string } | undefined {
+  const upper = rawText.toUpperCase();
+  let first: { index: number; vatId: string; country: string } | undefined;
+  for (const [pattern, country] of VAT_ID_PREFIXES) {
+    const match = upper.match(pattern);
+    if (match?.index !== undefined && (!first || match.index < first.index)) {
+      first = { index: match.index, vatId: match[0].replace(/[\s.\-]/g, ''), country };
+    }
+  }
+  return first ? { vatId: first.vatId, country: first.country } : undefined;
+}
+
+export function resolveVendorCountry(
+  invoice: NormalizedInvoice,
+  rawText: string,
+  options: VatOptions = {},
+): Pick<VatBreakdown, 'country' | 'countrySource'> {
+  const fromMetadata = invoice.metadata?.vendorCountry;
+  if (typeof fromMetadata === 'string' && fromMetadata.trim().length === 2) {
+    return { country: fromMetadata.trim().toUpperCase(), countrySource: 'metadata' };
+  }
+
+  const vatId = findVatId(rawText);
+  if (vatId) return { country: vatId.country, countrySource: 'vatId' };
+
+  const fromCurrency = CURRENCY_COUNTRIES[invoice.currency?.toUpperCase() ?? ''];
+  if (fromCurrency) return { country: fromCurrency, countrySource: 'currency' };
+
+  return { country: options.defaultCountry ?? DEFAULT_VAT_COUNTRY, countrySource: 'default' };
+}
+
+/** Rates stated next to a VAT keyword, e.g. "MwSt. 7%" or "19 % USt". */
+export function findStatedVatRates(rawText: string): number[] {
+  const rates = new Set<number>();
+  const keyword = '(?:mwst|ust|vat|tva|iva|btw)';
+  const patterns = [
+    new RegExp(`(\\d{1,2}(?:[.,]\\d{1,2})?)\\s?%\\s*${keyword}`, 'gi'),
+    new RegExp(`${keyword}\\.?\\s*(\\d{1,2}(?:[.,]\\d{1,2})?)\\s?%`, 'gi'),
+  ];
+  for (const pattern of patterns) {
+    for (const match of rawText.matchAll(pattern)) {
+      const rate = normalizeTaxRate(Number(match[1]?.replace(',', '.')) / 100);
+      if (rate !== undefined) rates.add(rate);
+    }
+  }
+  return [...rates];
+}
+
+/** Parses "1.234,50", "1,234.50" or "2380.00"; returns undefined for anything else. */
+export function parseAmount(text: string): number | undefined {
+  const digits = text.replace(/[.,]+$/, '');
+  if (!/^\d[\d.,]*$/.test(digits)) return undefined;
+
+  // A separator followed by one or two digits is decimal; any other separator groups thousands.
+  const decimals = digits.match(/[.,](\d{1,2})$/)?.[1];
+  const integerPart = decimals !== undefined ? digits.slice(0, -(decimals.length + 1)) : digits;
+  const value = Number(integerPart.replace(/[.,]/g, '') + (decimals !== undefined ? `.${decimals}` : ''));
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Gross total printed in the raw text, e.g. "Total: 2380.00 EUR" or "Gesamtbetrag: 1.234,50".
+ * Net and subtotals ("Net Total", "Netto-Summe", "Sub Total") are skipped.
+ */
+export function findStatedGrossTotal(rawText: string): number | undefined {
+  const match = rawText.match(
+    /(?<!\b(?:net|netto|sub)[\s-]*)\b(?:total|gesamt(?:betrag)?|rechnungsbetrag|summe|brutto)\s*:?\s*(?:EUR|CHF|USD|GBP|€|\$|£)?\s*(\d[\d.,]*)/i,
+  );
+  const value = match?.[1] !== undefined ? parseAmount(match[1]) : undefined;
+  return value !== undefined && value > 0 ? value : undefined;
+}
+
+/**
+ * Splits a VAT-inclusive invoice into net and tax per rate. Line rates come from the line
+ * itself, then the invoice's stated `metadata.taxRate`, a single rate stated in the raw text,
+ * and finally the country's standard rate. Line totals are only used when they add up to the
+ * gross total; otherwise the whole gross amount is taxed at the invoice-level rate.
+ */
+export function computeVatBreakdown(
+  invoice: NormalizedInvoice,
+  rawText: string,
+  grossAmount: number,
+  options: VatOptions = {},
+): VatBreakdown {
+  const rates = options.rates ?? DEFAULT_VAT_RATES;
+  const { country, countrySource } = resolveVendorCountry(invoice, rawText, options);
+  const countryRates = rates[country] ?? rates[options.defaultCountry ?? DEFAULT_VAT_COUNTRY] ?? {};
+
+  const invoiceRate = normalizeTaxRate(invoice.metadata?.taxRate);
+  const statedRates = findStatedVatRates(rawText);
+  const [fallbackRate, fallbackSource]: [number, VatRateSource] =
+    invoiceRate !== undefined
+      ? [invoiceRate, 'invoice']
+      : statedRates.length === 1 && statedRates[0] !== undefined
+        ? [statedRates[0], 'rawText']
+        : [countryRates.standard ?? 0, 'country'];
+
+  const lineTotal = invoice.lineItems.reduce((sum, li) => sum + li.quantity * li.unitPrice, 0);
+  const useLines =
+    invoice.lineItems.length > 0 && Math.abs(lineTotal - grossAmount) <= 0.01 * Math.max(grossAmount, 1);
+
+  const groups = new Map<string, VatRateGroup>();
+  const addToGroup = (rate: number, source: VatRateSource, gross: number, lineItemId?: string) => {
+    const key = `${rate}:${source}`;
+    const group = groups.get(key) ?? {
+      rate,
+      source,
+      lineItemIds: [],
+      grossAmount: 0,
+      netAmount: 0,
+      taxAmount: 0,
+    };
+    group.grossAmount += gross;
+    if (lineItemId !== undefined) group.lineItemIds.push(lineItemId);
+    groups.set(key, group);
+  };
+
+  if (useLines) {
+    for (const item of invoice.lineItems) {
+      const lineRate = normalizeTaxRate(item.taxRate);
+      const categoryRate = item.taxCategory !== undefined ? countryRates[item.taxCategory] : undefined;
+      const gross = item.quantity * item.unitPrice;
+      if (lineRate !== undefined) {
+        addToGroup(lineRate, 'line', gross, item.id);
+      } else if (categoryRate !== undefined) {
+        addToGroup(categoryRate, 'lineCategory', gross, item.id);
+      } else {
+        addToGroup(fallbackRate, fallbackSource, gross, item.id);
+      }
+    }
+  } else {
+    addToGroup(fallbackRate, fallbackSource, grossAmount);
+  }
+
+  const result = [...groups.values()].map((group) => {
+    const net = group.grossAmount / (1 + group.rate);
+    return {
+      ...group,
+      grossAmount: roundCents(group.grossAmount),
+      netAmount: roundCents(net),
+      taxAmount: roundCents(group.grossAmount - net),
+    };
+  });
+
+  const netAmount = roundCents(result.reduce((sum, g) => sum + g.netAmount, 0));
+  return {
+    country,
+    countrySource,
+    groups: result,
+    grossAmount: roundCents(grossAmount),
+    netAmount,
+    taxAmount: roundCents(grossAmount - netAmount),
+  };
+}
+
+export function describeVatBreakdown(breakdown: VatBreakdown): string {
+  const parts = breakdown.groups.map((group) => {
+    const origin =
+      group.source === 'country' || group.source === 'lineCategory'
+        ? `${breakdown.country} rate`
+        : group.source === 'line'
+          ? 'line rate'
+          : group.source === 'invoice'
+            ? 'stated invoice rate'
+            : 'rate stated in raw text';
+    return `${formatRate(group.rate)} (${origin}) on ${group.grossAmount.toFixed(2)}`;
+  });
+  return `VAT ${parts.join(' + ')}; net ${breakdown.netAmount.toFixed(2)}, tax ${breakdown.taxAmount.toFixed(2)}, gross ${breakdown.grossAmount.toFixed(2)}.`;
+}
@@ -0,0 +1,188 @@
+import type { LearnedMemoryContent, LearnedMemoryRecord } from '../models/memory';
+import type { NormalizedInvoice } from '../models/pipeline';
+import type { Vendor, VendorIdentity } from '../models/vendor';
+import type { MemoryHistoryRepository } from '../memory/memoryHistoryRepository';
+import type { MemoryRepository } from '../memory/memoryRepository';
+import type { VendorRepository } from '../memory/vendorRepository';
+import { normalizeVendorName } from '../memory/vendorRepository';
+import type { ConfidenceModelConfig } from './confidence';
+import { estimateConfidence, seedEvidenceCounts } from './confidence';
+import { deleteMemoryWithHistory, saveMemoryWithHistory } from './history';
+import { findVatId } from './vat';
+
+export interface VendorMergeResult {
+  vendor: Vendor;
+  /** Source memories re-keyed to the target vendor unchanged. */
+  movedMemoryIds: string[];
+  /** Target memories that absorbed the evidence of a source memory for the same field. */
+  mergedMemoryIds: string[];
+  /** Source memories deleted after their evidence was folded into a target memory. */
+  removedMemoryIds: string[];
+}
+
+export interface VendorMergeOptions {
+  confidenceModel?: ConfidenceModelConfig | undefined;
+  /** Records a `merge` history event for every memory the merge changes or removes. */
+  history?: MemoryHistoryRepository | undefined;
+}
+
+const IBAN_PATTERN = /\bIBAN[:\s]*([A-Z]{2}\d{2}(?:\s?[A-Z0-9]{4}){2,7}(?:\s?[A-Z0-9]{1,3})?)\b/i;
+
+function stringMetadata(invoice: NormalizedInvoice, key: string): string | undefined {
+  const value = invoice.metadata?.[key];
+  return typeof value === 'string' && value.trim().length > 0 ? value.trim() : undefined;
+}
+
+/** Lines after the vendor name that still belong to its address block. */
+const VENDOR_BLOCK_LINES = 4;
+
+/**
+ * The vendor's address block: the first line naming the vendor and the lines after it, up to
+ * a blank line. Undefined when the raw text does not name the vendor.
+ */
+export function findVendorBlock(rawText: string, vendorName: string): string | undefined {
+  const name = normalizeVendorName(vendorName);
+  if (!name) return undefined;
+
+  const lines = rawText.split(/\r?\n/);
+  const start = lines.findIndex((line) => ` ${normalizeVendorName(line)} `.includes(` ${name} `));
+  if (start < 0) return undefined;
+
+  const block: string[] = [];
+  for (const line of lines.slice(start, start + 1 + VENDOR_BLOCK_LINES)) {
+    if (block.length > 0 && line.trim().length === 0) break;
+    block.push(line);
+  }
+  return block.join('\n');
+}
+
+/**
+ * Vendor name plus VAT ID and IBAN from invoice metadata, falling back to the raw text. A VAT
+ * ID is only read from the vendor's address block, since invoices also print the buyer's.
+ */
+export function findVendorIdentity(invoice: NormalizedInvoice, rawText: string): VendorIdentity {
+  const metadataVatId = stringMetadata(invoice, 'vatId');
+  const metadataIban = stringMetadata(invoice, 'iban');
+  const block = metadataVatId === undefined ? findVendorBlock(rawText, invoice.vendorName) : undefined;
+  const vatId = metadataVatId ?? (block !== undefined ? findVatId(block)?.vatId : undefined);
+  const iban = metadataIban ?? rawText.match(IBAN_PATTERN)?.[1];
+
+  const fromRawText: Array<'vatId' | 'iban'> = [];
+  if (vatId !== undefined && metadataVatId === undefined) fromRawText.push('vatId');
+  if (iban !== undefined && metadataIban === undefined) fromRawText.push('iban');
+  return {
+    name: invoice.vendorName,
+    ...(vatId !== undefined ? { vatId } : {}),
+    ...(iban !== undefined ? { iban } : {}),
+    ...(fromRawText.length > 0 ? { fromRawText } : {}),
+  };
+}
+
+function memoryKey(content: LearnedMemoryContent): string | undefined {
+  if (content.field === undefined || content.category === 'resolution') return undefined;
+  const lineItemDescription = content.metadata?.lineItemDescription;
+  return [
+    content.category,
+    content.field,
+    typeof lineItemDescription === 'string' ? lineItemDescription : '',
+  ].join('|');
+}
+
+function parseContent(record: LearnedMemoryRecord): Partial<LearnedMemoryContent> {
+  try {
+    return JSON.parse(record.memory.content) as Partial<LearnedMemoryContent>;
+  } catch {
+    return { ...record.content };
+  }
+}
+
+/**
+ * Merges `sourceId` into `targetId`. Source memories move to the target vendor; where both
+ * vendors learned the same field, approvals, rejections and usage are added up on the target
+ * memory and the source copy is removed. The merge runs in one transaction, so a failure
+ * leaves both vendors and their memories as they were.
+ */
+export function mergeVendors(
+  vendors: VendorRepository,
+  memories: MemoryRepository,
+  sourceId: string,
+  targetId: string,
+  options: VendorMergeOptions = {},
+): VendorMergeResult {
+  const { confidenceModel = {}, history } = options;
+  return memories.transaction(() => {
+    const source = vendors.getVendor(sourceId);
+    const target = vendors.getVendor(targetId);
+    if (!source || !target) {
+      throw new Error(`Cannot merge vendors: unknown vendor id ${!source ? sourceId : targetId}.`);
+    }
+    if (source.id === target.id) {
+      throw new Error(`Cannot merge vendor ${source.id} into itself.`);
+    }
+
+    const targetByKey = new Map<string, LearnedMemoryRecord>();
+    for (const record of memories.findLearnedMemories({ vendorId: target.id })) {
+      const key = memoryKey(record.content);
+      if (key !== undefined && !targetByKey.has(key)) targetByKey.set(key, record);
+    }
+
+    const now = new Date();
+    const result: Omit<VendorMergeResult, 'vendor'> = {
+      movedMemoryIds: [],
+      mergedMemoryIds: [],
+      removedMemoryIds: [],
+    };
+
+    for (const record of memories.findLearnedMemories({ vendorId: source.id })) {
+      const key = memoryKey(record.content);
+      const counterpart = key !== undefined ? targetByKey.get(key) : undefined;
+      const sourceContent = parseContent(record);
+
+      if (!counterpart) {
+        saveMemoryWithHistory(
+          memories,
+          history,
+          {
+            ...record.memory,
+            content: JSON.stringify({ ...sourceContent, vendorId: target.id, vendorName: target.canonicalName }),
+            updatedAt: now,
+          },
+          'merge',
+        );
+        result.movedMemoryIds.push(record.memory.id);
+        continue;
+      }
+
+      const targetContent = parseContent(counterpart);
+      const sourceCounts = seedEvidenceCounts(sourceContent);
+      const targetCounts = seedEvidenceCounts(targetContent);
+      const approvalCount = sourceCounts.approvals + targetCounts.approvals;
+      const rejectionCount = sourceCounts.rejections + targetCounts.rejections;
+      const category = targetContent.category ?? counterpart.content.category;
+      const estimate = estimateConfidence(approvalCount, rejectionCount, category, confidenceModel);
+
+      const merged: Partial<LearnedMemoryContent> = {
+        ...targetContent,
+        confidence: Number(estimate.mean.toFixed(4)),
+        usageCount: (targetContent.usageCount ?? 0) + (sourceContent.usageCount ?? 0),
+        approvalCount,
+        rejectionCount,
+      };
+      const updated = {
+        ...counterpart.memory,
+        content: JSON.stringify(merged),
+        updatedAt: now,
+      };
+      saveMemoryWithHistory(memories, history, updated, 'merge');
+      targetByKey.set(key!, { memory: updated, content: { ...counterpart.content, ...merged } });
+      deleteMemoryWithHistory(memories, history, record.memory.id, 'merge');
+
+      if (!result.mergedMemoryIds.includes(counterpart.memory.id)) {
+        result.mergedMemoryIds.push(counterpart.memory.id);
+      }
+      result.removedMemoryIds.push(record.memory.id);
+    }
+
+    return { vendor: vendors.merge(source.id, target.id), ...result };
+  });
+}
@@ -0,0 +1,271 @@
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import type { SqliteDatabase } from './db';
+import type { AuditEventType } from '../models/audit';
+import type { AuditTrailEntry } from '../models/pipeline';
+
+/** `previousHash` of the first entry in the log. */
+export const AUDIT_LOG_GENESIS_HASH = '0'.repeat(64);
+
+export interface AuditRun {
+  runId: string;
+  invoiceId: string;
+  vendorName: string;
+  vendorId?: string | undefined;
+  entries: AuditTrailEntry[];
+}
+
+export interface AuditLogEntry extends AuditTrailEntry {
+  id: string;
+  /** Position in the log, which is also the order of the hash chain. */
+  sequence: number;
+  runId: string;
+  invoiceId: string;
+  vendorName: string;
+  vendorId?: string | undefined;
+  /** Memories referenced anywhere in `details`. */
+  memoryIds: string[];
+  previousHash: string;
+  hash: string;
+}
+
+export interface AuditLogQuery {
+  runId?: string | undefined;
+  invoiceId?: string | undefined;
+  vendorName?: string | undefined;
+  vendorId?: string | undefined;
+  memoryId?: string | undefined;
+  step?: AuditEventType | undefined;
+  /** Inclusive bounds on the entry's timestamp. */
+  from?: Date | undefined;
+  to?: Date | undefined;
+  limit?: number | undefined;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  entriesChecked: number;
+  /** First entry whose hash or link to its predecessor does not match. */
+  brokenAt?: { id: string; sequence: number; reason: string } | undefined;
+}
+
+export interface AuditLogRepository {
+  /** Appends the run's trail in order, chaining each entry to the previous one in the log. */
+  appendRun(run: AuditRun): AuditLogEntry[];
+  /** Matching entries in log order. */
+  findEntries(query: AuditLogQuery): AuditLogEntry[];
+  getRun(runId: string): AuditLogEntry[];
+  verifyChain(): AuditChainVerification;
+}
+
+interface AuditLogRow {
+  sequence: number;
+  id: string;
+  runId: string;
+  invoiceId: string;
+  vendorName: string;
+  vendorId: string | null;
+  step: AuditEventType;
+  timestamp: string;
+  details: string;
+  memoryIds: string;
+  previousHash: string;
+  hash: string;
+}
+
+const SELECT_COLUMNS = `sequence, id, run_id as runId, invoice_id as invoiceId, vendor_name as vendorName,
+            vendor_id as vendorId, step, timestamp, details,
+            (SELECT json_group_array(memory_id) FROM audit_log_memories m WHERE m.entry_id = audit_log.id)
+              as memoryIds,
+            previous_hash as previousHash, hash`;
+
+/** Hash over the stored column values, so verification can recompute it from a row. */
+function entryHash(
+  previousHash: string,
+  entry: Pick<AuditLogRow, 'id' | 'runId' | 'invoiceId' | 'vendorName' | 'step' | 'timestamp' | 'details'> & {
+    vendorId: string | null;
+  },
+): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        previousHash,
+        entry.id,
+        entry.runId,
+        entry.invoiceId,
+        entry.vendorName,
+        entry.vendorId,
+        entry.step,
+        entry.timestamp,
+        entry.details,
+      ]),
+    )
+    .digest('hex');
+}
+
+/** Values of every `memoryId` / `...MemoryId` key, at any depth. */
+function referencedMemoryIds(value: unknown, found = new Set<string>()): Set<string> {
+  if (Array.isArray(value)) {
+    for (const item of value) referencedMemoryIds(item, found);
+  } else if (value !== null && typeof value === 'object') {
+    for (const [key, nested] of Object.entries(value)) {
+      if ((key === 'memoryId' || key.endsWith('MemoryId')) && typeof nested === 'string') {
+        found.add(nested);
+      } else {
+        referencedMemoryIds(nested, found);
+      }
+    }
+  }
+  return found;
+}
+
+function toEntry(row: AuditLogRow): AuditLogEntry {
+  return {
+    id: row.id,
+    sequence: row.sequence,
+    runId: row.runId,
+    invoiceId: row.invoiceId,
+    vendorName: row.vendorName,
+    ...(row.vendorId !== null ? { vendorId: row.vendorId } : {}),
+    step: row.step,
+    timestamp: new Date(row.timestamp),
+    details: JSON.parse(row.details) as Record<string, unknown>,
+    memoryIds: JSON.parse(row.memoryIds) as string[],
+    previousHash: row.previousHash,
+    hash: row.hash,
+  };
+}
+
+/** Append-only: triggers on `audit_log` reject updates and deletes. */
+export function createAuditLogRepository(db: SqliteDatabase): AuditLogRepository {
+  const insertStmt = db.prepare(`
+    INSERT INTO audit_log (
+      id, run_id, invoice_id, vendor_name, vendor_id, step, timestamp, details, previous_hash, hash
+    )
+    VALUES (
+      @id, @run_id, @invoice_id, @vendor_name, @vendor_id, @step, @timestamp, @details, @previous_hash, @hash
+    )
+  `);
+
+  const insertMemoryStmt = db.prepare(
+    'INSERT OR IGNORE INTO audit_log_memories (entry_id, memory_id) VALUES (?, ?)',
+  );
+
+  const lastHashStmt = db.prepare('SELECT hash FROM audit_log ORDER BY sequence DESC LIMIT 1');
+  const allStmt = db.prepare(`SELECT ${SELECT_COLUMNS} FROM audit_log ORDER BY sequence`);
+
+  function findEntries(query: AuditLogQuery): AuditLogEntry[] {
+    const clauses: string[] = [];
+    const params: Array<string | number> = [];
+
+    if (query.runId !== undefined) {
+      clauses.push('run_id = ?');
+      params.push(query.runId);
+    }
+    if (query.invoiceId !== undefined) {
+      clauses.push('invoice_id = ?');
+      params.push(query.invoiceId);
+    }
+    if (query.vendorName !== undefined) {
+      clauses.push('vendor_name = ? COLLATE NOCASE');
+      params.push(query.vendorName);
+    }
+    if (query.vendorId !== undefined) {
+      clauses.push('vendor_id = ?');
+      params.push(query.vendorId);
+    }
+    if (query.memoryId !== undefined) {
+      clauses.push('id IN (SELECT entry_id FROM audit_log_memories WHERE memory_id = ?)');
+      params.push(query.memoryId);
+    }
+    if (query.step !== undefined) {
+      clauses.push('step = ?');
+      params.push(query.step);
+    }
+    if (query.from !== undefined) {
+      clauses.push('timestamp >= ?');
+      params.push(query.from.toISOString());
+    }
+    if (query.to !== undefined) {
+      clauses.push('timestamp <= ?');
+      params.push(query.to.toISOString());
+    }
+    params.push(query.limit ?? -1);
+
+    const rows = db
+      .prepare(
+        `SELECT ${SELECT_COLUMNS} FROM audit_log
+         ${clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''}
+         ORDER BY sequence LIMIT ?`,
+      )
+      .all(...params) as AuditLogRow[];
+    return rows.map(toEntry);
+  }
+
+  const appendTransaction = db.transaction((run: AuditRun): void => {
+    let previousHash =
+      (lastHashStmt.get() as { hash: string } | undefined)?.hash ?? AUDIT_LOG_GENESIS_HASH;
+
+    for (const trailEntry of run.entries) {
+      const row = {
+        id: uuidv4(),
+        runId: run.runId,
+        invoiceId: run.invoiceId,
+        vendorName: run.vendorName,
+        vendorId: run.vendorId ?? null,
+        step: trailEntry.step,
+        timestamp: trailEntry.timestamp.toISOString(),
+        details: JSON.stringify(trailEntry.details),
+      };
+      const hash = entryHash(previousHash, row);
+      insertStmt.run({
+        id: row.id,
+        run_id: row.runId,
+        invoice_id: row.invoiceId,
+        vendor_name: row.vendorName,
+        vendor_id: row.vendorId,
+        step: row.step,
+        timestamp: row.timestamp,
+        details: row.details,
+        previous_hash: previousHash,
+        hash,
+      });
+      for (const memoryId of referencedMemoryIds(trailEntry.details)) {
+        insertMemoryStmt.run(row.id, memoryId);
+      }
+      previousHash = hash;
+    }
+  });
+
+  return {
+    appendRun(run: AuditRun) {
+      appendTransaction(run);
+      return findEntries({ runId: run.runId });
+    },
+    findEntries,
+    getRun(runId: string) {
+      return findEntries({ runId });
+    },
+    verifyChain() {
+      const rows = allStmt.all() as AuditLogRow[];
+      let expectedPrevious = AUDIT_LOG_GENESIS_HASH;
+
+      for (const [index, row] of rows.entries()) {
+        const brokenAt = (reason: string) => ({
+          valid: false,
+          entriesChecked: index + 1,
+          brokenAt: { id: row.id, sequence: row.sequence, reason },
+        });
+        if (row.previousHash !== expectedPrevious) {
+          return brokenAt('Link to the previous entry does not match; an entry was removed or reordered.');
+        }
+        if (entryHash(row.previousHash, row) !== row.hash) {
+          return brokenAt('Hash does not match the stored entry; the entry was modified.');
+        }
+        expectedPrevious = row.hash;
+      }
+
+      return { valid: true, entriesChecked: rows.length };
+    },
+  };
+}
@@ -1,4 +1,5 @@
 import Database = require('better-sqlite3');
+import { runMigrations } from './migrations';
 
 export interface SqliteStatement<TParams extends any[] = any[], TRow = any> {
   run(...params: TParams): { changes: number; lastInsertRowid: number | bigint };
@@ -8,12 +9,30 @@ export interface SqliteStatement<TParams extends any[] = any[], TRow = any> {
 
 export interface SqliteDatabase {
   prepare<TParams extends any[] = any[], TRow = any>(sql: string): SqliteStatement<TParams, TRow>;
+  exec(source: string): void;
+  transaction<TArgs extends any[], TResult>(fn: (...args: TArgs) => TResult): (...args: TArgs) => TResult;
   pragma(source: string): unknown;
   close(): void;
 }
 
-export function openMemoryDatabase(filename = 'data/memory.db'): SqliteDatabase {
+export interface OpenMemoryDatabaseOptions {
+  /** Apply pending schema migrations on open (default true). */
+  migrate?: boolean;
+}
+
+export function openMemoryDatabase(
+  filename = 'data/memory.db',
+  options: OpenMemoryDatabaseOptions = {},
+): SqliteDatabase {
   const db = new (Database as any)(filename) as SqliteDatabase;
   db.pragma('journal_mode = WAL');
+  if (options.migrate ?? true) {
+    try {
+      runMigrations(db);
+    } catch (error) {
+      db.close();
+      throw error;
+    }
+  }
   return db;
 }
@@ -0,0 +1,110 @@
+export interface EmbeddingProvider {
+  /** Stable identifier stored next to each vector so incompatible embeddings are never compared. */
+  id: string;
+  dimensions: number;
+  embed(text: string): number[];
+}
+
+export interface HashedNgramEmbeddingOptions {
+  dimensions?: number;
+  ngramSize?: number;
+  /** Extra words emitted for a term, e.g. German invoice vocabulary mapped to English. */
+  termAliases?: Record<string, string>;
+}
+
+export const DEFAULT_TERM_ALIASES: Record<string, string> = {
+  fracht: 'freight',
+  seefracht: 'sea freight',
+  luftfracht: 'air freight',
+  versand: 'shipping',
+  versandkosten: 'shipping charges',
+  lieferung: 'delivery',
+  teillieferung: 'partial delivery',
+  rechnung: 'invoice',
+  leistungsdatum: 'service date',
+  bestellung: 'order',
+  gebühr: 'charges',
+  gebühren: 'charges',
+  kosten: 'charges',
+  mwst: 'vat',
+  skonto: 'discount',
+};
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i += 1) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic, offline embedding: whole words plus character n-grams of each word are
+ * hashed into a fixed number of buckets (signed, to keep collisions unbiased) and the
+ * vector is L2-normalised. A small alias table lets German terms like "Seefracht" share
+ * features with their English counterparts.
+ */
+export function createHashedNgramEmbeddingProvider(
+  options: HashedNgramEmbeddingOptions = {},
+): EmbeddingProvider {
+  const dimensions = options.dimensions ?? 256;
+  const ngramSize = options.ngramSize ?? 3;
+  const termAliases = options.termAliases ?? DEFAULT_TERM_ALIASES;
+
+  return {
+    id: `hashed-ngram-${ngramSize}-${dimensions}`,
+    dimensions,
+    embed(text: string) {
+      const vector = new Array<number>(dimensions).fill(0);
+      const words = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).flatMap((word) => {
+        const alias = termAliases[word];
+        return alias ? [word, ...alias.split(' ')] : [word];
+      });
+
+      const addFeature = (feature: string, weight: number) => {
+        const hash = fnv1a(feature);
+        const index = hash % dimensions;
+        const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+        vector[index] = (vector[index] ?? 0) + sign * weight;
+      };
+
+      for (const word of words) {
+        addFeature(`w:${word}`, 1);
+        const padded = ` ${word} `;
+        for (let i = 0; i + ngramSize <= padded.length; i += 1) {
+          addFeature(`g:${padded.slice(i, i + ngramSize)}`, 0.5);
+        }
+      }
+
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+      return norm > 0 ? vector.map((v) => v / norm) : vector;
+    },
+  };
+}
+
+export const defaultEmbeddingProvider = createHashedNgramEmbeddingProvider();
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    const x = a[i] ?? 0;
+    const y = b[i] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+}
+
+export function encodeEmbedding(embedding: number[]): Buffer {
+  return Buffer.from(new Float32Array(embedding).buffer);
+}
+
+export function decodeEmbedding(blob: Buffer): number[] {
+  return Array.from(new Float32Array(blob.buffer, blob.byteOffset, blob.byteLength / 4));
+}
@@ -0,0 +1,111 @@
+import type { SqliteDatabase } from './db';
+import type { NormalizedInvoice, ProposedCorrection } from '../models/pipeline';
+
+/** Input and proposals of a processed invoice, kept so reviewers can send feedback later. */
+export interface EngineRun {
+  runId: string;
+  invoice: NormalizedInvoice;
+  rawText: string;
+  proposedCorrections: ProposedCorrection[];
+  requiresHumanReview: boolean;
+  createdAt: Date;
+  /** Run that learned from the reviewer's feedback on this one. */
+  feedbackRunId?: string | undefined;
+  feedbackAt?: Date | undefined;
+}
+
+export type NewEngineRun = Omit<EngineRun, 'createdAt' | 'feedbackRunId' | 'feedbackAt'> & {
+  createdAt?: Date | undefined;
+};
+
+export interface EngineRunRepository {
+  saveRun(run: NewEngineRun): EngineRun;
+  getRun(runId: string): EngineRun | undefined;
+  /** Marks the run as reviewed; false when feedback was already recorded or the run is unknown. */
+  recordFeedback(runId: string, feedbackRunId: string, at?: Date): boolean;
+}
+
+interface EngineRunRow {
+  runId: string;
+  invoice: string;
+  rawText: string;
+  proposedCorrections: string;
+  requiresHumanReview: number;
+  createdAt: string;
+  feedbackRunId: string | null;
+  feedbackAt: string | null;
+}
+
+const SELECT_COLUMNS = `run_id as runId, invoice, raw_text as rawText,
+            proposed_corrections as proposedCorrections, requires_human_review as requiresHumanReview,
+            created_at as createdAt, feedback_run_id as feedbackRunId, feedback_at as feedbackAt`;
+
+/** JSON turns the invoice's dates into ISO strings; turn them back. */
+function reviveInvoice(json: string): NormalizedInvoice {
+  const parsed = JSON.parse(json) as NormalizedInvoice & {
+    issuedAt: string;
+    dueAt?: string;
+    serviceDate?: string;
+  };
+  return {
+    ...parsed,
+    issuedAt: new Date(parsed.issuedAt),
+    ...(parsed.dueAt !== undefined ? { dueAt: new Date(parsed.dueAt) } : {}),
+    ...(parsed.serviceDate !== undefined ? { serviceDate: new Date(parsed.serviceDate) } : {}),
+  };
+}
+
+function toRun(row: EngineRunRow): EngineRun {
+  return {
+    runId: row.runId,
+    invoice: reviveInvoice(row.invoice),
+    rawText: row.rawText,
+    proposedCorrections: JSON.parse(row.proposedCorrections) as ProposedCorrection[],
+    requiresHumanReview: row.requiresHumanReview === 1,
+    createdAt: new Date(row.createdAt),
+    ...(row.feedbackRunId !== null ? { feedbackRunId: row.feedbackRunId } : {}),
+    ...(row.feedbackAt !== null ? { feedbackAt: new Date(row.feedbackAt) } : {}),
+  };
+}
+
+export function createEngineRunRepository(db: SqliteDatabase): EngineRunRepository {
+  const insertStmt = db.prepare(`
+    INSERT INTO engine_runs (
+      run_id, invoice_id, invoice, raw_text, proposed_corrections, requires_human_review, created_at
+    )
+    VALUES (
+      @run_id, @invoice_id, @invoice, @raw_text, @proposed_corrections, @requires_human_review, @created_at
+    )
+  `);
+
+  const byIdStmt = db.prepare(`SELECT ${SELECT_COLUMNS} FROM engine_runs WHERE run_id = ?`);
+
+  const feedbackStmt = db.prepare(`
+    UPDATE engine_runs SET feedback_run_id = ?, feedback_at = ?
+    WHERE run_id = ? AND feedback_run_id IS NULL
+  `);
+
+  function getRun(runId: string): EngineRun | undefined {
+    const row = byIdStmt.get(runId) as EngineRunRow | undefined;
+    return row ? toRun(row) : undefined;
+  }
+
+  return {
+    saveRun(run: NewEngineRun) {
+      insertStmt.run({
+        run_id: run.runId,
+        invoice_id: run.invoice.id,
+        invoice: JSON.stringify(run.invoice),
+        raw_text: run.rawText,
+        proposed_corrections: JSON.stringify(run.proposedCorrections),
+        requires_human_review: run.requiresHumanReview ? 1 : 0,
+        created_at: (run.createdAt ?? new Date()).toISOString(),
+      });
+      return getRun(run.runId)!;
+    },
+    getRun,
+    recordFeedback(runId: string, feedbackRunId: string, at = new Date()) {
+      return feedbackStmt.run(feedbackRunId, at.toISOString(), runId).changes === 1;
+    },
+  };
+}
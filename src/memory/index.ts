@@ -1,2 +1,12 @@
 export * from './db';
+export * from './migrations';
+export * from './embeddings';
 export * from './memoryRepository';
+export * from './poLedgerRepository';
+export * from './processedInvoiceRepository';
+export * from './vendorRepository';
+export * from './provenanceRepository';
+export * from './memoryHistoryRepository';
+export * from './auditLogRepository';
+export * from './engineRunRepository';
+export * from './reviewQueueRepository';
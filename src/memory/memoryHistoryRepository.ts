@@ -0,0 +1,217 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { SqliteDatabase } from './db';
+import type { Memory } from '../models/memory';
+
+/**
+ * `learn` events come from feedback; `revert` and `rollback` events undo earlier ones.
+ * `decay`, `merge`, `edit` and `delete` record confidence decay, vendor merges and manual
+ * changes, so every write to a memory is in its history.
+ */
+export type MemoryEventType = 'learn' | 'revert' | 'rollback' | 'decay' | 'merge' | 'edit' | 'delete';
+
+/** Full state of a memory row apart from its embedding, which restores leave untouched. */
+export interface MemorySnapshot {
+  kind: Memory['kind'];
+  content: string;
+  source?: string | undefined;
+  createdAt: Date;
+  updatedAt: Date;
+  lastUsedAt?: Date | undefined;
+}
+
+export interface MemoryEvent {
+  id: string;
+  /** Position in the log; orders events recorded within the same millisecond. */
+  sequence: number;
+  memoryId: string;
+  type: MemoryEventType;
+  invoiceId?: string | undefined;
+  feedbackEventId?: string | undefined;
+  /** The `learn` event a `revert` event undoes. */
+  revertsEventId?: string | undefined;
+  /** Missing when the event created the memory. */
+  before?: MemorySnapshot | undefined;
+  /** Missing when the event deleted the memory. */
+  after?: MemorySnapshot | undefined;
+  recordedAt: Date;
+}
+
+export type NewMemoryEvent = Omit<MemoryEvent, 'id' | 'sequence' | 'recordedAt'> & {
+  recordedAt?: Date | undefined;
+};
+
+export interface MemoryEventFilter {
+  memoryId?: string | undefined;
+  type?: MemoryEventType | undefined;
+  invoiceId?: string | undefined;
+  feedbackEventId?: string | undefined;
+  revertsEventId?: string | undefined;
+  /** Only events recorded at or before this time. */
+  until?: Date | undefined;
+}
+
+export interface MemoryHistoryRepository {
+  appendEvent(event: NewMemoryEvent): MemoryEvent;
+  getEvent(id: string): MemoryEvent | undefined;
+  /** Matching events in log order. */
+  findEvents(filter: MemoryEventFilter): MemoryEvent[];
+  listMemoryIds(): string[];
+}
+
+interface MemoryEventRow {
+  sequence: number;
+  id: string;
+  memoryId: string;
+  type: MemoryEventType;
+  invoiceId: string | null;
+  feedbackEventId: string | null;
+  revertsEventId: string | null;
+  beforeState: string | null;
+  afterState: string | null;
+  recordedAt: string;
+}
+
+const SELECT_COLUMNS = `sequence, id, memory_id as memoryId, type, invoice_id as invoiceId,
+            feedback_event_id as feedbackEventId, reverts_event_id as revertsEventId,
+            before_state as beforeState, after_state as afterState, recorded_at as recordedAt`;
+
+export function snapshotOf(memory: Memory): MemorySnapshot {
+  return {
+    kind: memory.kind,
+    content: memory.content,
+    ...(memory.source !== undefined ? { source: memory.source } : {}),
+    createdAt: memory.createdAt,
+    updatedAt: memory.updatedAt,
+    ...(memory.lastUsedAt !== undefined ? { lastUsedAt: memory.lastUsedAt } : {}),
+  };
+}
+
+export function memoryFromSnapshot(memoryId: string, snapshot: MemorySnapshot): Memory {
+  return { id: memoryId, ...snapshot };
+}
+
+function serializeSnapshot(snapshot: MemorySnapshot | undefined): string | null {
+  if (!snapshot) return null;
+  return JSON.stringify({
+    ...snapshot,
+    createdAt: snapshot.createdAt.toISOString(),
+    updatedAt: snapshot.updatedAt.toISOString(),
+    ...(snapshot.lastUsedAt ? { lastUsedAt: snapshot.lastUsedAt.toISOString() } : {}),
+  });
+}
+
+function parseSnapshot(value: string | null): MemorySnapshot | undefined {
+  if (value === null) return undefined;
+  const parsed = JSON.parse(value) as Omit<MemorySnapshot, 'createdAt' | 'updatedAt' | 'lastUsedAt'> & {
+    createdAt: string;
+    updatedAt: string;
+    lastUsedAt?: string;
+  };
+  return {
+    kind: parsed.kind,
+    content: parsed.content,
+    ...(parsed.source !== undefined ? { source: parsed.source } : {}),
+    createdAt: new Date(parsed.createdAt),
+    updatedAt: new Date(parsed.updatedAt),
+    ...(parsed.lastUsedAt !== undefined ? { lastUsedAt: new Date(parsed.lastUsedAt) } : {}),
+  };
+}
+
+function toEvent(row: MemoryEventRow): MemoryEvent {
+  const before = parseSnapshot(row.beforeState);
+  const after = parseSnapshot(row.afterState);
+  return {
+    id: row.id,
+    sequence: row.sequence,
+    memoryId: row.memoryId,
+    type: row.type,
+    ...(row.invoiceId !== null ? { invoiceId: row.invoiceId } : {}),
+    ...(row.feedbackEventId !== null ? { feedbackEventId: row.feedbackEventId } : {}),
+    ...(row.revertsEventId !== null ? { revertsEventId: row.revertsEventId } : {}),
+    ...(before ? { before } : {}),
+    ...(after ? { after } : {}),
+    recordedAt: new Date(row.recordedAt),
+  };
+}
+
+/** Append-only: events are never updated or deleted, and undoing one appends another. */
+export function createMemoryHistoryRepository(db: SqliteDatabase): MemoryHistoryRepository {
+  const insertStmt = db.prepare(`
+    INSERT INTO memory_events (
+      id, memory_id, type, invoice_id, feedback_event_id, reverts_event_id,
+      before_state, after_state, recorded_at
+    )
+    VALUES (
+      @id, @memory_id, @type, @invoice_id, @feedback_event_id, @reverts_event_id,
+      @before_state, @after_state, @recorded_at
+    )
+  `);
+
+  const byIdStmt = db.prepare(`SELECT ${SELECT_COLUMNS} FROM memory_events WHERE id = ?`);
+  const memoryIdsStmt = db.prepare('SELECT DISTINCT memory_id as memoryId FROM memory_events ORDER BY memory_id');
+
+  function getEvent(id: string): MemoryEvent | undefined {
+    const row = byIdStmt.get(id) as MemoryEventRow | undefined;
+    return row ? toEvent(row) : undefined;
+  }
+
+  return {
+    appendEvent(event: NewMemoryEvent) {
+      const id = uuidv4();
+      insertStmt.run({
+        id,
+        memory_id: event.memoryId,
+        type: event.type,
+        invoice_id: event.invoiceId ?? null,
+        feedback_event_id: event.feedbackEventId ?? null,
+        reverts_event_id: event.revertsEventId ?? null,
+        before_state: serializeSnapshot(event.before),
+        after_state: serializeSnapshot(event.after),
+        recorded_at: (event.recordedAt ?? new Date()).toISOString(),
+      });
+      return getEvent(id)!;
+    },
+    getEvent,
+    findEvents(filter: MemoryEventFilter) {
+      const clauses: string[] = [];
+      const params: string[] = [];
+
+      if (filter.memoryId !== undefined) {
+        clauses.push('memory_id = ?');
+        params.push(filter.memoryId);
+      }
+      if (filter.type !== undefined) {
+        clauses.push('type = ?');
+        params.push(filter.type);
+      }
+      if (filter.invoiceId !== undefined) {
+        clauses.push('invoice_id = ?');
+        params.push(filter.invoiceId);
+      }
+      if (filter.feedbackEventId !== undefined) {
+        clauses.push('feedback_event_id = ?');
+        params.push(filter.feedbackEventId);
+      }
+      if (filter.revertsEventId !== undefined) {
+        clauses.push('reverts_event_id = ?');
+        params.push(filter.revertsEventId);
+      }
+      if (filter.until !== undefined) {
+        clauses.push('recorded_at <= ?');
+        params.push(filter.until.toISOString());
+      }
+
+      const rows = db
+        .prepare(
+          `SELECT ${SELECT_COLUMNS} FROM memory_events
+           ${clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''}
+           ORDER BY sequence`,
+        )
+        .all(...params) as MemoryEventRow[];
+      return rows.map(toEvent);
+    },
+    listMemoryIds() {
+      return (memoryIdsStmt.all() as Array<{ memoryId: string }>).map((r) => r.memoryId);
+    },
+  };
+}
@@ -1,86 +1,351 @@
 import type { SqliteDatabase } from './db';
-import type { Memory } from '../models/memory';
+import { cosineSimilarity, decodeEmbedding, encodeEmbedding } from './embeddings';
+import type {
+  Memory,
+  LearnedMemoryCategory,
+  LearnedMemoryContent,
+  LearnedMemoryRecord,
+} from '../models/memory';
+
+export interface LearnedMemoryFilter {
+  category?: LearnedMemoryCategory | undefined;
+  vendorName?: string | undefined;
+  vendorId?: string | undefined;
+  field?: string | undefined;
+  invoiceNumber?: string | undefined;
+  minConfidence?: number | undefined;
+  limit?: number | undefined;
+}
+
+export interface RankedMemory {
+  memory: Memory;
+  content?: LearnedMemoryContent | undefined;
+  /** FTS5 BM25 score; more negative is more relevant. */
+  rank: number;
+}
+
+export interface SimilarMemoryQuery {
+  embedding: number[];
+  embeddingModel: string;
+  limit?: number | undefined;
+  minSimilarity?: number | undefined;
+}
+
+export interface SimilarMemory extends LearnedMemoryRecord {
+  similarity: number;
+}
 
 export interface MemoryRepository {
   initialize(): void;
   saveMemory(memory: Memory): void;
   getMemoryById(id: string): Memory | undefined;
-  searchMemories(query: string, limit?: number): Memory[];
+  searchMemories(query: string, limit?: number): RankedMemory[];
+  findLearnedMemories(filter: LearnedMemoryFilter): LearnedMemoryRecord[];
+  findMemoriesForVendorField(vendorName: string, field: string): LearnedMemoryRecord[];
+  findSimilarMemories(query: SimilarMemoryQuery): SimilarMemory[];
+  markMemoriesUsed(ids: string[], usedAt: Date): void;
+  deleteMemory(id: string): boolean;
+  /** Runs `fn` in one transaction; writes through other repositories on the same database join it. */
+  transaction<T>(fn: () => T): T;
 }
 
-export function createMemoryRepository(db: SqliteDatabase): MemoryRepository {
-  db.prepare(`
-    CREATE TABLE IF NOT EXISTS memories (
-      id TEXT PRIMARY KEY,
-      kind TEXT NOT NULL,
-      content TEXT NOT NULL,
-      created_at TEXT NOT NULL,
-      updated_at TEXT NOT NULL,
-      source TEXT
-    )
-  `).run();
+interface MemoryRow {
+  id: string;
+  kind: Memory['kind'];
+  content: string;
+  source?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  lastUsedAt: string | null;
+  category: string | null;
+  vendorName: string | null;
+  vendorId: string | null;
+  field: string | null;
+  invoiceNumber: string | null;
+  confidence: number | null;
+  usageCount: number | null;
+  embedding: Buffer | null;
+  embeddingModel: string | null;
+}
+
+interface StructuredColumns {
+  category: string | null;
+  vendor_name: string | null;
+  vendor_id: string | null;
+  field: string | null;
+  invoice_number: string | null;
+  confidence: number | null;
+  usage_count: number;
+}
+
+const SELECT_COLUMNS = `m.id, m.kind, m.content, m.source, m.created_at as createdAt, m.updated_at as updatedAt,
+  m.last_used_at as lastUsedAt,
+  m.category, m.vendor_name as vendorName, m.vendor_id as vendorId, m.field, m.invoice_number as invoiceNumber,
+  m.confidence, m.usage_count as usageCount, m.embedding, m.embedding_model as embeddingModel`;
 
+/**
+ * Turns free text into an FTS5 query that ORs quoted tokens, so punctuation in vendor
+ * names or raw text can never be interpreted as query syntax.
+ */
+export function toFtsQuery(text: string, maxTokens = 32): string {
+  const tokens = new Set(
+    (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((t) => t.length >= 2),
+  );
+  return [...tokens]
+    .slice(0, maxTokens)
+    .map((t) => `"${t}"`)
+    .join(' OR ');
+}
+
+function extractRawTextSnippet(content: string): string {
+  try {
+    const parsed = JSON.parse(content) as { metadata?: { rawTextSnippet?: unknown } };
+    const snippet = parsed?.metadata?.rawTextSnippet;
+    return typeof snippet === 'string' ? snippet : '';
+  } catch {
+    return '';
+  }
+}
+
+function extractStructuredColumns(content: string): StructuredColumns {
+  let parsed: Partial<LearnedMemoryContent> = {};
+  try {
+    const value = JSON.parse(content) as unknown;
+    if (value && typeof value === 'object') parsed = value as Partial<LearnedMemoryContent>;
+  } catch {
+    // Free-text memories have no structured columns.
+  }
+
+  return {
+    category: typeof parsed.category === 'string' ? parsed.category : null,
+    vendor_name: typeof parsed.vendorName === 'string' ? parsed.vendorName : null,
+    vendor_id: typeof parsed.vendorId === 'string' ? parsed.vendorId : null,
+    field: typeof parsed.field === 'string' ? parsed.field : null,
+    invoice_number: typeof parsed.invoiceNumber === 'string' ? parsed.invoiceNumber : null,
+    confidence: typeof parsed.confidence === 'number' ? parsed.confidence : null,
+    usage_count: typeof parsed.usageCount === 'number' ? parsed.usageCount : 0,
+  };
+}
+
+function toMemory(row: MemoryRow): Memory {
+  return {
+    id: row.id,
+    kind: row.kind,
+    content: row.content,
+    source: row.source ?? undefined,
+    createdAt: new Date(row.createdAt),
+    updatedAt: new Date(row.updatedAt),
+    ...(row.lastUsedAt ? { lastUsedAt: new Date(row.lastUsedAt) } : {}),
+    ...(row.embedding ? { embedding: decodeEmbedding(row.embedding) } : {}),
+    ...(row.embeddingModel ? { embeddingModel: row.embeddingModel } : {}),
+  };
+}
+
+function toLearnedRecord(row: MemoryRow): LearnedMemoryRecord | undefined {
+  if (row.category === null || row.confidence === null) return undefined;
+
+  let parsed: Partial<LearnedMemoryContent> = {};
+  try {
+    parsed = JSON.parse(row.content) as Partial<LearnedMemoryContent>;
+  } catch {
+    // Columns are authoritative; the JSON only carries the remaining details.
+  }
+
+  return {
+    memory: toMemory(row),
+    content: {
+      ...parsed,
+      category: row.category as LearnedMemoryCategory,
+      vendorName: row.vendorName ?? undefined,
+      vendorId: row.vendorId ?? undefined,
+      field: row.field ?? undefined,
+      invoiceNumber: row.invoiceNumber ?? undefined,
+      confidence: row.confidence,
+      usageCount: row.usageCount ?? 0,
+    },
+  };
+}
+
+export function createMemoryRepository(db: SqliteDatabase): MemoryRepository {
   const insertStmt = db.prepare(`
-    INSERT INTO memories (id, kind, content, created_at, updated_at, source)
-    VALUES (@id, @kind, @content, @created_at, @updated_at, @source)
+    INSERT INTO memories (
+      id, kind, content, created_at, updated_at, source,
+      category, vendor_name, vendor_id, field, invoice_number, confidence, usage_count,
+      embedding, embedding_model, last_used_at
+    )
+    VALUES (
+      @id, @kind, @content, @created_at, @updated_at, @source,
+      @category, @vendor_name, @vendor_id, @field, @invoice_number, @confidence, @usage_count,
+      @embedding, @embedding_model, @last_used_at
+    )
     ON CONFLICT(id) DO UPDATE SET
       kind = excluded.kind,
       content = excluded.content,
       created_at = excluded.created_at,
       updated_at = excluded.updated_at,
-      source = excluded.source
+      source = excluded.source,
+      category = excluded.category,
+      vendor_name = excluded.vendor_name,
+      vendor_id = excluded.vendor_id,
+      field = excluded.field,
+      invoice_number = excluded.invoice_number,
+      confidence = excluded.confidence,
+      usage_count = excluded.usage_count,
+      embedding = COALESCE(excluded.embedding, memories.embedding),
+      embedding_model = COALESCE(excluded.embedding_model, memories.embedding_model),
+      last_used_at = COALESCE(excluded.last_used_at, memories.last_used_at)
   `);
 
-  const getByIdStmt = db.prepare(
-    'SELECT id, kind, content, source, created_at as createdAt, updated_at as updatedAt FROM memories WHERE id = ?'
+  const markUsedStmt = db.prepare('UPDATE memories SET last_used_at = ? WHERE id = ?');
+  const deleteStmt = db.prepare('DELETE FROM memories WHERE id = ?');
+
+  const getByIdStmt = db.prepare(`SELECT ${SELECT_COLUMNS} FROM memories m WHERE m.id = ?`);
+
+  const deleteFtsStmt = db.prepare('DELETE FROM memories_fts WHERE memory_id = ?');
+  const insertFtsStmt = db.prepare(
+    'INSERT INTO memories_fts (memory_id, content, vendor_name, raw_text) VALUES (?, ?, ?, ?)',
   );
 
-  const searchStmt = db.prepare(
-    'SELECT id, kind, content, source, created_at as createdAt, updated_at as updatedAt FROM memories WHERE content LIKE ? LIMIT ?'
+  // Vendor name matches weigh more than generic content or raw-text matches.
+  const searchStmt = db.prepare(`
+    SELECT ${SELECT_COLUMNS},
+      bm25(memories_fts, 0.0, 1.0, 3.0, 1.5) AS rank
+    FROM memories_fts
+    JOIN memories m ON m.id = memories_fts.memory_id
+    WHERE memories_fts MATCH ?
+    ORDER BY rank
+    LIMIT ?
+  `);
+
+  const saveTransaction = db.transaction((memory: Memory) => {
+    const columns = extractStructuredColumns(memory.content);
+    insertStmt.run({
+      id: memory.id,
+      kind: memory.kind,
+      content: memory.content,
+      created_at: memory.createdAt.toISOString(),
+      updated_at: memory.updatedAt.toISOString(),
+      source: memory.source ?? null,
+      ...columns,
+      embedding: memory.embedding ? encodeEmbedding(memory.embedding) : null,
+      embedding_model: memory.embedding ? (memory.embeddingModel ?? null) : null,
+      last_used_at: memory.lastUsedAt?.toISOString() ?? null,
+    });
+    deleteFtsStmt.run(memory.id);
+    insertFtsStmt.run(
+      memory.id,
+      memory.content,
+      columns.vendor_name ?? '',
+      extractRawTextSnippet(memory.content),
+    );
+  });
+
+  function findLearnedMemories(filter: LearnedMemoryFilter): LearnedMemoryRecord[] {
+    const clauses = ['category IS NOT NULL', 'confidence IS NOT NULL'];
+    const params: Array<string | number> = [];
+
+    if (filter.category !== undefined) {
+      clauses.push('category = ?');
+      params.push(filter.category);
+    }
+    if (filter.vendorName !== undefined) {
+      clauses.push('vendor_name = ? COLLATE NOCASE');
+      params.push(filter.vendorName);
+    }
+    if (filter.vendorId !== undefined) {
+      clauses.push('vendor_id = ?');
+      params.push(filter.vendorId);
+    }
+    if (filter.field !== undefined) {
+      clauses.push('field = ?');
+      params.push(filter.field);
+    }
+    if (filter.invoiceNumber !== undefined) {
+      clauses.push('invoice_number = ?');
+      params.push(filter.invoiceNumber);
+    }
+    if (filter.minConfidence !== undefined) {
+      clauses.push('confidence >= ?');
+      params.push(filter.minConfidence);
+    }
+    params.push(filter.limit ?? -1);
+
+    const rows = db
+      .prepare(
+        `SELECT ${SELECT_COLUMNS} FROM memories m WHERE ${clauses.join(' AND ')}
+         ORDER BY confidence DESC, updated_at DESC LIMIT ?`,
+      )
+      .all(...params) as MemoryRow[];
+
+    return rows
+      .map(toLearnedRecord)
+      .filter((r): r is LearnedMemoryRecord => r !== undefined);
+  }
+
+  const deleteTransaction = db.transaction((id: string) => {
+    deleteFtsStmt.run(id);
+    return deleteStmt.run(id).changes > 0;
+  });
+
+  const embeddedStmt = db.prepare(
+    `SELECT ${SELECT_COLUMNS} FROM memories m
+     WHERE m.embedding IS NOT NULL AND m.embedding_model = ? AND m.category IS NOT NULL`,
   );
 
   return {
     initialize() {
-      // Table is ensured in the factory; no-op here.
+      // Schema is managed by the migrations run in openMemoryDatabase; no-op here.
     },
     saveMemory(memory: Memory) {
-      insertStmt.run({
-        id: memory.id,
-        kind: memory.kind,
-        content: memory.content,
-        created_at: memory.createdAt.toISOString(),
-        updated_at: memory.updatedAt.toISOString(),
-        source: memory.source ?? null,
-      });
+      saveTransaction(memory);
     },
     getMemoryById(id: string) {
-      const row = getByIdStmt.get(id);
+      const row = getByIdStmt.get(id) as MemoryRow | undefined;
       if (!row) return undefined;
-      return {
-        ...row,
-        createdAt: new Date(row.createdAt as unknown as string),
-        updatedAt: new Date(row.updatedAt as unknown as string),
-      } as Memory;
+      return toMemory(row);
     },
     searchMemories(query: string, limit = 10) {
-      const pattern = `%${query}%`;
-      const rows = searchStmt.all(pattern, limit) as unknown as Array<{
-        id: string;
-        kind: Memory['kind'];
-        content: string;
-        source?: string | null;
-        createdAt: string;
-        updatedAt: string;
-      }>;
+      const ftsQuery = toFtsQuery(query);
+      if (!ftsQuery) return [];
 
+      const rows = searchStmt.all(ftsQuery, limit) as Array<MemoryRow & { rank: number }>;
       return rows.map((row) => ({
-        id: row.id,
-        kind: row.kind,
-        content: row.content,
-        source: row.source ?? undefined,
-        createdAt: new Date(row.createdAt),
-        updatedAt: new Date(row.updatedAt),
-      })) as Memory[];
+        memory: toMemory(row),
+        content: toLearnedRecord(row)?.content,
+        rank: row.rank,
+      }));
+    },
+    findLearnedMemories,
+    findMemoriesForVendorField(vendorName: string, field: string) {
+      return findLearnedMemories({ vendorName, field });
+    },
+    findSimilarMemories(query: SimilarMemoryQuery) {
+      // Brute-force cosine scan; memory counts per database are small enough for this.
+      const rows = embeddedStmt.all(query.embeddingModel) as MemoryRow[];
+      const minSimilarity = query.minSimilarity ?? 0;
+      const results: SimilarMemory[] = [];
+      for (const row of rows) {
+        const record = toLearnedRecord(row);
+        if (!record?.memory.embedding) continue;
+        const similarity = cosineSimilarity(query.embedding, record.memory.embedding);
+        if (similarity >= minSimilarity) {
+          results.push({ ...record, similarity });
+        }
+      }
+      return results
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, query.limit ?? 10);
+    },
+    markMemoriesUsed(ids: string[], usedAt: Date) {
+      for (const id of ids) {
+        markUsedStmt.run(usedAt.toISOString(), id);
+      }
+    },
+    deleteMemory(id: string) {
+      return deleteTransaction(id);
+    },
+    transaction<T>(fn: () => T): T {
+      return db.transaction(fn)();
     },
   };
 }
@@ -0,0 +1,511 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { SqliteDatabase } from './db';
+import { normalizeVendorName } from './vendorRepository';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: SqliteDatabase): void;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: Date;
+}
+
+export interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: AppliedMigration[];
+  pending: Migration[];
+}
+
+const STRUCTURED_MEMORY_COLUMNS: Array<[name: string, definition: string]> = [
+  ['category', 'TEXT'],
+  ['vendor_name', 'TEXT'],
+  ['field', 'TEXT'],
+  ['invoice_number', 'TEXT'],
+  ['confidence', 'REAL'],
+  ['usage_count', 'INTEGER NOT NULL DEFAULT 0'],
+];
+
+function columnNames(db: SqliteDatabase, table: string): Set<string> {
+  return new Set((db.pragma(`table_info(${table})`) as Array<{ name: string }>).map((c) => c.name));
+}
+
+function tableExists(db: SqliteDatabase, table: string): boolean {
+  return db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?").get(table) !== undefined;
+}
+
+/**
+ * Ordered schema history. Migrations must be idempotent against databases that were
+ * created before versioning existed, since those report version 0 but already have tables.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_memories',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS memories (
+          id TEXT PRIMARY KEY,
+          kind TEXT NOT NULL,
+          content TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          source TEXT
+        )
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'memories_structured_columns',
+    up(db) {
+      const existing = columnNames(db, 'memories');
+      for (const [name, definition] of STRUCTURED_MEMORY_COLUMNS) {
+        if (!existing.has(name)) {
+          db.exec(`ALTER TABLE memories ADD COLUMN ${name} ${definition}`);
+        }
+      }
+
+      db.exec(`
+        UPDATE memories SET
+          category = json_extract(content, '$.category'),
+          vendor_name = json_extract(content, '$.vendorName'),
+          field = json_extract(content, '$.field'),
+          invoice_number = json_extract(content, '$.invoiceNumber'),
+          confidence = json_extract(content, '$.confidence'),
+          usage_count = COALESCE(json_extract(content, '$.usageCount'), 0)
+        WHERE json_valid(content);
+
+        CREATE INDEX IF NOT EXISTS idx_memories_vendor_field ON memories (vendor_name COLLATE NOCASE, field);
+        CREATE INDEX IF NOT EXISTS idx_memories_category ON memories (category);
+        CREATE INDEX IF NOT EXISTS idx_memories_invoice_number ON memories (invoice_number);
+      `);
+    },
+  },
+  {
+    version: 3,
+    name: 'create_po_ledger',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS po_ledger (
+          po_number TEXT NOT NULL,
+          sku TEXT NOT NULL,
+          invoice_id TEXT NOT NULL,
+          invoice_number TEXT NOT NULL,
+          vendor_name TEXT NOT NULL,
+          quantity REAL NOT NULL,
+          unit_price REAL NOT NULL,
+          recorded_at TEXT NOT NULL,
+          PRIMARY KEY (po_number, sku, invoice_id)
+        )
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: 'memories_fts',
+    up(db) {
+      db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS memories_fts USING fts5(
+          memory_id UNINDEXED,
+          content,
+          vendor_name,
+          raw_text,
+          tokenize = 'unicode61 remove_diacritics 2'
+        );
+
+        DELETE FROM memories_fts;
+        INSERT INTO memories_fts (memory_id, content, vendor_name, raw_text)
+        SELECT
+          id,
+          content,
+          COALESCE(vendor_name, ''),
+          CASE WHEN json_valid(content)
+            THEN COALESCE(json_extract(content, '$.metadata.rawTextSnippet'), '')
+            ELSE ''
+          END
+        FROM memories;
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: 'memories_embeddings',
+    up(db) {
+      const existing = columnNames(db, 'memories');
+      if (!existing.has('embedding')) {
+        db.exec('ALTER TABLE memories ADD COLUMN embedding BLOB');
+      }
+      if (!existing.has('embedding_model')) {
+        db.exec('ALTER TABLE memories ADD COLUMN embedding_model TEXT');
+      }
+    },
+  },
+  {
+    version: 6,
+    name: 'memories_last_used_at',
+    up(db) {
+      if (!columnNames(db, 'memories').has('last_used_at')) {
+        db.exec('ALTER TABLE memories ADD COLUMN last_used_at TEXT');
+      }
+    },
+  },
+  {
+    version: 7,
+    name: 'create_invoice_fingerprints',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS invoice_fingerprints (
+          invoice_id TEXT PRIMARY KEY,
+          vendor_name TEXT NOT NULL,
+          invoice_number TEXT NOT NULL,
+          normalized_invoice_number TEXT NOT NULL,
+          issued_at TEXT NOT NULL,
+          total_amount REAL NOT NULL,
+          currency TEXT,
+          line_item_keys TEXT NOT NULL,
+          recorded_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_invoice_fingerprints_vendor ON invoice_fingerprints (vendor_name COLLATE NOCASE);
+        CREATE INDEX IF NOT EXISTS idx_invoice_fingerprints_number ON invoice_fingerprints (normalized_invoice_number);
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'create_processed_invoices',
+    up(db) {
+      // Supersedes invoice_fingerprints; copied rows have no recorded decision.
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS processed_invoices (
+          invoice_id TEXT PRIMARY KEY,
+          vendor_name TEXT NOT NULL,
+          invoice_number TEXT NOT NULL,
+          normalized_invoice_number TEXT NOT NULL,
+          issued_at TEXT NOT NULL,
+          total_amount REAL NOT NULL,
+          currency TEXT,
+          line_item_keys TEXT NOT NULL,
+          requires_human_review INTEGER,
+          confidence_score REAL,
+          reasoning TEXT,
+          corrections TEXT NOT NULL DEFAULT '[]',
+          first_processed_at TEXT NOT NULL,
+          processed_at TEXT NOT NULL,
+          process_count INTEGER NOT NULL DEFAULT 1
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_processed_invoices_vendor ON processed_invoices (vendor_name COLLATE NOCASE, issued_at);
+        CREATE INDEX IF NOT EXISTS idx_processed_invoices_number ON processed_invoices (normalized_invoice_number);
+      `);
+
+      if (tableExists(db, 'invoice_fingerprints')) {
+        db.exec(`
+          INSERT OR IGNORE INTO processed_invoices (
+            invoice_id, vendor_name, invoice_number, normalized_invoice_number, issued_at,
+            total_amount, currency, line_item_keys, first_processed_at, processed_at
+          )
+          SELECT
+            invoice_id, vendor_name, invoice_number, normalized_invoice_number, issued_at,
+            total_amount, currency, line_item_keys, recorded_at, recorded_at
+          FROM invoice_fingerprints;
+
+          DROP TABLE invoice_fingerprints;
+        `);
+      }
+    },
+  },
+  {
+    version: 9,
+    name: 'create_vendors',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS vendors (
+          id TEXT PRIMARY KEY,
+          canonical_name TEXT NOT NULL,
+          normalized_name TEXT NOT NULL,
+          vat_id TEXT,
+          iban TEXT,
+          merged_into TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS vendor_aliases (
+          normalized_name TEXT PRIMARY KEY,
+          alias TEXT NOT NULL,
+          vendor_id TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_vendors_vat_id ON vendors (vat_id);
+        CREATE INDEX IF NOT EXISTS idx_vendors_iban ON vendors (iban);
+        CREATE INDEX IF NOT EXISTS idx_vendor_aliases_vendor ON vendor_aliases (vendor_id);
+      `);
+
+      if (!columnNames(db, 'memories').has('vendor_id')) {
+        db.exec('ALTER TABLE memories ADD COLUMN vendor_id TEXT');
+      }
+      db.exec('CREATE INDEX IF NOT EXISTS idx_memories_vendor_id ON memories (vendor_id)');
+
+      // Name variants already in memory ("Supplier GmbH", "SUPPLIER GMBH, Berlin") share one vendor.
+      const names = db
+        .prepare('SELECT DISTINCT vendor_name as vendorName FROM memories WHERE vendor_name IS NOT NULL AND vendor_id IS NULL')
+        .all() as Array<{ vendorName: string }>;
+      const findAliasStmt = db.prepare('SELECT vendor_id as vendorId FROM vendor_aliases WHERE normalized_name = ?');
+      const insertVendorStmt = db.prepare(`
+        INSERT INTO vendors (id, canonical_name, normalized_name, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?)
+      `);
+      const insertAliasStmt = db.prepare(
+        'INSERT OR IGNORE INTO vendor_aliases (normalized_name, alias, vendor_id) VALUES (?, ?, ?)',
+      );
+      const assignStmt = db.prepare(`
+        UPDATE memories SET
+          vendor_id = @vendor_id,
+          content = CASE WHEN json_valid(content) THEN json_set(content, '$.vendorId', @vendor_id) ELSE content END
+        WHERE vendor_name = @vendor_name AND vendor_id IS NULL
+      `);
+      const now = new Date().toISOString();
+
+      for (const { vendorName } of names) {
+        const normalizedName = normalizeVendorName(vendorName);
+        if (!normalizedName) continue;
+        let vendorId = (findAliasStmt.get(normalizedName) as { vendorId: string } | undefined)?.vendorId;
+        if (!vendorId) {
+          vendorId = uuidv4();
+          insertVendorStmt.run(vendorId, vendorName, normalizedName, now, now);
+        }
+        insertAliasStmt.run(normalizedName, vendorName, vendorId);
+        assignStmt.run({ vendor_id: vendorId, vendor_name: vendorName });
+      }
+    },
+  },
+  {
+    version: 10,
+    name: 'create_memory_provenance',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS memory_provenance (
+          id TEXT PRIMARY KEY,
+          memory_id TEXT NOT NULL,
+          action TEXT NOT NULL,
+          source TEXT NOT NULL,
+          invoice_id TEXT,
+          field TEXT,
+          proposed_value TEXT,
+          outcome TEXT,
+          feedback_event_id TEXT,
+          previous_confidence REAL,
+          new_confidence REAL NOT NULL,
+          recorded_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_memory_provenance_memory ON memory_provenance (memory_id, recorded_at);
+        CREATE INDEX IF NOT EXISTS idx_memory_provenance_invoice ON memory_provenance (invoice_id);
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: 'create_memory_events',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS memory_events (
+          sequence INTEGER PRIMARY KEY AUTOINCREMENT,
+          id TEXT NOT NULL UNIQUE,
+          memory_id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          invoice_id TEXT,
+          feedback_event_id TEXT,
+          reverts_event_id TEXT,
+          before_state TEXT,
+          after_state TEXT,
+          recorded_at TEXT NOT NULL
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_memory_events_memory ON memory_events (memory_id, sequence);
+        CREATE INDEX IF NOT EXISTS idx_memory_events_invoice ON memory_events (invoice_id);
+        CREATE INDEX IF NOT EXISTS idx_memory_events_feedback ON memory_events (feedback_event_id);
+        CREATE INDEX IF NOT EXISTS idx_memory_events_reverts ON memory_events (reverts_event_id);
+      `);
+    },
+  },
+  {
+    version: 12,
+    name: 'create_audit_log',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS audit_log (
+          sequence INTEGER PRIMARY KEY AUTOINCREMENT,
+          id TEXT NOT NULL UNIQUE,
+          run_id TEXT NOT NULL,
+          invoice_id TEXT NOT NULL,
+          vendor_name TEXT NOT NULL,
+          vendor_id TEXT,
+          step TEXT NOT NULL,
+          timestamp TEXT NOT NULL,
+          details TEXT NOT NULL,
+          previous_hash TEXT NOT NULL,
+          hash TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS audit_log_memories (
+          entry_id TEXT NOT NULL,
+          memory_id TEXT NOT NULL,
+          PRIMARY KEY (entry_id, memory_id)
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_audit_log_run ON audit_log (run_id);
+        CREATE INDEX IF NOT EXISTS idx_audit_log_invoice ON audit_log (invoice_id);
+        CREATE INDEX IF NOT EXISTS idx_audit_log_vendor_name ON audit_log (vendor_name);
+        CREATE INDEX IF NOT EXISTS idx_audit_log_vendor_id ON audit_log (vendor_id);
+        CREATE INDEX IF NOT EXISTS idx_audit_log_step_timestamp ON audit_log (step, timestamp);
+        CREATE INDEX IF NOT EXISTS idx_audit_log_timestamp ON audit_log (timestamp);
+        CREATE INDEX IF NOT EXISTS idx_audit_log_memories_memory ON audit_log_memories (memory_id);
+
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+        BEGIN
+          SELECT RAISE(ABORT, 'audit_log is append-only');
+        END;
+        CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+        BEGIN
+          SELECT RAISE(ABORT, 'audit_log is append-only');
+        END;
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: 'create_engine_runs',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS engine_runs (
+          run_id TEXT PRIMARY KEY,
+          invoice_id TEXT NOT NULL,
+          invoice TEXT NOT NULL,
+          raw_text TEXT NOT NULL,
+          proposed_corrections TEXT NOT NULL,
+          requires_human_review INTEGER NOT NULL,
+          created_at TEXT NOT NULL,
+          feedback_run_id TEXT,
+          feedback_at TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_engine_runs_invoice ON engine_runs (invoice_id);
+      `);
+    },
+  },
+  {
+    version: 14,
+    name: 'create_review_queue',
+    up(db) {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS review_items (
+          id TEXT PRIMARY KEY,
+          run_id TEXT NOT NULL UNIQUE,
+          invoice_id TEXT NOT NULL,
+          vendor_name TEXT NOT NULL,
+          status TEXT NOT NULL,
+          priority TEXT NOT NULL,
+          assignee TEXT,
+          proposed_corrections TEXT NOT NULL,
+          reasoning TEXT NOT NULL,
+          confidence_score REAL NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          due_at TEXT NOT NULL,
+          assigned_at TEXT,
+          started_at TEXT,
+          escalated_at TEXT,
+          completed_at TEXT,
+          escalation_reason TEXT,
+          decisions TEXT,
+          feedback_run_id TEXT
+        );
+
+        CREATE INDEX IF NOT EXISTS idx_review_items_status_due ON review_items (status, due_at);
+        CREATE INDEX IF NOT EXISTS idx_review_items_assignee ON review_items (assignee, status);
+        CREATE INDEX IF NOT EXISTS idx_review_items_invoice ON review_items (invoice_id);
+      `);
+    },
+  },
+  {
+    version: 15,
+    name: 'review_items_corrections',
+    up(db) {
+      if (!columnNames(db, 'review_items').has('corrections')) {
+        db.exec('ALTER TABLE review_items ADD COLUMN corrections TEXT');
+      }
+    },
+  },
+];
+
+function ensureMigrationsTable(db: SqliteDatabase): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+}
+
+function latestVersionOf(migrations: Migration[]): number {
+  return migrations.reduce((max, m) => Math.max(max, m.version), 0);
+}
+
+function listAppliedMigrations(db: SqliteDatabase): AppliedMigration[] {
+  if (!tableExists(db, 'schema_migrations')) return [];
+
+  const rows = db
+    .prepare('SELECT version, name, applied_at as appliedAt FROM schema_migrations ORDER BY version')
+    .all() as Array<{ version: number; name: string; appliedAt: string }>;
+  return rows.map((row) => ({ ...row, appliedAt: new Date(row.appliedAt) }));
+}
+
+export function getMigrationStatus(
+  db: SqliteDatabase,
+  migrations: Migration[] = MIGRATIONS,
+): MigrationStatus {
+  const applied = listAppliedMigrations(db);
+  const currentVersion = applied.reduce((max, m) => Math.max(max, m.version), 0);
+  const appliedVersions = new Set(applied.map((m) => m.version));
+
+  return {
+    currentVersion,
+    latestVersion: latestVersionOf(migrations),
+    applied,
+    pending: [...migrations]
+      .sort((a, b) => a.version - b.version)
+      .filter((m) => !appliedVersions.has(m.version)),
+  };
+}
+
+export function runMigrations(db: SqliteDatabase, migrations: Migration[] = MIGRATIONS): Migration[] {
+  const status = getMigrationStatus(db, migrations);
+  if (status.currentVersion > status.latestVersion) {
+    throw new Error(
+      `Memory database schema version ${status.currentVersion} is newer than the latest version ` +
+        `${status.latestVersion} known to this application; refusing to open it.`,
+    );
+  }
+
+  ensureMigrationsTable(db);
+  const recordStmt = db.prepare(
+    'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+  );
+
+  for (const migration of status.pending) {
+    db.transaction(() => {
+      migration.up(db);
+      recordStmt.run(migration.version, migration.name, new Date().toISOString());
+    })();
+  }
+
+  return status.pending;
+}
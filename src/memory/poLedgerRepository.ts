@@ -0,0 +1,120 @@
+import type { SqliteDatabase } from './db';
+import type { PurchaseOrder } from '../models/purchaseOrder';
+import type { DeliveryNote } from '../models/deliveryNote';
+
+export interface PoLedgerEntry {
+  poNumber: string;
+  sku: string;
+  invoiceId: string;
+  invoiceNumber: string;
+  vendorName: string;
+  quantity: number;
+  unitPrice: number;
+  recordedAt: Date;
+}
+
+export interface PoLineBalance {
+  poNumber: string;
+  vendorName: string;
+  sku: string;
+  orderedQuantity: number;
+  deliveredQuantity?: number | undefined;
+  invoicedQuantity: number;
+  openQuantity: number;
+  invoiceIds: string[];
+}
+
+export interface PoLedgerRepository {
+  /** Replaces the invoice's consumption, so re-processing it never leaves stale rows behind. */
+  recordConsumption(invoiceId: string, entries: PoLedgerEntry[]): void;
+  getEntriesForPurchaseOrder(poNumber: string): PoLedgerEntry[];
+  getInvoicedQuantity(poNumber: string, sku: string, excludeInvoiceId?: string): number;
+  getOpenBalances(purchaseOrders: PurchaseOrder[], deliveryNotes?: DeliveryNote[]): PoLineBalance[];
+}
+
+interface PoLedgerRow {
+  poNumber: string;
+  sku: string;
+  invoiceId: string;
+  invoiceNumber: string;
+  vendorName: string;
+  quantity: number;
+  unitPrice: number;
+  recordedAt: string;
+}
+
+export function createPoLedgerRepository(db: SqliteDatabase): PoLedgerRepository {
+  const deleteByInvoiceStmt = db.prepare('DELETE FROM po_ledger WHERE invoice_id = ?');
+  const insertStmt = db.prepare(`
+    INSERT INTO po_ledger (po_number, sku, invoice_id, invoice_number, vendor_name, quantity, unit_price, recorded_at)
+    VALUES (@po_number, @sku, @invoice_id, @invoice_number, @vendor_name, @quantity, @unit_price, @recorded_at)
+  `);
+
+  const byPoStmt = db.prepare(
+    `SELECT po_number as poNumber, sku, invoice_id as invoiceId, invoice_number as invoiceNumber,
+            vendor_name as vendorName, quantity, unit_price as unitPrice, recorded_at as recordedAt
+     FROM po_ledger WHERE po_number = ? ORDER BY recorded_at`,
+  );
+
+  const invoicedQuantityStmt = db.prepare(
+    'SELECT COALESCE(SUM(quantity), 0) as total FROM po_ledger WHERE po_number = ? AND sku = ? AND invoice_id <> ?',
+  );
+
+  function toEntry(row: PoLedgerRow): PoLedgerEntry {
+    return { ...row, recordedAt: new Date(row.recordedAt) };
+  }
+
+  return {
+    recordConsumption(invoiceId: string, entries: PoLedgerEntry[]) {
+      db.transaction(() => {
+        deleteByInvoiceStmt.run(invoiceId);
+        for (const entry of entries) {
+          insertStmt.run({
+            po_number: entry.poNumber,
+            sku: entry.sku,
+            invoice_id: entry.invoiceId,
+            invoice_number: entry.invoiceNumber,
+            vendor_name: entry.vendorName,
+            quantity: entry.quantity,
+            unit_price: entry.unitPrice,
+            recorded_at: entry.recordedAt.toISOString(),
+          });
+        }
+      })();
+    },
+    getEntriesForPurchaseOrder(poNumber: string) {
+      return (byPoStmt.all(poNumber) as PoLedgerRow[]).map(toEntry);
+    },
+    getInvoicedQuantity(poNumber: string, sku: string, excludeInvoiceId = '') {
+      const row = invoicedQuantityStmt.get(poNumber, sku, excludeInvoiceId) as { total: number } | undefined;
+      return row?.total ?? 0;
+    },
+    getOpenBalances(purchaseOrders: PurchaseOrder[], deliveryNotes?: DeliveryNote[]) {
+      const balances: PoLineBalance[] = [];
+      for (const po of purchaseOrders) {
+        const entries = (byPoStmt.all(po.poNumber) as PoLedgerRow[]).map(toEntry);
+        for (const line of po.lineItems) {
+          const lineEntries = entries.filter((e) => e.sku === line.sku);
+          const invoicedQuantity = lineEntries.reduce((sum, e) => sum + e.quantity, 0);
+          const deliveredQuantity = deliveryNotes
+            ?.filter((dn) => dn.poNumber === po.poNumber)
+            .flatMap((dn) => dn.lineItems)
+            .filter((li) => li.sku === line.sku)
+            .reduce((sum, li) => sum + li.quantityDelivered, 0);
+
+          balances.push({
+            poNumber: po.poNumber,
+            vendorName: po.vendorName,
+            sku: line.sku,
+            orderedQuantity: line.quantity,
+            ...(deliveredQuantity !== undefined ? { deliveredQuantity } : {}),
+            invoicedQuantity,
+            openQuantity: line.quantity - invoicedQuantity,
+            invoiceIds: lineEntries.map((e) => e.invoiceId),
+          });
+        }
+      }
+      return balances;
+    },
+  };
+}
@@ -0,0 +1,228 @@
+import type { SqliteDatabase } from './db';
+import type { ProposedCorrection } from '../models/pipeline';
+
+export interface InvoiceFingerprint {
+  invoiceId: string;
+  vendorName: string;
+  invoiceNumber: string;
+  normalizedInvoiceNumber: string;
+  issuedAt: Date;
+  totalAmount: number;
+  currency?: string | undefined;
+  /** One key per line item: normalized description or SKU, quantity and unit price. */
+  lineItemKeys: string[];
+}
+
+export interface ProcessedInvoiceDecision {
+  requiresHumanReview: boolean;
+  confidenceScore: number;
+  reasoning: string;
+}
+
+export interface ProcessedInvoiceRecord extends InvoiceFingerprint {
+  /** Missing for invoices recorded before decisions were stored. */
+  decision?: ProcessedInvoiceDecision | undefined;
+  /** Corrections that were applied to the invoice on its latest run. */
+  corrections: ProposedCorrection[];
+  firstProcessedAt: Date;
+  processedAt: Date;
+  processCount: number;
+}
+
+export interface ProcessedInvoiceQuery {
+  vendorName?: string | undefined;
+  /** Matched case-insensitively against the invoice number as extracted. */
+  invoiceNumber?: string | undefined;
+  normalizedInvoiceNumber?: string | undefined;
+  /** Inclusive bounds on the invoice's issue date. */
+  issuedFrom?: Date | undefined;
+  issuedTo?: Date | undefined;
+  limit?: number | undefined;
+}
+
+export interface ProcessedInvoiceRepository {
+  /** Inserts the invoice, or replaces its previous run's record when the id is known. */
+  recordProcessedInvoice(
+    fingerprint: InvoiceFingerprint,
+    decision: ProcessedInvoiceDecision,
+    corrections: ProposedCorrection[],
+    processedAt?: Date,
+  ): ProcessedInvoiceRecord;
+  getProcessedInvoice(invoiceId: string): ProcessedInvoiceRecord | undefined;
+  findProcessedInvoices(query: ProcessedInvoiceQuery): ProcessedInvoiceRecord[];
+  /** Prior invoices of the same vendor (case-insensitive) or with the same normalized number. */
+  findDuplicateCandidates(
+    vendorName: string,
+    normalizedInvoiceNumber: string,
+    excludeInvoiceId?: string,
+  ): ProcessedInvoiceRecord[];
+}
+
+interface ProcessedInvoiceRow {
+  invoiceId: string;
+  vendorName: string;
+  invoiceNumber: string;
+  normalizedInvoiceNumber: string;
+  issuedAt: string;
+  totalAmount: number;
+  currency: string | null;
+  lineItemKeys: string;
+  requiresHumanReview: number | null;
+  confidenceScore: number | null;
+  reasoning: string | null;
+  corrections: string;
+  firstProcessedAt: string;
+  processedAt: string;
+  processCount: number;
+}
+
+const SELECT_COLUMNS = `invoice_id as invoiceId, vendor_name as vendorName, invoice_number as invoiceNumber,
+            normalized_invoice_number as normalizedInvoiceNumber, issued_at as issuedAt,
+            total_amount as totalAmount, currency, line_item_keys as lineItemKeys,
+            requires_human_review as requiresHumanReview, confidence_score as confidenceScore, reasoning,
+            corrections, first_processed_at as firstProcessedAt, processed_at as processedAt,
+            process_count as processCount`;
+
+function parseJsonArray<T>(value: string): T[] {
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function toRecord(row: ProcessedInvoiceRow): ProcessedInvoiceRecord {
+  return {
+    invoiceId: row.invoiceId,
+    vendorName: row.vendorName,
+    invoiceNumber: row.invoiceNumber,
+    normalizedInvoiceNumber: row.normalizedInvoiceNumber,
+    issuedAt: new Date(row.issuedAt),
+    totalAmount: row.totalAmount,
+    ...(row.currency !== null ? { currency: row.currency } : {}),
+    lineItemKeys: parseJsonArray<string>(row.lineItemKeys),
+    ...(row.requiresHumanReview !== null
+      ? {
+          decision: {
+            requiresHumanReview: row.requiresHumanReview === 1,
+            confidenceScore: row.confidenceScore ?? 0,
+            reasoning: row.reasoning ?? '',
+          },
+        }
+      : {}),
+    corrections: parseJsonArray<ProposedCorrection>(row.corrections),
+    firstProcessedAt: new Date(row.firstProcessedAt),
+    processedAt: new Date(row.processedAt),
+    processCount: row.processCount,
+  };
+}
+
+export function createProcessedInvoiceRepository(db: SqliteDatabase): ProcessedInvoiceRepository {
+  // Keyed by invoice id: re-processing updates the record and keeps its first-seen timestamp.
+  const upsertStmt = db.prepare(`
+    INSERT INTO processed_invoices (
+      invoice_id, vendor_name, invoice_number, normalized_invoice_number, issued_at,
+      total_amount, currency, line_item_keys, requires_human_review, confidence_score,
+      reasoning, corrections, first_processed_at, processed_at, process_count
+    )
+    VALUES (
+      @invoice_id, @vendor_name, @invoice_number, @normalized_invoice_number, @issued_at,
+      @total_amount, @currency, @line_item_keys, @requires_human_review, @confidence_score,
+      @reasoning, @corrections, @processed_at, @processed_at, 1
+    )
+    ON CONFLICT(invoice_id) DO UPDATE SET
+      vendor_name = excluded.vendor_name,
+      invoice_number = excluded.invoice_number,
+      normalized_invoice_number = excluded.normalized_invoice_number,
+      issued_at = excluded.issued_at,
+      total_amount = excluded.total_amount,
+      currency = excluded.currency,
+      line_item_keys = excluded.line_item_keys,
+      requires_human_review = excluded.requires_human_review,
+      confidence_score = excluded.confidence_score,
+      reasoning = excluded.reasoning,
+      corrections = excluded.corrections,
+      processed_at = excluded.processed_at,
+      process_count = process_count + 1
+  `);
+
+  const byIdStmt = db.prepare(`SELECT ${SELECT_COLUMNS} FROM processed_invoices WHERE invoice_id = ?`);
+
+  const candidatesStmt = db.prepare(
+    `SELECT ${SELECT_COLUMNS}
+     FROM processed_invoices
+     WHERE (vendor_name = ? COLLATE NOCASE OR normalized_invoice_number = ?) AND invoice_id <> ?
+     ORDER BY issued_at DESC`,
+  );
+
+  function getProcessedInvoice(invoiceId: string): ProcessedInvoiceRecord | undefined {
+    const row = byIdStmt.get(invoiceId) as ProcessedInvoiceRow | undefined;
+    return row ? toRecord(row) : undefined;
+  }
+
+  return {
+    recordProcessedInvoice(fingerprint, decision, corrections, processedAt = new Date()) {
+      upsertStmt.run({
+        invoice_id: fingerprint.invoiceId,
+        vendor_name: fingerprint.vendorName,
+        invoice_number: fingerprint.invoiceNumber,
+        normalized_invoice_number: fingerprint.normalizedInvoiceNumber,
+        issued_at: fingerprint.issuedAt.toISOString(),
+        total_amount: fingerprint.totalAmount,
+        currency: fingerprint.currency ?? null,
+        line_item_keys: JSON.stringify(fingerprint.lineItemKeys),
+        requires_human_review: decision.requiresHumanReview ? 1 : 0,
+        confidence_score: decision.confidenceScore,
+        reasoning: decision.reasoning,
+        corrections: JSON.stringify(corrections),
+        processed_at: processedAt.toISOString(),
+      });
+      return getProcessedInvoice(fingerprint.invoiceId)!;
+    },
+    getProcessedInvoice,
+    findProcessedInvoices(query: ProcessedInvoiceQuery) {
+      const clauses: string[] = [];
+      const params: Array<string | number> = [];
+
+      if (query.vendorName !== undefined) {
+        clauses.push('vendor_name = ? COLLATE NOCASE');
+        params.push(query.vendorName);
+      }
+      if (query.invoiceNumber !== undefined) {
+        clauses.push('invoice_number = ? COLLATE NOCASE');
+        params.push(query.invoiceNumber);
+      }
+      if (query.normalizedInvoiceNumber !== undefined) {
+        clauses.push('normalized_invoice_number = ?');
+        params.push(query.normalizedInvoiceNumber);
+      }
+      if (query.issuedFrom !== undefined) {
+        clauses.push('issued_at >= ?');
+        params.push(query.issuedFrom.toISOString());
+      }
+      if (query.issuedTo !== undefined) {
+        clauses.push('issued_at <= ?');
+        params.push(query.issuedTo.toISOString());
+      }
+      params.push(query.limit ?? -1);
+
+      const rows = db
+        .prepare(
+          `SELECT ${SELECT_COLUMNS} FROM processed_invoices
+           ${clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''}
+           ORDER BY issued_at DESC, invoice_id LIMIT ?`,
+        )
+        .all(...params) as ProcessedInvoiceRow[];
+      return rows.map(toRecord);
+    },
+    findDuplicateCandidates(vendorName: string, normalizedInvoiceNumber: string, excludeInvoiceId = '') {
+      const rows = candidatesStmt.all(
+        vendorName,
+        normalizedInvoiceNumber,
+        excludeInvoiceId,
+      ) as ProcessedInvoiceRow[];
+      return rows.map(toRecord);
+    },
+  };
+}
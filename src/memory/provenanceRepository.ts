@@ -0,0 +1,167 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { SqliteDatabase } from './db';
+import type { MemoryUpdate } from '../models/pipeline';
+
+export type ProvenanceSource = 'feedback' | 'timeDecay';
+
+export interface ProvenanceEvent {
+  id: string;
+  memoryId: string;
+  action: MemoryUpdate['action'];
+  /** `feedback` for reviewer decisions on an invoice, `timeDecay` for maintenance runs. */
+  source: ProvenanceSource;
+  invoiceId?: string | undefined;
+  field?: string | undefined;
+  proposedValue?: unknown;
+  outcome?: 'approved' | 'rejected' | undefined;
+  /** Id of the learn event that carried the reviewer's decision. */
+  feedbackEventId?: string | undefined;
+  /** Missing for `create` events. */
+  previousConfidence?: number | undefined;
+  newConfidence: number;
+  recordedAt: Date;
+}
+
+export type NewProvenanceEvent = Omit<ProvenanceEvent, 'id' | 'recordedAt'> & {
+  recordedAt?: Date | undefined;
+};
+
+export interface MemoryLineage {
+  memoryId: string;
+  /** Oldest first. */
+  events: ProvenanceEvent[];
+  /** Invoices whose feedback shaped the memory, in the order they first did. */
+  invoiceIds: string[];
+  approvals: number;
+  rejections: number;
+  /** Confidence after the last event, i.e. the confidence the memory had at `asOf`. */
+  confidence?: number | undefined;
+  asOf?: Date | undefined;
+}
+
+export interface ProvenanceRepository {
+  recordEvent(event: NewProvenanceEvent): ProvenanceEvent;
+  /** Every event of the memory, or only those recorded before `asOf`. */
+  getLineage(memoryId: string, asOf?: Date): MemoryLineage;
+  findEventsForInvoice(invoiceId: string): ProvenanceEvent[];
+}
+
+interface ProvenanceRow {
+  id: string;
+  memoryId: string;
+  action: MemoryUpdate['action'];
+  source: ProvenanceSource;
+  invoiceId: string | null;
+  field: string | null;
+  proposedValue: string | null;
+  outcome: 'approved' | 'rejected' | null;
+  feedbackEventId: string | null;
+  previousConfidence: number | null;
+  newConfidence: number;
+  recordedAt: string;
+}
+
+const SELECT_COLUMNS = `id, memory_id as memoryId, action, source, invoice_id as invoiceId, field,
+            proposed_value as proposedValue, outcome, feedback_event_id as feedbackEventId,
+            previous_confidence as previousConfidence, new_confidence as newConfidence,
+            recorded_at as recordedAt`;
+
+function parseValue(value: string | null): unknown {
+  if (value === null) return undefined;
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    return value;
+  }
+}
+
+function toEvent(row: ProvenanceRow): ProvenanceEvent {
+  return {
+    id: row.id,
+    memoryId: row.memoryId,
+    action: row.action,
+    source: row.source,
+    ...(row.invoiceId !== null ? { invoiceId: row.invoiceId } : {}),
+    ...(row.field !== null ? { field: row.field } : {}),
+    ...(row.proposedValue !== null ? { proposedValue: parseValue(row.proposedValue) } : {}),
+    ...(row.outcome !== null ? { outcome: row.outcome } : {}),
+    ...(row.feedbackEventId !== null ? { feedbackEventId: row.feedbackEventId } : {}),
+    ...(row.previousConfidence !== null ? { previousConfidence: row.previousConfidence } : {}),
+    newConfidence: row.newConfidence,
+    recordedAt: new Date(row.recordedAt),
+  };
+}
+
+export function createProvenanceRepository(db: SqliteDatabase): ProvenanceRepository {
+  const insertStmt = db.prepare(`
+    INSERT INTO memory_provenance (
+      id, memory_id, action, source, invoice_id, field, proposed_value, outcome,
+      feedback_event_id, previous_confidence, new_confidence, recorded_at
+    )
+    VALUES (
+      @id, @memory_id, @action, @source, @invoice_id, @field, @proposed_value, @outcome,
+      @feedback_event_id, @previous_confidence, @new_confidence, @recorded_at
+    )
+  `);
+
+  const byMemoryStmt = db.prepare(
+    `SELECT ${SELECT_COLUMNS} FROM memory_provenance WHERE memory_id = ? ORDER BY recorded_at, rowid`,
+  );
+
+  const byMemoryBeforeStmt = db.prepare(
+    `SELECT ${SELECT_COLUMNS} FROM memory_provenance
+     WHERE memory_id = ? AND recorded_at < ?
+     ORDER BY recorded_at, rowid`,
+  );
+
+  const byInvoiceStmt = db.prepare(
+    `SELECT ${SELECT_COLUMNS} FROM memory_provenance WHERE invoice_id = ? ORDER BY recorded_at, rowid`,
+  );
+
+  return {
+    recordEvent(event: NewProvenanceEvent) {
+      const recorded: ProvenanceEvent = {
+        ...event,
+        id: uuidv4(),
+        recordedAt: event.recordedAt ?? new Date(),
+      };
+      insertStmt.run({
+        id: recorded.id,
+        memory_id: recorded.memoryId,
+        action: recorded.action,
+        source: recorded.source,
+        invoice_id: recorded.invoiceId ?? null,
+        field: recorded.field ?? null,
+        proposed_value:
+          recorded.proposedValue !== undefined ? JSON.stringify(recorded.proposedValue) : null,
+        outcome: recorded.outcome ?? null,
+        feedback_event_id: recorded.feedbackEventId ?? null,
+        previous_confidence: recorded.previousConfidence ?? null,
+        new_confidence: recorded.newConfidence,
+        recorded_at: recorded.recordedAt.toISOString(),
+      });
+      return recorded;
+    },
+    getLineage(memoryId: string, asOf?: Date) {
+      const rows = asOf
+        ? byMemoryBeforeStmt.all(memoryId, asOf.toISOString())
+        : byMemoryStmt.all(memoryId);
+      const events = (rows as ProvenanceRow[]).map(toEvent);
+      const last = events[events.length - 1];
+      return {
+        memoryId,
+        events,
+        invoiceIds: [
+          ...new Set(events.flatMap((e) => (e.invoiceId !== undefined ? [e.invoiceId] : []))),
+        ],
+        approvals: events.filter((e) => e.outcome === 'approved').length,
+        rejections: events.filter((e) => e.outcome === 'rejected').length,
+        ...(last ? { confidence: last.newConfidence } : {}),
+        ...(asOf ? { asOf } : {}),
+      };
+    },
+    findEventsForInvoice(invoiceId: string) {
+      return (byInvoiceStmt.all(invoiceId) as ProvenanceRow[]).map(toEvent);
+    },
+  };
+}
@@ -0,0 +1,265 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { SqliteDatabase } from './db';
+import type { ProposedCorrection, ReviewerCorrection } from '../models/pipeline';
+
+/** `approved` and `rejected` are final; see `REVIEW_TRANSITIONS` in the engine for the rest. */
+export type ReviewStatus = 'pending' | 'in_review' | 'approved' | 'rejected' | 'escalated';
+
+export type ReviewPriority = 'urgent' | 'high' | 'normal' | 'low';
+
+/** Reviewer decision per proposed correction field. */
+export type ReviewDecisions = Record<string, 'approved' | 'rejected'>;
+
+export interface ReviewItem {
+  id: string;
+  runId: string;
+  invoiceId: string;
+  vendorName: string;
+  status: ReviewStatus;
+  priority: ReviewPriority;
+  assignee?: string | undefined;
+  proposedCorrections: ProposedCorrection[];
+  reasoning: string;
+  confidenceScore: number;
+  createdAt: Date;
+  updatedAt: Date;
+  /** SLA deadline for completing the review. */
+  dueAt: Date;
+  assignedAt?: Date | undefined;
+  startedAt?: Date | undefined;
+  escalatedAt?: Date | undefined;
+  completedAt?: Date | undefined;
+  escalationReason?: string | undefined;
+  decisions?: ReviewDecisions | undefined;
+  /** Values the reviewer set, including corrections the engine did not propose. */
+  corrections?: ReviewerCorrection[] | undefined;
+  /** Run that learned from the decisions. */
+  feedbackRunId?: string | undefined;
+}
+
+export type NewReviewItem = Pick<
+  ReviewItem,
+  'runId' | 'invoiceId' | 'vendorName' | 'priority' | 'proposedCorrections' | 'reasoning' | 'confidenceScore' | 'dueAt'
+> & {
+  createdAt?: Date | undefined;
+};
+
+export type ReviewItemUpdate = Partial<
+  Pick<
+    ReviewItem,
+    | 'status'
+    | 'priority'
+    | 'assignee'
+    | 'dueAt'
+    | 'assignedAt'
+    | 'startedAt'
+    | 'escalatedAt'
+    | 'completedAt'
+    | 'escalationReason'
+    | 'decisions'
+    | 'corrections'
+    | 'feedbackRunId'
+  >
+>;
+
+export interface ReviewQueueQuery {
+  status?: ReviewStatus | ReviewStatus[] | undefined;
+  assignee?: string | undefined;
+  invoiceId?: string | undefined;
+  vendorName?: string | undefined;
+  /** Open items (not yet approved or rejected) whose SLA deadline is before this time. */
+  dueBefore?: Date | undefined;
+  limit?: number | undefined;
+}
+
+export interface ReviewQueueRepository {
+  /** Queues the run for review; a run already in the queue returns its existing item. */
+  enqueue(item: NewReviewItem): ReviewItem;
+  getItem(id: string): ReviewItem | undefined;
+  findByRun(runId: string): ReviewItem | undefined;
+  /** Most urgent first, then earliest deadline. */
+  findItems(query: ReviewQueueQuery): ReviewItem[];
+  updateItem(id: string, update: ReviewItemUpdate, at?: Date): ReviewItem;
+}
+
+interface ReviewItemRow {
+  id: string;
+  runId: string;
+  invoiceId: string;
+  vendorName: string;
+  status: ReviewStatus;
+  priority: ReviewPriority;
+  assignee: string | null;
+  proposedCorrections: string;
+  reasoning: string;
+  confidenceScore: number;
+  createdAt: string;
+  updatedAt: string;
+  dueAt: string;
+  assignedAt: string | null;
+  startedAt: string | null;
+  escalatedAt: string | null;
+  completedAt: string | null;
+  escalationReason: string | null;
+  decisions: string | null;
+  corrections: string | null;
+  feedbackRunId: string | null;
+}
+
+const SELECT_COLUMNS = `id, run_id as runId, invoice_id as invoiceId, vendor_name as vendorName, status, priority,
+            assignee, proposed_corrections as proposedCorrections, reasoning,
+            confidence_score as confidenceScore, created_at as createdAt, updated_at as updatedAt,
+            due_at as dueAt, assigned_at as assignedAt, started_at as startedAt,
+            escalated_at as escalatedAt, completed_at as completedAt,
+            escalation_reason as escalationReason, decisions, corrections, feedback_run_id as feedbackRunId`;
+
+const PRIORITY_ORDER = `CASE priority WHEN 'urgent' THEN 0 WHEN 'high' THEN 1 WHEN 'normal' THEN 2 ELSE 3 END`;
+
+const UPDATE_COLUMNS: Record<keyof ReviewItemUpdate, string> = {
+  status: 'status',
+  priority: 'priority',
+  assignee: 'assignee',
+  dueAt: 'due_at',
+  assignedAt: 'assigned_at',
+  startedAt: 'started_at',
+  escalatedAt: 'escalated_at',
+  completedAt: 'completed_at',
+  escalationReason: 'escalation_reason',
+  decisions: 'decisions',
+  corrections: 'corrections',
+  feedbackRunId: 'feedback_run_id',
+};
+
+function toColumnValue(value: unknown): string | number | null {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+  return value as string | number;
+}
+
+function optionalDate(value: string | null): Date | undefined {
+  return value !== null ? new Date(value) : undefined;
+}
+
+function toItem(row: ReviewItemRow): ReviewItem {
+  const assignedAt = optionalDate(row.assignedAt);
+  const startedAt = optionalDate(row.startedAt);
+  const escalatedAt = optionalDate(row.escalatedAt);
+  const completedAt = optionalDate(row.completedAt);
+  return {
+    id: row.id,
+    runId: row.runId,
+    invoiceId: row.invoiceId,
+    vendorName: row.vendorName,
+    status: row.status,
+    priority: row.priority,
+    ...(row.assignee !== null ? { assignee: row.assignee } : {}),
+    proposedCorrections: JSON.parse(row.proposedCorrections) as ProposedCorrection[],
+    reasoning: row.reasoning,
+    confidenceScore: row.confidenceScore,
+    createdAt: new Date(row.createdAt),
+    updatedAt: new Date(row.updatedAt),
+    dueAt: new Date(row.dueAt),
+    ...(assignedAt ? { assignedAt } : {}),
+    ...(startedAt ? { startedAt } : {}),
+    ...(escalatedAt ? { escalatedAt } : {}),
+    ...(completedAt ? { completedAt } : {}),
+    ...(row.escalationReason !== null ? { escalationReason: row.escalationReason } : {}),
+    ...(row.decisions !== null ? { decisions: JSON.parse(row.decisions) as ReviewDecisions } : {}),
+    ...(row.corrections !== null ? { corrections: JSON.parse(row.corrections) as ReviewerCorrection[] } : {}),
+    ...(row.feedbackRunId !== null ? { feedbackRunId: row.feedbackRunId } : {}),
+  };
+}
+
+export function createReviewQueueRepository(db: SqliteDatabase): ReviewQueueRepository {
+  const insertStmt = db.prepare(`
+    INSERT OR IGNORE INTO review_items (
+      id, run_id, invoice_id, vendor_name, status, priority, proposed_corrections, reasoning,
+      confidence_score, created_at, updated_at, due_at
+    )
+    VALUES (
+      @id, @run_id, @invoice_id, @vendor_name, 'pending', @priority, @proposed_corrections, @reasoning,
+      @confidence_score, @created_at, @created_at, @due_at
+    )
+  `);
+
+  const byIdStmt = db.prepare(`SELECT ${SELECT_COLUMNS} FROM review_items WHERE id = ?`);
+  const byRunStmt = db.prepare(`SELECT ${SELECT_COLUMNS} FROM review_items WHERE run_id = ?`);
+
+  function getItem(id: string): ReviewItem | undefined {
+    const row = byIdStmt.get(id) as ReviewItemRow | undefined;
+    return row ? toItem(row) : undefined;
+  }
+
+  function findByRun(runId: string): ReviewItem | undefined {
+    const row = byRunStmt.get(runId) as ReviewItemRow | undefined;
+    return row ? toItem(row) : undefined;
+  }
+
+  return {
+    enqueue(item: NewReviewItem) {
+      insertStmt.run({
+        id: uuidv4(),
+        run_id: item.runId,
+        invoice_id: item.invoiceId,
+        vendor_name: item.vendorName,
+        priority: item.priority,
+        proposed_corrections: JSON.stringify(item.proposedCorrections),
+        reasoning: item.reasoning,
+        confidence_score: item.confidenceScore,
+        created_at: (item.createdAt ?? new Date()).toISOString(),
+        due_at: item.dueAt.toISOString(),
+      });
+      return findByRun(item.runId)!;
+    },
+    getItem,
+    findByRun,
+    findItems(query: ReviewQueueQuery) {
+      const clauses: string[] = [];
+      const params: Array<string | number> = [];
+
+      if (query.status !== undefined) {
+        const statuses = Array.isArray(query.status) ? query.status : [query.status];
+        clauses.push(`status IN (${statuses.map(() => '?').join(', ') || 'NULL'})`);
+        params.push(...statuses);
+      }
+      if (query.assignee !== undefined) {
+        clauses.push('assignee = ?');
+        params.push(query.assignee);
+      }
+      if (query.invoiceId !== undefined) {
+        clauses.push('invoice_id = ?');
+        params.push(query.invoiceId);
+      }
+      if (query.vendorName !== undefined) {
+        clauses.push('vendor_name = ? COLLATE NOCASE');
+        params.push(query.vendorName);
+      }
+      if (query.dueBefore !== undefined) {
+        clauses.push("due_at < ? AND status NOT IN ('approved', 'rejected')");
+        params.push(query.dueBefore.toISOString());
+      }
+      params.push(query.limit ?? -1);
+
+      const rows = db
+        .prepare(
+          `SELECT ${SELECT_COLUMNS} FROM review_items
+           ${clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : ''}
+           ORDER BY ${PRIORITY_ORDER}, due_at, created_at LIMIT ?`,
+        )
+        .all(...params) as ReviewItemRow[];
+      return rows.map(toItem);
+    },
+    updateItem(id: string, update: ReviewItemUpdate, at = new Date()) {
+      const keys = (Object.keys(update) as Array<keyof ReviewItemUpdate>).filter((k) => k in UPDATE_COLUMNS);
+      const assignments = [...keys.map((k) => `${UPDATE_COLUMNS[k]} = ?`), 'updated_at = ?'];
+      const result = db
+        .prepare(`UPDATE review_items SET ${assignments.join(', ')} WHERE id = ?`)
+        .run(...keys.map((k) => toColumnValue(update[k])), at.toISOString(), id);
+      if (result.changes === 0) {
+        throw new Error(`Review item ${id} not found.`);
+      }
+      return getItem(id)!;
+    },
+  };
+}
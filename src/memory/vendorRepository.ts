@@ -0,0 +1,254 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { SqliteDatabase } from './db';
+import type { Vendor, VendorIdentity } from '../models/vendor';
+
+export interface VendorRepository {
+  /** Finds the vendor by VAT ID, IBAN or normalized name alias, or registers a new one. */
+  resolveVendor(identity: VendorIdentity): Vendor;
+  findVendor(identity: VendorIdentity): Vendor | undefined;
+  /** Follows merges, so the id of a merged vendor returns the vendor it was merged into. */
+  getVendor(id: string): Vendor | undefined;
+  listVendors(): Vendor[];
+  addAlias(vendorId: string, alias: string): Vendor;
+  /** Moves aliases and identifiers of `sourceId` to `targetId`; memories are merged separately. */
+  merge(sourceId: string, targetId: string): Vendor;
+}
+
+interface VendorRow {
+  id: string;
+  canonicalName: string;
+  normalizedName: string;
+  vatId: string | null;
+  iban: string | null;
+  mergedInto: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const LEGAL_FORMS = new Set([
+  'gmbh', 'ag', 'kg', 'ohg', 'se', 'ug', 'ek', 'kgaa', 'ltd', 'inc', 'llc', 'plc', 'corp',
+  'sa', 'sarl', 'sas', 'srl', 'spa', 'bv', 'nv', 'ab', 'as', 'oy',
+]);
+
+const TOKEN_SYNONYMS: Record<string, string> = {
+  limited: 'ltd',
+  incorporated: 'inc',
+  corporation: 'corp',
+  aktiengesellschaft: 'ag',
+};
+
+function nameTokens(text: string): string[] {
+  return (
+    text
+      .normalize('NFKD')
+      .replace(/\p{M}/gu, '')
+      .toLowerCase()
+      // Dotted abbreviations collapse into one token: "G.m.b.H." → "gmbh", "Co." → "co".
+      .replace(/[.']/g, '')
+      .match(/[\p{L}\p{N}]+/gu) ?? []
+  ).map((token) => TOKEN_SYNONYMS[token] ?? token);
+}
+
+/**
+ * "Supplier GmbH", "Supplier Gmbh." and "SUPPLIER GMBH, Berlin" all normalize to
+ * "supplier gmbh". Text after a comma is dropped only when the part before it already ends
+ * the name with a legal form, so "Müller, Schmidt & Partner" keeps its second name.
+ */
+export function normalizeVendorName(name: string): string {
+  const [head = '', ...rest] = name.split(',');
+  const headTokens = nameTokens(head);
+  const tokens =
+    rest.length > 0 && headTokens.some((token) => LEGAL_FORMS.has(token))
+      ? headTokens
+      : nameTokens(name);
+  return tokens.join(' ');
+}
+
+export function normalizeVatId(vatId: string): string {
+  return vatId.toUpperCase().replace(/[\s.\-]/g, '');
+}
+
+export function normalizeIban(iban: string): string {
+  return iban.toUpperCase().replace(/\s/g, '');
+}
+
+const SELECT_COLUMNS = `v.id, v.canonical_name as canonicalName, v.normalized_name as normalizedName,
+            v.vat_id as vatId, v.iban, v.merged_into as mergedInto, v.created_at as createdAt,
+            v.updated_at as updatedAt`;
+
+export function createVendorRepository(db: SqliteDatabase): VendorRepository {
+  const byIdStmt = db.prepare(`SELECT ${SELECT_COLUMNS} FROM vendors v WHERE v.id = ?`);
+  const byVatIdStmt = db.prepare(
+    `SELECT ${SELECT_COLUMNS} FROM vendors v WHERE v.vat_id = ? AND v.merged_into IS NULL`,
+  );
+  const byIbanStmt = db.prepare(
+    `SELECT ${SELECT_COLUMNS} FROM vendors v WHERE v.iban = ? AND v.merged_into IS NULL`,
+  );
+  const byAliasStmt = db.prepare(
+    `SELECT ${SELECT_COLUMNS}
+     FROM vendor_aliases a JOIN vendors v ON v.id = a.vendor_id
+     WHERE a.normalized_name = ?`,
+  );
+  const listStmt = db.prepare(
+    `SELECT ${SELECT_COLUMNS} FROM vendors v WHERE v.merged_into IS NULL ORDER BY v.canonical_name`,
+  );
+  const aliasesStmt = db.prepare('SELECT alias FROM vendor_aliases WHERE vendor_id = ? ORDER BY alias');
+
+  const insertVendorStmt = db.prepare(`
+    INSERT INTO vendors (id, canonical_name, normalized_name, vat_id, iban, created_at, updated_at)
+    VALUES (@id, @canonical_name, @normalized_name, @vat_id, @iban, @now, @now)
+  `);
+  const insertAliasStmt = db.prepare(
+    'INSERT OR IGNORE INTO vendor_aliases (normalized_name, alias, vendor_id) VALUES (?, ?, ?)',
+  );
+  const fillIdentifiersStmt = db.prepare(`
+    UPDATE vendors SET
+      vat_id = COALESCE(vat_id, @vat_id),
+      iban = COALESCE(iban, @iban),
+      updated_at = @now
+    WHERE id = @id
+  `);
+  const moveAliasesStmt = db.prepare('UPDATE vendor_aliases SET vendor_id = ? WHERE vendor_id = ?');
+  const markMergedStmt = db.prepare(
+    'UPDATE vendors SET merged_into = @target, updated_at = @now WHERE id = @source OR merged_into = @source',
+  );
+
+  function toVendor(row: VendorRow): Vendor {
+    return {
+      id: row.id,
+      canonicalName: row.canonicalName,
+      normalizedName: row.normalizedName,
+      aliases: (aliasesStmt.all(row.id) as Array<{ alias: string }>).map((a) => a.alias),
+      ...(row.vatId !== null ? { vatId: row.vatId } : {}),
+      ...(row.iban !== null ? { iban: row.iban } : {}),
+      createdAt: new Date(row.createdAt),
+      updatedAt: new Date(row.updatedAt),
+      ...(row.mergedInto !== null ? { mergedInto: row.mergedInto } : {}),
+    };
+  }
+
+  function getRow(id: string): VendorRow | undefined {
+    let row = byIdStmt.get(id) as VendorRow | undefined;
+    // Merges are flattened when they happen, so at most one hop is needed.
+    if (row?.mergedInto) row = byIdStmt.get(row.mergedInto) as VendorRow | undefined;
+    return row;
+  }
+
+  function findRow(identity: VendorIdentity): VendorRow | undefined {
+    const vatId = identity.vatId ? normalizeVatId(identity.vatId) : undefined;
+    const iban = identity.iban ? normalizeIban(identity.iban) : undefined;
+    const fromRawText = new Set(identity.fromRawText ?? []);
+
+    const alias = byAliasStmt.get(normalizeVendorName(identity.name)) as VendorRow | undefined;
+    const named = alias ? getRow(alias.id) : undefined;
+    // An identifier read from the raw text never overrides what the name says.
+    const confirms = (row: VendorRow, key: 'vatId' | 'iban') => !fromRawText.has(key) || row.id === named?.id;
+
+    if (vatId) {
+      const row = byVatIdStmt.get(vatId) as VendorRow | undefined;
+      if (row && confirms(row, 'vatId')) return row;
+    }
+    if (iban) {
+      const row = byIbanStmt.get(iban) as VendorRow | undefined;
+      if (row && confirms(row, 'iban')) return row;
+    }
+
+    // Same name but a different VAT ID is a different legal entity.
+    if (named?.vatId && vatId && named.vatId !== vatId && !fromRawText.has('vatId')) return undefined;
+    return named;
+  }
+
+  /** Drops identifiers read from the raw text that already belong to another vendor. */
+  function ownIdentifiers(identity: VendorIdentity, vendorId: string | undefined) {
+    const fromRawText = new Set(identity.fromRawText ?? []);
+    let vatId = identity.vatId ? normalizeVatId(identity.vatId) : null;
+    let iban = identity.iban ? normalizeIban(identity.iban) : null;
+    if (vatId && fromRawText.has('vatId')) {
+      const owner = byVatIdStmt.get(vatId) as VendorRow | undefined;
+      if (owner && owner.id !== vendorId) vatId = null;
+    }
+    if (iban && fromRawText.has('iban')) {
+      const owner = byIbanStmt.get(iban) as VendorRow | undefined;
+      if (owner && owner.id !== vendorId) iban = null;
+    }
+    return { vatId, iban };
+  }
+
+  const resolveTransaction = db.transaction((identity: VendorIdentity): Vendor => {
+    const now = new Date().toISOString();
+    const normalizedName = normalizeVendorName(identity.name);
+
+    const existing = findRow(identity);
+    if (existing) {
+      const { vatId, iban } = ownIdentifiers(identity, existing.id);
+      insertAliasStmt.run(normalizedName, identity.name, existing.id);
+      if ((vatId && !existing.vatId) || (iban && !existing.iban)) {
+        fillIdentifiersStmt.run({ id: existing.id, vat_id: vatId, iban, now });
+      }
+      return toVendor(getRow(existing.id)!);
+    }
+
+    const { vatId, iban } = ownIdentifiers(identity, undefined);
+    const id = uuidv4();
+    insertVendorStmt.run({
+      id,
+      canonical_name: identity.name,
+      normalized_name: normalizedName,
+      vat_id: vatId,
+      iban,
+      now,
+    });
+    insertAliasStmt.run(normalizedName, identity.name, id);
+    return toVendor(getRow(id)!);
+  });
+
+  const mergeTransaction = db.transaction((sourceId: string, targetId: string): Vendor => {
+    const source = getRow(sourceId);
+    const target = getRow(targetId);
+    if (!source || !target) {
+      throw new Error(`Cannot merge vendors: unknown vendor id ${!source ? sourceId : targetId}.`);
+    }
+    if (source.id === target.id) {
+      throw new Error(`Cannot merge vendor ${source.id} into itself.`);
+    }
+
+    const now = new Date().toISOString();
+    moveAliasesStmt.run(target.id, source.id);
+    fillIdentifiersStmt.run({ id: target.id, vat_id: source.vatId, iban: source.iban, now });
+    markMergedStmt.run({ source: source.id, target: target.id, now });
+    return toVendor(getRow(target.id)!);
+  });
+
+  return {
+    resolveVendor(identity: VendorIdentity) {
+      return resolveTransaction(identity);
+    },
+    findVendor(identity: VendorIdentity) {
+      const row = findRow(identity);
+      return row ? toVendor(row) : undefined;
+    },
+    getVendor(id: string) {
+      const row = getRow(id);
+      return row ? toVendor(row) : undefined;
+    },
+    listVendors() {
+      return (listStmt.all() as VendorRow[]).map(toVendor);
+    },
+    addAlias(vendorId: string, alias: string) {
+      const row = getRow(vendorId);
+      if (!row) {
+        throw new Error(`Cannot add alias: unknown vendor id ${vendorId}.`);
+      }
+      const normalizedName = normalizeVendorName(alias);
+      const owner = byAliasStmt.get(normalizedName) as VendorRow | undefined;
+      if (owner && getRow(owner.id)?.id !== row.id) {
+        throw new Error(`Alias "${alias}" already belongs to vendor ${owner.id}; merge the vendors instead.`);
+      }
+      insertAliasStmt.run(normalizedName, alias, row.id);
+      return toVendor(row);
+    },
+    merge(sourceId: string, targetId: string) {
+      return mergeTransaction(sourceId, targetId);
+    },
+  };
+}
@@ -1,4 +1,4 @@
-export type AuditEventType = 'recall' | 'apply' | 'decide' | 'learn';
+export type AuditEventType = 'recall' | 'apply' | 'poMatch' | 'threeWayMatch' | 'decide' | 'learn';
 
 export interface AuditEvent {
   id: string;
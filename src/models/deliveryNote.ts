@@ -0,0 +1,12 @@
+export interface DeliveryNoteLineItem {
+  sku: string;
+  quantityDelivered: number;
+}
+
+export interface DeliveryNote {
+  dnNumber: string;
+  vendorName: string;
+  poNumber: string;
+  deliveredAt: Date;
+  lineItems: DeliveryNoteLineItem[];
+}
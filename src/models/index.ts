@@ -2,3 +2,6 @@ export * from './invoice';
 export * from './memory';
 export * from './audit';
 export * from './pipeline';
+export * from './purchaseOrder';
+export * from './deliveryNote';
+export * from './vendor';
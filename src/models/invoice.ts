@@ -1,8 +1,14 @@
+export type VatRateCategory = 'standard' | 'intermediate' | 'reduced' | 'superReduced' | 'zero';
+
 export interface InvoiceLineItem {
   id: string;
   description: string;
+  sku?: string | undefined;
   quantity: number;
   unitPrice: number;
+  /** VAT rate stated for this line, as a fraction (0.07) or percentage (7). */
+  taxRate?: number | undefined;
+  taxCategory?: VatRateCategory | undefined;
 }
 
 export interface Invoice {
@@ -5,8 +5,10 @@ export interface Memory {
   kind: MemoryKind;
   content: string;
   embedding?: number[];
+  embeddingModel?: string | undefined;
   createdAt: Date;
   updatedAt: Date;
+  lastUsedAt?: Date | undefined;
   source?: string | undefined;
 }
 
@@ -15,6 +17,8 @@ export type LearnedMemoryCategory = 'vendor' | 'correction' | 'resolution' | 'du
 export interface LearnedMemoryContent {
   category: LearnedMemoryCategory;
   vendorName?: string | undefined;
+  /** Vendor-master id the memory belongs to; aliases of the vendor share it. */
+  vendorId?: string | undefined;
   invoiceNumber?: string | undefined;
   invoiceDate?: string | undefined;
   field?: string | undefined;
@@ -22,5 +26,13 @@ export interface LearnedMemoryContent {
   resolutionStatus?: 'approved' | 'rejected' | undefined;
   confidence: number;
   usageCount: number;
+  /** Reviewed outcomes behind the Beta posterior that `confidence` is derived from. */
+  approvalCount?: number | undefined;
+  rejectionCount?: number | undefined;
   metadata?: Record<string, unknown> | undefined;
 }
+
+export interface LearnedMemoryRecord {
+  memory: Memory;
+  content: LearnedMemoryContent;
+}
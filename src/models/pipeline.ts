@@ -20,9 +20,40 @@ export interface ProposedCorrection {
   applied: boolean;
 }
 
+/** A value a reviewer set for a field, whether or not the engine proposed a correction for it. */
+export interface ReviewerCorrection {
+  field: string;
+  value: unknown;
+  reason?: string | undefined;
+}
+
+export type MatchDiscrepancyType =
+  | 'over_billing'
+  | 'price_variance'
+  | 'undelivered'
+  | 'unmatched_line'
+  | 'cumulative_over_billing'
+  | 'cumulative_undelivered';
+
+export interface MatchDiscrepancy {
+  type: MatchDiscrepancyType;
+  lineItemId: string;
+  sku?: string | undefined;
+  poNumber?: string | undefined;
+  invoicedQuantity: number;
+  orderedQuantity?: number | undefined;
+  deliveredQuantity?: number | undefined;
+  invoicedUnitPrice: number;
+  orderedUnitPrice?: number | undefined;
+  variance: number;
+  exceedsTolerance: boolean;
+  message: string;
+}
+
 export interface MemoryUpdate {
   memoryId: string;
-  previousConfidence: number;
+  /** Absent when the update created the memory. */
+  previousConfidence?: number | undefined;
   newConfidence: number;
   usageCount: number;
   action: 'reinforce' | 'decay' | 'create';
@@ -40,6 +71,9 @@ export interface EngineOutputContract {
   requiresHumanReview: boolean;
   reasoning: string;
   confidenceScore: number;
+  discrepancies: MatchDiscrepancy[];
   memoryUpdates: MemoryUpdate[];
   auditTrail: AuditTrailEntry[];
+  /** Set when the audit trail was persisted to an audit log. */
+  runId?: string | undefined;
 }
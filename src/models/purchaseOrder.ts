@@ -0,0 +1,12 @@
+export interface PurchaseOrderLineItem {
+  sku: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface PurchaseOrder {
+  poNumber: string;
+  vendorName: string;
+  orderedAt: Date;
+  lineItems: PurchaseOrderLineItem[];
+}
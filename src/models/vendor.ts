@@ -0,0 +1,25 @@
+export interface Vendor {
+  id: string;
+  canonicalName: string;
+  /** Name with case, punctuation, legal-form spelling and location suffixes normalized. */
+  normalizedName: string;
+  aliases: string[];
+  vatId?: string | undefined;
+  iban?: string | undefined;
+  createdAt: Date;
+  updatedAt: Date;
+  /** Set when the vendor was merged into another one; lookups follow it. */
+  mergedInto?: string | undefined;
+}
+
+/** What an invoice tells about its vendor. */
+export interface VendorIdentity {
+  name: string;
+  vatId?: string | undefined;
+  iban?: string | undefined;
+  /**
+   * Identifiers read from the raw text instead of supplied by the extractor. They may belong
+   * to another party on the invoice, so they only confirm the vendor the name points to.
+   */
+  fromRawText?: Array<'vatId' | 'iban'> | undefined;
+}
@@ -0,0 +1,428 @@
+import * as http from 'http';
+import { v4 as uuidv4 } from 'uuid';
+import type { SqliteDatabase } from '../memory/db';
+import type { Memory, LearnedMemoryCategory } from '../models/memory';
+import { createMemoryRepository } from '../memory/memoryRepository';
+import { createEngineRunRepository } from '../memory/engineRunRepository';
+import { createAuditLogRepository } from '../memory/auditLogRepository';
+import { createMemoryHistoryRepository } from '../memory/memoryHistoryRepository';
+import { createProcessedInvoiceRepository } from '../memory/processedInvoiceRepository';
+import { createProvenanceRepository } from '../memory/provenanceRepository';
+import { createVendorRepository } from '../memory/vendorRepository';
+import type { ReviewItem, ReviewStatus } from '../memory/reviewQueueRepository';
+import { createReviewQueueRepository } from '../memory/reviewQueueRepository';
+import type { ProcessInvoiceOptions } from '../engine';
+import {
+  assignReview,
+  completeReviewWithLearning,
+  deleteMemoryWithHistory,
+  escalateReview,
+  learnFromRunFeedback,
+  processInvoiceWithMemory,
+  releaseReview,
+  saveMemoryWithHistory,
+  startReview,
+} from '../engine';
+import { OPENAPI_DOCUMENT } from './openapi';
+import type { ApiError } from './validation';
+import {
+  apiError,
+  parseAssignRequest,
+  parseEscalateRequest,
+  parseFeedbackRequest,
+  parseMemoryRequest,
+  parseProcessRequest,
+  parseReviewCompletionRequest,
+} from './validation';
+
+export { OPENAPI_DOCUMENT } from './openapi';
+
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+const MEMORY_CATEGORIES: LearnedMemoryCategory[] = ['vendor', 'correction', 'resolution', 'duplicate'];
+const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'in_review', 'approved', 'rejected', 'escalated'];
+
+export interface ApiServerOptions {
+  db: SqliteDatabase;
+  /** Engine options such as purchase orders or a decision policy; repositories are created from `db`. */
+  engineOptions?: ProcessInvoiceOptions;
+  maxBodyBytes?: number;
+}
+
+interface ApiRequest {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: unknown;
+}
+
+interface ApiResponse {
+  status: number;
+  body?: unknown;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: (request: ApiRequest) => ApiResponse | Promise<ApiResponse>;
+}
+
+function route(method: string, path: string, handler: Route['handler']): Route {
+  const keys: string[] = [];
+  const pattern = path.replace(/:(\w+)/g, (_match, key: string) => {
+    keys.push(key);
+    return '([^/]+)';
+  });
+  return { method, pattern: new RegExp(`^${pattern}$`), keys, handler };
+}
+
+function numberParam(query: URLSearchParams, name: string): number | undefined {
+  const value = query.get(name);
+  if (value === null) return undefined;
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed)) {
+    throw apiError(400, 'validation_error', `Query parameter ${name} must be a number.`);
+  }
+  return parsed;
+}
+
+function pathParam(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw apiError(400, 'validation_error', `Path segment ${value} is not valid percent-encoding.`);
+  }
+}
+
+/** Runs a review queue transition; the engine's errors for disallowed transitions become 409s. */
+function reviewTransition<T>(action: () => T): T {
+  try {
+    return action();
+  } catch (error) {
+    if (error instanceof Error && !('status' in error)) throw apiError(409, 'conflict', error.message);
+    throw error;
+  }
+}
+
+function memoryResource(memory: Memory): Record<string, unknown> {
+  let content: unknown = memory.content;
+  try {
+    content = JSON.parse(memory.content) as unknown;
+  } catch {
+    // non-JSON content is returned as stored
+  }
+  return {
+    id: memory.id,
+    kind: memory.kind,
+    ...(memory.source !== undefined ? { source: memory.source } : {}),
+    createdAt: memory.createdAt,
+    updatedAt: memory.updatedAt,
+    ...(memory.lastUsedAt !== undefined ? { lastUsedAt: memory.lastUsedAt } : {}),
+    content,
+  };
+}
+
+function readJsonBody(req: http.IncomingMessage, maxBytes: number): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= maxBytes) chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (size > maxBytes) {
+        reject(apiError(413, 'payload_too_large', `Request body exceeds ${maxBytes} bytes.`));
+        return;
+      }
+      const text = Buffer.concat(chunks).toString('utf8');
+      if (text.trim() === '') {
+        resolve(undefined);
+        return;
+      }
+      try {
+        resolve(JSON.parse(text) as unknown);
+      } catch (error) {
+        reject(apiError(400, 'invalid_json', `Request body is not valid JSON: ${(error as Error).message}`));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res: http.ServerResponse, status: number, body?: unknown): void {
+  if (body === undefined) {
+    res.writeHead(status).end();
+    return;
+  }
+  const json = JSON.stringify(body);
+  res
+    .writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Content-Length': Buffer.byteLength(json) })
+    .end(json);
+}
+
+/**
+ * HTTP API over the engine and the memory store. Every processed invoice is kept as a run so
+ * reviewers can send feedback later, and flagged runs are queued for review; feedback and
+ * completed reviews re-process the stored invoice with the decisions, which is how the engine
+ * learns.
+ */
+export function createApiServer(options: ApiServerOptions): http.Server {
+  const { db } = options;
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+  const repository = createMemoryRepository(db);
+  const runs = createEngineRunRepository(db);
+  const reviews = createReviewQueueRepository(db);
+  const engineOptions: ProcessInvoiceOptions = {
+    runs,
+    reviewQueue: reviews,
+    invoiceRegistry: createProcessedInvoiceRepository(db),
+    vendors: createVendorRepository(db),
+    provenance: createProvenanceRepository(db),
+    history: createMemoryHistoryRepository(db),
+    auditLog: createAuditLogRepository(db),
+    ...options.engineOptions,
+  };
+  // Feedback is learned asynchronously; this keeps a second request for the same run out meanwhile.
+  // Keyed by run id, so it also covers completing the run's review.
+  const feedbackInFlight = new Set<string>();
+
+  function getMemoryOr404(memoryId: string): Memory {
+    const memory = repository.getMemoryById(memoryId);
+    if (!memory) throw apiError(404, 'not_found', `Memory ${memoryId} not found.`);
+    return memory;
+  }
+
+  function getReviewOr404(reviewId: string): ReviewItem {
+    const item = reviews.getItem(reviewId);
+    if (!item) throw apiError(404, 'not_found', `Review ${reviewId} not found.`);
+    return item;
+  }
+
+  const routes: Route[] = [
+    route('GET', '/openapi.json', () => ({ status: 200, body: OPENAPI_DOCUMENT })),
+
+    route('POST', '/invoices/process', async ({ body }) => {
+      const request = parseProcessRequest(body);
+      const runId = request.runId ?? uuidv4();
+      if (runs.getRun(runId)) throw apiError(409, 'conflict', `Run ${runId} already exists.`);
+
+      const output = await processInvoiceWithMemory(repository, request.invoice, request.rawText, undefined, {
+        ...engineOptions,
+        runId,
+      });
+      return { status: 200, body: output };
+    }),
+
+    route('GET', '/runs/:runId', ({ params }) => {
+      const run = runs.getRun(params.runId!);
+      if (!run) throw apiError(404, 'not_found', `Run ${params.runId} not found.`);
+      return { status: 200, body: run };
+    }),
+
+    route('POST', '/runs/:runId/feedback', async ({ params, body }) => {
+      const runId = params.runId!;
+      const run = runs.getRun(runId);
+      if (!run) throw apiError(404, 'not_found', `Run ${runId} not found.`);
+      if (run.feedbackRunId !== undefined || feedbackInFlight.has(runId)) {
+        throw apiError(409, 'conflict', `Feedback for run ${runId} was already recorded.`);
+      }
+      const review = reviews.findByRun(runId);
+      if (review && review.status !== 'approved' && review.status !== 'rejected') {
+        throw apiError(409, 'conflict', `Run ${runId} is in review ${review.id}; complete the review instead.`);
+      }
+
+      const feedback = parseFeedbackRequest(body);
+      const proposed = new Set(run.proposedCorrections.map((c) => c.field));
+      const unknown = [...feedback.approvedCorrections, ...feedback.rejectedCorrections].filter(
+        (f) => !proposed.has(f),
+      );
+      if (unknown.length > 0) {
+        throw apiError(
+          400,
+          'validation_error',
+          `Run ${runId} proposed no correction for some fields.`,
+          unknown.map((f) => `${f} was not proposed; proposed fields: ${[...proposed].join(', ') || '(none)'}.`),
+        );
+      }
+
+      feedbackInFlight.add(runId);
+      try {
+        const output = await learnFromRunFeedback(repository, runs, runId, feedback, engineOptions);
+        return { status: 200, body: output };
+      } finally {
+        feedbackInFlight.delete(runId);
+      }
+    }),
+
+    route('GET', '/reviews', ({ query }) => {
+      const statuses = query.get('status')?.split(',').map((s) => s.trim());
+      const invalid = (statuses ?? []).filter((s) => !REVIEW_STATUSES.includes(s as ReviewStatus));
+      if (invalid.length > 0) {
+        throw apiError(400, 'validation_error', `status must be one of ${REVIEW_STATUSES.join(', ')}.`);
+      }
+      const items = reviews.findItems({
+        status: statuses as ReviewStatus[] | undefined,
+        assignee: query.get('assignee') ?? undefined,
+        invoiceId: query.get('invoiceId') ?? undefined,
+        vendorName: query.get('vendor') ?? undefined,
+        dueBefore: query.get('overdue') === 'true' ? new Date() : undefined,
+        limit: numberParam(query, 'limit'),
+      });
+      return { status: 200, body: items };
+    }),
+
+    route('GET', '/reviews/:reviewId', ({ params }) => ({ status: 200, body: getReviewOr404(params.reviewId!) })),
+
+    route('POST', '/reviews/:reviewId/assign', ({ params, body }) => {
+      const item = getReviewOr404(params.reviewId!);
+      const { assignee } = parseAssignRequest(body);
+      return { status: 200, body: reviewTransition(() => assignReview(reviews, item.id, assignee)) };
+    }),
+
+    route('POST', '/reviews/:reviewId/start', ({ params }) => {
+      const item = getReviewOr404(params.reviewId!);
+      return { status: 200, body: reviewTransition(() => startReview(reviews, item.id)) };
+    }),
+
+    route('POST', '/reviews/:reviewId/release', ({ params }) => {
+      const item = getReviewOr404(params.reviewId!);
+      return { status: 200, body: reviewTransition(() => releaseReview(reviews, item.id)) };
+    }),
+
+    route('POST', '/reviews/:reviewId/escalate', ({ params, body }) => {
+      const item = getReviewOr404(params.reviewId!);
+      const { reason } = parseEscalateRequest(body);
+      return { status: 200, body: reviewTransition(() => escalateReview(reviews, item.id, reason)) };
+    }),
+
+    route('POST', '/reviews/:reviewId/complete', async ({ params, body }) => {
+      const item = getReviewOr404(params.reviewId!);
+      const completion = parseReviewCompletionRequest(body);
+      if (item.status !== 'in_review') {
+        throw apiError(409, 'conflict', `Review ${item.id} is ${item.status}; only reviews in progress can be completed.`);
+      }
+      const proposed = new Set(item.proposedCorrections.map((c) => c.field));
+      const unknown = Object.keys(completion.decisions).filter((f) => !proposed.has(f));
+      if (unknown.length > 0) {
+        throw apiError(
+          400,
+          'validation_error',
+          `Review ${item.id} has no proposed correction for some fields.`,
+          unknown.map((f) => `${f} was not proposed; proposed fields: ${[...proposed].join(', ') || '(none)'}.`),
+        );
+      }
+      if (feedbackInFlight.has(item.runId)) {
+        throw apiError(409, 'conflict', `Feedback for run ${item.runId} is already being recorded.`);
+      }
+
+      feedbackInFlight.add(item.runId);
+      try {
+        const result = await completeReviewWithLearning(repository, reviews, runs, item.id, completion, engineOptions);
+        return { status: 200, body: result };
+      } finally {
+        feedbackInFlight.delete(item.runId);
+      }
+    }),
+
+    route('GET', '/memories', ({ query }) => {
+      const category = query.get('category') ?? undefined;
+      if (category !== undefined && !MEMORY_CATEGORIES.includes(category as LearnedMemoryCategory)) {
+        throw apiError(400, 'validation_error', `category must be one of ${MEMORY_CATEGORIES.join(', ')}.`);
+      }
+      const records = repository.findLearnedMemories({
+        category: category as LearnedMemoryCategory | undefined,
+        vendorName: query.get('vendor') ?? undefined,
+        vendorId: query.get('vendorId') ?? undefined,
+        field: query.get('field') ?? undefined,
+        minConfidence: numberParam(query, 'minConfidence'),
+        limit: numberParam(query, 'limit'),
+      });
+      return { status: 200, body: records.map((r) => memoryResource(r.memory)) };
+    }),
+
+    route('GET', '/memories/search', ({ query }) => {
+      const q = query.get('q');
+      if (!q?.trim()) throw apiError(400, 'validation_error', 'Query parameter q is required.');
+      const results = repository.searchMemories(q, numberParam(query, 'limit'));
+      return { status: 200, body: results.map((r) => ({ ...memoryResource(r.memory), rank: r.rank })) };
+    }),
+
+    route('POST', '/memories', ({ body }) => {
+      const request = parseMemoryRequest(body);
+      const now = new Date();
+      const memory: Memory = {
+        id: uuidv4(),
+        kind: request.kind,
+        content: JSON.stringify(request.content),
+        ...(request.source !== undefined ? { source: request.source } : {}),
+        createdAt: now,
+        updatedAt: now,
+      };
+      saveMemoryWithHistory(repository, engineOptions.history, memory, 'edit');
+      return { status: 201, body: memoryResource(getMemoryOr404(memory.id)) };
+    }),
+
+    route('GET', '/memories/:memoryId', ({ params }) => ({
+      status: 200,
+      body: memoryResource(getMemoryOr404(params.memoryId!)),
+    })),
+
+    route('PUT', '/memories/:memoryId', ({ params, body }) => {
+      const existing = getMemoryOr404(params.memoryId!);
+      const request = parseMemoryRequest(body);
+      saveMemoryWithHistory(
+        repository,
+        engineOptions.history,
+        {
+          ...existing,
+          kind: request.kind,
+          content: JSON.stringify(request.content),
+          source: request.source,
+          updatedAt: new Date(),
+        },
+        'edit',
+      );
+      return { status: 200, body: memoryResource(getMemoryOr404(existing.id)) };
+    }),
+
+    route('DELETE', '/memories/:memoryId', ({ params }) => {
+      if (!deleteMemoryWithHistory(repository, engineOptions.history, params.memoryId!)) {
+        throw apiError(404, 'not_found', `Memory ${params.memoryId} not found.`);
+      }
+      return { status: 204 };
+    }),
+  ];
+
+  async function handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const matching = routes.filter((r) => r.pattern.test(url.pathname));
+      if (matching.length === 0) throw apiError(404, 'not_found', `No endpoint at ${url.pathname}.`);
+
+      const matched = matching.find((r) => r.method === req.method);
+      if (!matched) {
+        res.setHeader('Allow', [...new Set(matching.map((r) => r.method))].join(', '));
+        throw apiError(405, 'method_not_allowed', `${req.method} is not allowed on ${url.pathname}.`);
+      }
+
+      const values = matched.pattern.exec(url.pathname)!.slice(1);
+      const params = Object.fromEntries(matched.keys.map((key, i) => [key, pathParam(values[i]!)]));
+      const body = req.method === 'POST' || req.method === 'PUT' ? await readJsonBody(req, maxBodyBytes) : undefined;
+
+      const response = await matched.handler({ params, query: url.searchParams, body });
+      send(res, response.status, response.body);
+    } catch (error) {
+      const { status, code, details, message } = error as Partial<ApiError>;
+      if (status === undefined || code === undefined) {
+        console.error(error);
+        send(res, 500, { error: { code: 'internal_error', message: 'Internal server error.' } });
+        return;
+      }
+      send(res, status, { error: { code, message, ...(details ? { details } : {}) } });
+    }
+  }
+
+  return http.createServer((req, res) => {
+    void handle(req, res);
+  });
+}
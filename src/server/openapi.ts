@@ -0,0 +1,621 @@
+/** OpenAPI description of the HTTP API, served at `GET /openapi.json`. */
+export const OPENAPI_DOCUMENT = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Flowbit Invoice Memory API',
+    version: '1.0.0',
+    description:
+      'Processes invoices with learned memory, queues flagged runs for review, learns from reviewer feedback on stored runs and manages memories.',
+  },
+  paths: {
+    '/invoices/process': {
+      post: {
+        summary: 'Process an invoice',
+        description:
+          'Runs recall, apply, matching and decide on the invoice. The run is stored under `runId` so feedback can be sent later; a run that requires human review is also queued under `/reviews`.',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/ProcessRequest' } } },
+        },
+        responses: {
+          '200': {
+            description: 'Engine output for the run',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/EngineOutput' } } },
+          },
+          '400': { $ref: '#/components/responses/Error' },
+          '409': { $ref: '#/components/responses/Error' },
+        },
+      },
+    },
+    '/runs/{runId}': {
+      get: {
+        summary: 'Get a stored run',
+        parameters: [{ $ref: '#/components/parameters/RunId' }],
+        responses: {
+          '200': {
+            description: 'The run',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/EngineRun' } } },
+          },
+          '404': { $ref: '#/components/responses/Error' },
+        },
+      },
+    },
+    '/runs/{runId}/feedback': {
+      post: {
+        summary: 'Send reviewer feedback for a run',
+        description:
+          'Re-processes the stored invoice with the decisions so the engine learns from them. Every field must have been proposed in the run; a run accepts feedback once. Runs with an open review are completed through `/reviews/{reviewId}/complete` instead.',
+        parameters: [{ $ref: '#/components/parameters/RunId' }],
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/FeedbackRequest' } } },
+        },
+        responses: {
+          '200': {
+            description: 'Engine output of the learning run, including `memoryUpdates`',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/EngineOutput' } } },
+          },
+          '400': { $ref: '#/components/responses/Error' },
+          '404': { $ref: '#/components/responses/Error' },
+          '409': { $ref: '#/components/responses/Error' },
+        },
+      },
+    },
+    '/reviews': {
+      get: {
+        summary: 'List reviews',
+        description: 'Most urgent first, then earliest SLA deadline.',
+        parameters: [
+          { name: 'status', in: 'query', description: 'Comma-separated statuses', schema: { type: 'string' } },
+          { name: 'assignee', in: 'query', schema: { type: 'string' } },
+          { name: 'invoiceId', in: 'query', schema: { type: 'string' } },
+          { name: 'vendor', in: 'query', schema: { type: 'string' } },
+          {
+            name: 'overdue',
+            in: 'query',
+            description: 'Only open reviews past their SLA deadline',
+            schema: { type: 'boolean' },
+          },
+          { name: 'limit', in: 'query', schema: { type: 'integer' } },
+        ],
+        responses: {
+          '200': {
+            description: 'Matching reviews',
+            content: {
+              'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/ReviewItem' } } },
+            },
+          },
+          '400': { $ref: '#/components/responses/Error' },
+        },
+      },
+    },
+    '/reviews/{reviewId}': {
+      get: {
+        summary: 'Get a review',
+        parameters: [{ $ref: '#/components/parameters/ReviewId' }],
+        responses: {
+          '200': {
+            description: 'The review',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/ReviewItem' } } },
+          },
+          '404': { $ref: '#/components/responses/Error' },
+        },
+      },
+    },
+    '/reviews/{reviewId}/assign': {
+      post: {
+        summary: 'Assign a review',
+        description: 'Assigns or reassigns an open review without changing its status.',
+        parameters: [{ $ref: '#/components/parameters/ReviewId' }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { type: 'object', required: ['assignee'], properties: { assignee: { type: 'string' } } },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'The updated review',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/ReviewItem' } } },
+          },
+          '400': { $ref: '#/components/responses/Error' },
+          '404': { $ref: '#/components/responses/Error' },
+          '409': { $ref: '#/components/responses/Error' },
+        },
+      },
+    },
+    '/reviews/{reviewId}/start': {
+      post: {
+        summary: 'Start a review',
+        description: 'Moves a pending or escalated review in progress; it must be assigned.',
+        parameters: [{ $ref: '#/components/parameters/ReviewId' }],
+        responses: {
+          '200': {
+            description: 'The updated review',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/ReviewItem' } } },
+          },
+          '404': { $ref: '#/components/responses/Error' },
+          '409': { $ref: '#/components/responses/Error' },
+        },
+      },
+    },
+    '/reviews/{reviewId}/release': {
+      post: {
+        summary: 'Release a review',
+        description: 'Puts a review in progress back to pending.',
+        parameters: [{ $ref: '#/components/parameters/ReviewId' }],
+        responses: {
+          '200': {
+            description: 'The updated review',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/ReviewItem' } } },
+          },
+          '404': { $ref: '#/components/responses/Error' },
+          '409': { $ref: '#/components/responses/Error' },
+        },
+      },
+    },
+    '/reviews/{reviewId}/escalate': {
+      post: {
+        summary: 'Escalate a review',
+        description: 'Raises the review to at least high priority and restarts its SLA.',
+        parameters: [{ $ref: '#/components/parameters/ReviewId' }],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: { type: 'object', required: ['reason'], properties: { reason: { type: 'string' } } },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'The updated review',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/ReviewItem' } } },
+          },
+          '400': { $ref: '#/components/responses/Error' },
+          '404': { $ref: '#/components/responses/Error' },
+          '409': { $ref: '#/components/responses/Error' },
+        },
+      },
+    },
+    '/reviews/{reviewId}/complete': {
+      post: {
+        summary: 'Complete a review',
+        description:
+          'Closes a review in progress. The decisions become feedback and the stored run is re-processed with them, so the engine learns from the review.',
+        parameters: [{ $ref: '#/components/parameters/ReviewId' }],
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/ReviewCompletionRequest' } } },
+        },
+        responses: {
+          '200': {
+            description: 'The completed review and, when there were decisions, the learning run',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/ReviewCompletionResult' } } },
+          },
+          '400': { $ref: '#/components/responses/Error' },
+          '404': { $ref: '#/components/responses/Error' },
+          '409': { $ref: '#/components/responses/Error' },
+        },
+      },
+    },
+    '/memories': {
+      get: {
+        summary: 'List learned memories',
+        parameters: [
+          { name: 'vendor', in: 'query', schema: { type: 'string' } },
+          { name: 'vendorId', in: 'query', schema: { type: 'string' } },
+          { name: 'field', in: 'query', schema: { type: 'string' } },
+          { name: 'category', in: 'query', schema: { $ref: '#/components/schemas/MemoryCategory' } },
+          { name: 'minConfidence', in: 'query', schema: { type: 'number' } },
+          { name: 'limit', in: 'query', schema: { type: 'integer' } },
+        ],
+        responses: {
+          '200': {
+            description: 'Matching memories',
+            content: {
+              'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Memory' } } },
+            },
+          },
+          '400': { $ref: '#/components/responses/Error' },
+        },
+      },
+      post: {
+        summary: 'Create a memory',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/MemoryRequest' } } },
+        },
+        responses: {
+          '201': {
+            description: 'The created memory',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Memory' } } },
+          },
+          '400': { $ref: '#/components/responses/Error' },
+        },
+      },
+    },
+    '/memories/search': {
+      get: {
+        summary: 'Full-text search over memories',
+        parameters: [
+          { name: 'q', in: 'query', required: true, schema: { type: 'string' } },
+          { name: 'limit', in: 'query', schema: { type: 'integer', default: 10 } },
+        ],
+        responses: {
+          '200': {
+            description: 'Memories by relevance; `rank` is the BM25 score, more negative is more relevant',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'array',
+                  items: {
+                    allOf: [
+                      { $ref: '#/components/schemas/Memory' },
+                      { type: 'object', properties: { rank: { type: 'number' } } },
+                    ],
+                  },
+                },
+              },
+            },
+          },
+          '400': { $ref: '#/components/responses/Error' },
+        },
+      },
+    },
+    '/memories/{memoryId}': {
+      parameters: [{ name: 'memoryId', in: 'path', required: true, schema: { type: 'string' } }],
+      get: {
+        summary: 'Get a memory',
+        responses: {
+          '200': {
+            description: 'The memory',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Memory' } } },
+          },
+          '404': { $ref: '#/components/responses/Error' },
+        },
+      },
+      put: {
+        summary: 'Replace a memory',
+        requestBody: {
+          required: true,
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/MemoryRequest' } } },
+        },
+        responses: {
+          '200': {
+            description: 'The updated memory',
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/Memory' } } },
+          },
+          '400': { $ref: '#/components/responses/Error' },
+          '404': { $ref: '#/components/responses/Error' },
+        },
+      },
+      delete: {
+        summary: 'Delete a memory',
+        responses: {
+          '204': { description: 'Deleted' },
+          '404': { $ref: '#/components/responses/Error' },
+        },
+      },
+    },
+    '/openapi.json': {
+      get: {
+        summary: 'This document',
+        responses: { '200': { description: 'OpenAPI document', content: { 'application/json': {} } } },
+      },
+    },
+  },
+  components: {
+    parameters: {
+      RunId: { name: 'runId', in: 'path', required: true, schema: { type: 'string' } },
+      ReviewId: { name: 'reviewId', in: 'path', required: true, schema: { type: 'string' } },
+    },
+    responses: {
+      Error: {
+        description: 'Error',
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+      },
+    },
+    schemas: {
+      Error: {
+        type: 'object',
+        required: ['error'],
+        properties: {
+          error: {
+            type: 'object',
+            required: ['code', 'message'],
+            properties: {
+              code: {
+                type: 'string',
+                enum: [
+                  'invalid_json',
+                  'validation_error',
+                  'not_found',
+                  'method_not_allowed',
+                  'conflict',
+                  'payload_too_large',
+                  'internal_error',
+                ],
+              },
+              message: { type: 'string' },
+              details: { type: 'array', items: { type: 'string' } },
+            },
+          },
+        },
+      },
+      ProcessRequest: {
+        type: 'object',
+        required: ['invoice'],
+        properties: {
+          invoice: {
+            oneOf: [
+              { $ref: '#/components/schemas/NormalizedInvoice' },
+              { $ref: '#/components/schemas/ExtractedInvoice' },
+            ],
+          },
+          rawText: { type: 'string', description: "Defaults to the invoice's `rawText`" },
+          runId: { type: 'string', description: 'Generated when omitted; must be unused' },
+        },
+      },
+      NormalizedInvoice: {
+        type: 'object',
+        required: ['id', 'vendorName', 'invoiceNumber', 'currency', 'totalAmount', 'issuedAt', 'lineItems'],
+        properties: {
+          id: { type: 'string' },
+          vendorName: { type: 'string' },
+          customerName: { type: 'string' },
+          invoiceNumber: { type: 'string' },
+          currency: { type: 'string' },
+          totalAmount: { type: 'number' },
+          issuedAt: { type: 'string', format: 'date-time' },
+          dueAt: { type: 'string', format: 'date-time' },
+          serviceDate: { type: 'string', format: 'date-time' },
+          taxAmount: { type: 'number' },
+          grossAmount: { type: 'number' },
+          rawText: { type: 'string' },
+          metadata: { type: 'object', additionalProperties: true },
+          lineItems: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['id', 'description', 'quantity', 'unitPrice'],
+              properties: {
+                id: { type: 'string' },
+                description: { type: 'string' },
+                sku: { type: 'string' },
+                quantity: { type: 'number' },
+                unitPrice: { type: 'number' },
+              },
+            },
+          },
+        },
+      },
+      ExtractedInvoice: {
+        type: 'object',
+        description: 'Record as produced by the extraction pipeline (`data/invoices_extracted.json`)',
+        required: ['invoiceId', 'vendor', 'fields'],
+        properties: {
+          invoiceId: { type: 'string' },
+          vendor: { type: 'string' },
+          confidence: { type: 'number' },
+          rawText: { type: 'string' },
+          fields: {
+            type: 'object',
+            required: ['invoiceNumber', 'invoiceDate', 'grossTotal', 'lineItems'],
+            properties: {
+              invoiceNumber: { type: 'string' },
+              invoiceDate: { type: 'string', description: 'dd.mm.yyyy, dd-mm-yyyy or ISO' },
+              serviceDate: { type: 'string', nullable: true, description: 'dd.mm.yyyy, dd-mm-yyyy or ISO' },
+              currency: { type: 'string', nullable: true },
+              poNumber: { type: 'string', nullable: true },
+              netTotal: { type: 'number' },
+              taxRate: { type: 'number' },
+              taxTotal: { type: 'number' },
+              grossTotal: { type: 'number' },
+              lineItems: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  required: ['description', 'qty', 'unitPrice'],
+                  properties: {
+                    sku: { type: 'string', nullable: true },
+                    description: { type: 'string' },
+                    qty: { type: 'number' },
+                    unitPrice: { type: 'number' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      ProposedCorrection: {
+        type: 'object',
+        required: ['field', 'proposedValue', 'reason', 'confidence', 'applied'],
+        properties: {
+          field: { type: 'string' },
+          proposedValue: {},
+          reason: { type: 'string' },
+          confidence: { type: 'number' },
+          memoryId: { type: 'string' },
+          applied: { type: 'boolean' },
+        },
+      },
+      EngineOutput: {
+        type: 'object',
+        required: [
+          'normalizedInvoice',
+          'proposedCorrections',
+          'requiresHumanReview',
+          'reasoning',
+          'confidenceScore',
+          'discrepancies',
+          'memoryUpdates',
+          'auditTrail',
+          'runId',
+        ],
+        properties: {
+          runId: { type: 'string' },
+          normalizedInvoice: { $ref: '#/components/schemas/NormalizedInvoice' },
+          proposedCorrections: { type: 'array', items: { $ref: '#/components/schemas/ProposedCorrection' } },
+          requiresHumanReview: { type: 'boolean' },
+          reasoning: { type: 'string' },
+          confidenceScore: { type: 'number' },
+          discrepancies: { type: 'array', items: { type: 'object', additionalProperties: true } },
+          memoryUpdates: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                memoryId: { type: 'string' },
+                previousConfidence: { type: 'number' },
+                newConfidence: { type: 'number' },
+                usageCount: { type: 'integer' },
+                action: { type: 'string', enum: ['reinforce', 'decay', 'create'] },
+              },
+            },
+          },
+          auditTrail: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                step: {
+                  type: 'string',
+                  enum: ['recall', 'apply', 'poMatch', 'threeWayMatch', 'decide', 'learn'],
+                },
+                timestamp: { type: 'string', format: 'date-time' },
+                details: { type: 'object', additionalProperties: true },
+              },
+            },
+          },
+        },
+      },
+      EngineRun: {
+        type: 'object',
+        properties: {
+          runId: { type: 'string' },
+          invoice: { $ref: '#/components/schemas/NormalizedInvoice' },
+          rawText: { type: 'string' },
+          proposedCorrections: { type: 'array', items: { $ref: '#/components/schemas/ProposedCorrection' } },
+          requiresHumanReview: { type: 'boolean' },
+          createdAt: { type: 'string', format: 'date-time' },
+          feedbackRunId: { type: 'string' },
+          feedbackAt: { type: 'string', format: 'date-time' },
+        },
+      },
+      ReviewerCorrection: {
+        type: 'object',
+        description:
+          'A value the reviewer set. For a proposed field it approves the proposal, counting as an edit when the value differs; for any other field it is a new correction.',
+        required: ['field', 'value'],
+        properties: {
+          field: { type: 'string' },
+          value: {},
+          reason: { type: 'string' },
+        },
+      },
+      FeedbackRequest: {
+        type: 'object',
+        description:
+          'Approved and rejected fields as in `proposedCorrections[].field`; at least one approved, rejected or corrected field is required',
+        properties: {
+          approvedCorrections: { type: 'array', items: { type: 'string' } },
+          rejectedCorrections: { type: 'array', items: { type: 'string' } },
+          corrections: { type: 'array', items: { $ref: '#/components/schemas/ReviewerCorrection' } },
+        },
+      },
+      ReviewDecision: { type: 'string', enum: ['approved', 'rejected'] },
+      ReviewItem: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          runId: { type: 'string' },
+          invoiceId: { type: 'string' },
+          vendorName: { type: 'string' },
+          status: { type: 'string', enum: ['pending', 'in_review', 'approved', 'rejected', 'escalated'] },
+          priority: { type: 'string', enum: ['urgent', 'high', 'normal', 'low'] },
+          assignee: { type: 'string' },
+          proposedCorrections: { type: 'array', items: { $ref: '#/components/schemas/ProposedCorrection' } },
+          reasoning: { type: 'string' },
+          confidenceScore: { type: 'number' },
+          createdAt: { type: 'string', format: 'date-time' },
+          updatedAt: { type: 'string', format: 'date-time' },
+          dueAt: { type: 'string', format: 'date-time', description: 'SLA deadline' },
+          assignedAt: { type: 'string', format: 'date-time' },
+          startedAt: { type: 'string', format: 'date-time' },
+          escalatedAt: { type: 'string', format: 'date-time' },
+          completedAt: { type: 'string', format: 'date-time' },
+          escalationReason: { type: 'string' },
+          decisions: { type: 'object', additionalProperties: { $ref: '#/components/schemas/ReviewDecision' } },
+          corrections: { type: 'array', items: { $ref: '#/components/schemas/ReviewerCorrection' } },
+          feedbackRunId: { type: 'string' },
+        },
+      },
+      ReviewCompletionRequest: {
+        type: 'object',
+        required: ['outcome'],
+        properties: {
+          outcome: { $ref: '#/components/schemas/ReviewDecision' },
+          decisions: {
+            type: 'object',
+            description: 'Decision per field as in `proposedCorrections[].field`',
+            additionalProperties: { $ref: '#/components/schemas/ReviewDecision' },
+          },
+          corrections: { type: 'array', items: { $ref: '#/components/schemas/ReviewerCorrection' } },
+        },
+      },
+      ReviewCompletionResult: {
+        type: 'object',
+        required: ['item'],
+        properties: {
+          item: { $ref: '#/components/schemas/ReviewItem' },
+          output: { $ref: '#/components/schemas/EngineOutput' },
+        },
+      },
+      MemoryCategory: { type: 'string', enum: ['vendor', 'correction', 'resolution', 'duplicate'] },
+      MemoryContent: {
+        type: 'object',
+        required: ['category', 'confidence'],
+        additionalProperties: true,
+        properties: {
+          category: { $ref: '#/components/schemas/MemoryCategory' },
+          confidence: { type: 'number', minimum: 0, maximum: 1 },
+          usageCount: { type: 'integer', default: 0 },
+          approvalCount: { type: 'integer' },
+          rejectionCount: { type: 'integer' },
+          vendorName: { type: 'string' },
+          vendorId: { type: 'string' },
+          invoiceNumber: { type: 'string' },
+          invoiceDate: { type: 'string' },
+          field: { type: 'string' },
+          pattern: { type: 'string' },
+          metadata: { type: 'object', additionalProperties: true },
+        },
+      },
+      MemoryRequest: {
+        type: 'object',
+        required: ['content'],
+        properties: {
+          kind: { type: 'string', enum: ['ephemeral', 'long_term', 'system'], default: 'long_term' },
+          source: { type: 'string' },
+          content: { $ref: '#/components/schemas/MemoryContent' },
+        },
+      },
+      Memory: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          kind: { type: 'string', enum: ['ephemeral', 'long_term', 'system'] },
+          source: { type: 'string' },
+          createdAt: { type: 'string', format: 'date-time' },
+          updatedAt: { type: 'string', format: 'date-time' },
+          lastUsedAt: { type: 'string', format: 'date-time' },
+          content: { $ref: '#/components/schemas/MemoryContent' },
+        },
+      },
+    },
+  },
+} as const;
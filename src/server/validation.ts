@@ -0,0 +1,322 @@
+import type { NormalizedInvoice, ReviewerCorrection } from '../models/pipeline';
+import type { LearnedMemoryCategory, LearnedMemoryContent, MemoryKind } from '../models/memory';
+import type { HumanFeedbackInput, ReviewCompletion } from '../engine';
+import type { ReviewDecisions } from '../memory/reviewQueueRepository';
+import type { ExtractedInvoiceRecord } from '../engine/extractedInvoices';
+import { parseInvoiceDate, toNormalizedInvoice } from '../engine/extractedInvoices';
+
+/** An error the server turns into a JSON response with the given status. */
+export interface ApiError extends Error {
+  status: number;
+  code: string;
+  details?: string[] | undefined;
+}
+
+export function apiError(status: number, code: string, message: string, details?: string[]): ApiError {
+  return Object.assign(new Error(message), { status, code, ...(details ? { details } : {}) });
+}
+
+function validationError(details: string[]): ApiError {
+  return apiError(400, 'validation_error', 'Request body is invalid.', details);
+}
+
+const MEMORY_CATEGORIES: LearnedMemoryCategory[] = ['vendor', 'correction', 'resolution', 'duplicate'];
+const MEMORY_KINDS: MemoryKind[] = ['ephemeral', 'long_term', 'system'];
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Collects type errors for one object so a request reports all of them at once. */
+function checker(object: JsonObject, path: string, errors: string[]) {
+  const at = (key: string) => `${path}.${key}`;
+  return {
+    string(key: string, optional = false): void {
+      const value = object[key];
+      if (value === undefined && optional) return;
+      if (typeof value !== 'string' || (!optional && value.length === 0)) {
+        errors.push(`${at(key)} must be a ${optional ? '' : 'non-empty '}string.`);
+      }
+    },
+    number(key: string, optional = false): void {
+      const value = object[key];
+      if (value === undefined && optional) return;
+      if (typeof value !== 'number' || !Number.isFinite(value)) errors.push(`${at(key)} must be a number.`);
+    },
+    date(key: string, optional = false): void {
+      const value = object[key];
+      if (value === undefined && optional) return;
+      if (typeof value !== 'string' || Number.isNaN(new Date(value).getTime())) {
+        errors.push(`${at(key)} must be a date string.`);
+      }
+    },
+    /** Dates as the extraction pipeline writes them (`dd.mm.yyyy`, `dd-mm-yyyy` or ISO); null when optional. */
+    invoiceDate(key: string, optional = false): void {
+      const value = object[key];
+      if ((value === undefined || value === null) && optional) return;
+      if (typeof value !== 'string' || parseInvoiceDate(value) === undefined) {
+        errors.push(`${at(key)} must be a date string.`);
+      }
+    },
+    array(key: string): unknown[] {
+      const value = object[key];
+      if (!Array.isArray(value)) {
+        errors.push(`${at(key)} must be an array.`);
+        return [];
+      }
+      return value;
+    },
+  };
+}
+
+function eachObject(
+  items: unknown[],
+  path: string,
+  errors: string[],
+  check: (item: JsonObject, path: string) => void,
+): void {
+  items.forEach((item, index) => {
+    if (isObject(item)) check(item, `${path}[${index}]`);
+    else errors.push(`${path}[${index}] must be an object.`);
+  });
+}
+
+function parseExtractedInvoice(body: JsonObject, errors: string[]): ExtractedInvoiceRecord {
+  const c = checker(body, 'invoice', errors);
+  c.string('invoiceId');
+  c.string('vendor');
+  c.string('rawText', true);
+  if (!isObject(body.fields)) {
+    errors.push('invoice.fields must be an object.');
+  } else {
+    const f = checker(body.fields, 'invoice.fields', errors);
+    f.string('invoiceNumber');
+    f.invoiceDate('invoiceDate');
+    f.invoiceDate('serviceDate', true);
+    f.number('grossTotal');
+    eachObject(f.array('lineItems'), 'invoice.fields.lineItems', errors, (item, path) => {
+      const li = checker(item, path, errors);
+      li.string('description');
+      li.number('qty');
+      li.number('unitPrice');
+    });
+  }
+  return { rawText: '', ...body } as unknown as ExtractedInvoiceRecord;
+}
+
+function parseNormalizedInvoice(body: JsonObject, errors: string[]): NormalizedInvoice {
+  const c = checker(body, 'invoice', errors);
+  c.string('id');
+  c.string('vendorName');
+  c.string('invoiceNumber');
+  c.string('currency');
+  c.number('totalAmount');
+  c.date('issuedAt');
+  c.date('dueAt', true);
+  c.date('serviceDate', true);
+  c.number('taxAmount', true);
+  c.number('grossAmount', true);
+  c.string('rawText', true);
+  if (body.metadata !== undefined && !isObject(body.metadata)) {
+    errors.push('invoice.metadata must be an object.');
+  }
+  eachObject(c.array('lineItems'), 'invoice.lineItems', errors, (item, path) => {
+    const li = checker(item, path, errors);
+    li.string('id');
+    li.string('description');
+    li.string('sku', true);
+    li.number('quantity');
+    li.number('unitPrice');
+  });
+
+  const invoice = body as unknown as NormalizedInvoice & {
+    issuedAt: string;
+    dueAt?: string;
+    serviceDate?: string;
+  };
+  return {
+    ...invoice,
+    customerName: typeof body.customerName === 'string' ? body.customerName : invoice.vendorName,
+    issuedAt: new Date(invoice.issuedAt),
+    ...(invoice.dueAt !== undefined ? { dueAt: new Date(invoice.dueAt) } : {}),
+    ...(invoice.serviceDate !== undefined ? { serviceDate: new Date(invoice.serviceDate) } : {}),
+  };
+}
+
+export interface ProcessRequest {
+  invoice: NormalizedInvoice;
+  rawText: string;
+  runId?: string | undefined;
+}
+
+/**
+ * `invoice` is either a normalized invoice or a raw extracted record as produced by the
+ * extraction pipeline (recognized by its `fields` object). `rawText` defaults to the invoice's.
+ */
+export function parseProcessRequest(body: unknown): ProcessRequest {
+  if (!isObject(body)) throw validationError(['Body must be a JSON object.']);
+  const errors: string[] = [];
+  const c = checker(body, 'body', errors);
+  c.string('rawText', true);
+  c.string('runId', true);
+  if (!isObject(body.invoice)) throw validationError([...errors, 'body.invoice must be an object.']);
+
+  const extracted = body.invoice.fields !== undefined;
+  const record = extracted ? parseExtractedInvoice(body.invoice, errors) : undefined;
+  const invoice = extracted ? undefined : parseNormalizedInvoice(body.invoice, errors);
+  if (errors.length > 0) throw validationError(errors);
+
+  const normalized = record ? toNormalizedInvoice(record) : invoice!;
+  return {
+    invoice: normalized,
+    rawText: typeof body.rawText === 'string' ? body.rawText : (normalized.rawText ?? ''),
+    ...(typeof body.runId === 'string' ? { runId: body.runId } : {}),
+  };
+}
+
+function parseCorrections(body: JsonObject, errors: string[]): ReviewerCorrection[] {
+  if (body.corrections === undefined) return [];
+  const corrections: ReviewerCorrection[] = [];
+  eachObject(checker(body, 'body', errors).array('corrections'), 'body.corrections', errors, (item, path) => {
+    const c = checker(item, path, errors);
+    c.string('field');
+    c.string('reason', true);
+    if (item.value === undefined) errors.push(`${path}.value is required.`);
+    corrections.push({
+      field: item.field as string,
+      value: item.value,
+      ...(typeof item.reason === 'string' ? { reason: item.reason } : {}),
+    });
+  });
+  const fields = corrections.map((c) => c.field);
+  const repeated = [...new Set(fields.filter((f, i) => fields.indexOf(f) !== i))];
+  if (repeated.length > 0) errors.push(`Fields corrected more than once: ${repeated.join(', ')}.`);
+  return corrections;
+}
+
+/**
+ * `corrections` carry the reviewer's values: an edit of a proposed field, or a correction the
+ * engine did not propose.
+ */
+export function parseFeedbackRequest(body: unknown): HumanFeedbackInput {
+  if (!isObject(body)) throw validationError(['Body must be a JSON object.']);
+  const errors: string[] = [];
+  const list = (key: string): string[] => {
+    const value = body[key];
+    if (value === undefined) return [];
+    if (!Array.isArray(value) || value.some((v) => typeof v !== 'string')) {
+      errors.push(`body.${key} must be an array of field names.`);
+      return [];
+    }
+    return value as string[];
+  };
+
+  const feedback = {
+    approvedCorrections: list('approvedCorrections'),
+    rejectedCorrections: list('rejectedCorrections'),
+  };
+  const corrections = parseCorrections(body, errors);
+  const decided = feedback.approvedCorrections.length + feedback.rejectedCorrections.length + corrections.length;
+  if (errors.length === 0 && decided === 0) {
+    errors.push('At least one approved, rejected or corrected field is required.');
+  }
+  const both = feedback.approvedCorrections.filter((f) => feedback.rejectedCorrections.includes(f));
+  if (both.length > 0) errors.push(`Fields both approved and rejected: ${both.join(', ')}.`);
+  const rejectedWithValue = corrections.filter((c) => feedback.rejectedCorrections.includes(c.field));
+  if (rejectedWithValue.length > 0) {
+    errors.push(`Fields both rejected and corrected: ${rejectedWithValue.map((c) => c.field).join(', ')}.`);
+  }
+  if (errors.length > 0) throw validationError(errors);
+  return corrections.length > 0 ? { ...feedback, corrections } : feedback;
+}
+
+export interface MemoryRequest {
+  kind: MemoryKind;
+  content: LearnedMemoryContent;
+  source?: string | undefined;
+}
+
+export function parseMemoryRequest(body: unknown): MemoryRequest {
+  if (!isObject(body)) throw validationError(['Body must be a JSON object.']);
+  const errors: string[] = [];
+  if (body.kind !== undefined && !MEMORY_KINDS.includes(body.kind as MemoryKind)) {
+    errors.push(`body.kind must be one of ${MEMORY_KINDS.join(', ')}.`);
+  }
+  checker(body, 'body', errors).string('source', true);
+  if (!isObject(body.content)) throw validationError([...errors, 'body.content must be an object.']);
+
+  const content = body.content;
+  const c = checker(content, 'body.content', errors);
+  if (!MEMORY_CATEGORIES.includes(content.category as LearnedMemoryCategory)) {
+    errors.push(`body.content.category must be one of ${MEMORY_CATEGORIES.join(', ')}.`);
+  }
+  c.number('confidence');
+  if (typeof content.confidence === 'number' && (content.confidence < 0 || content.confidence > 1)) {
+    errors.push('body.content.confidence must be between 0 and 1.');
+  }
+  c.number('usageCount', true);
+  c.number('approvalCount', true);
+  c.number('rejectionCount', true);
+  for (const key of ['vendorName', 'vendorId', 'invoiceNumber', 'invoiceDate', 'field', 'pattern']) {
+    c.string(key, true);
+  }
+  if (content.metadata !== undefined && !isObject(content.metadata)) {
+    errors.push('body.content.metadata must be an object.');
+  }
+  if (errors.length > 0) throw validationError(errors);
+
+  return {
+    kind: (body.kind as MemoryKind | undefined) ?? 'long_term',
+    content: { usageCount: 0, ...content } as unknown as LearnedMemoryContent,
+    ...(typeof body.source === 'string' ? { source: body.source } : {}),
+  };
+}
+
+export function parseAssignRequest(body: unknown): { assignee: string } {
+  if (!isObject(body)) throw validationError(['Body must be a JSON object.']);
+  const errors: string[] = [];
+  checker(body, 'body', errors).string('assignee');
+  if (errors.length > 0) throw validationError(errors);
+  return { assignee: body.assignee as string };
+}
+
+export function parseEscalateRequest(body: unknown): { reason: string } {
+  if (!isObject(body)) throw validationError(['Body must be a JSON object.']);
+  const errors: string[] = [];
+  checker(body, 'body', errors).string('reason');
+  if (errors.length > 0) throw validationError(errors);
+  return { reason: body.reason as string };
+}
+
+export function parseReviewCompletionRequest(body: unknown): ReviewCompletion {
+  if (!isObject(body)) throw validationError(['Body must be a JSON object.']);
+  const errors: string[] = [];
+  if (body.outcome !== 'approved' && body.outcome !== 'rejected') {
+    errors.push('body.outcome must be one of approved, rejected.');
+  }
+  const decisions = body.decisions ?? {};
+  if (!isObject(decisions)) {
+    errors.push('body.decisions must be an object.');
+  } else {
+    for (const [field, decision] of Object.entries(decisions)) {
+      if (decision !== 'approved' && decision !== 'rejected') {
+        errors.push(`body.decisions.${field} must be one of approved, rejected.`);
+      }
+    }
+  }
+  const corrections = parseCorrections(body, errors);
+  if (isObject(decisions)) {
+    const rejectedWithValue = corrections.filter((c) => decisions[c.field] === 'rejected');
+    if (rejectedWithValue.length > 0) {
+      errors.push(`Fields both rejected and corrected: ${rejectedWithValue.map((c) => c.field).join(', ')}.`);
+    }
+  }
+  if (errors.length > 0) throw validationError(errors);
+  return {
+    outcome: body.outcome as ReviewCompletion['outcome'],
+    decisions: decisions as ReviewDecisions,
+    ...(corrections.length > 0 ? { corrections } : {}),
+  };
+}
@@ -15,6 +15,8 @@ declare module 'better-sqlite3' {
 
   interface Database {
     prepare(sql: string): Statement;
+    exec(source: string): this;
+    transaction<F extends (...args: any[]) => any>(fn: F): F;
     pragma(source: string): unknown;
     close(): void;
   }
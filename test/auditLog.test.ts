@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createAuditLogRepository } from '../src/memory';
+import type { AuditTrailEntry } from '../src/models/pipeline';
+import { memoryDatabase } from './helpers';
+
+function trail(memoryId: string): AuditTrailEntry[] {
+  return [
+    { step: 'recall', timestamp: new Date('2024-03-10T10:00:00.000Z'), details: { recalledMemories: [{ memoryId }] } },
+    { step: 'decide', timestamp: new Date('2024-03-10T10:00:01.000Z'), details: { requiresHumanReview: false } },
+  ];
+}
+
+function populatedLog() {
+  const db = memoryDatabase();
+  const auditLog = createAuditLogRepository(db);
+  auditLog.appendRun({ runId: 'run-1', invoiceId: 'INV-1', vendorName: 'Supplier GmbH', entries: trail('m1') });
+  auditLog.appendRun({ runId: 'run-2', invoiceId: 'INV-2', vendorName: 'Parts AG', entries: trail('m2') });
+  // Tampering needs the append-only triggers out of the way.
+  const tamper = (sql: string) => {
+    db.exec('DROP TRIGGER audit_log_no_update; DROP TRIGGER audit_log_no_delete;');
+    db.exec(sql);
+  };
+  return { db, auditLog, tamper };
+}
+
+describe('audit log', () => {
+  it('chains the entries of every run', () => {
+    const { auditLog } = populatedLog();
+    assert.deepEqual(auditLog.verifyChain(), { valid: true, entriesChecked: 4 });
+    const [first, second] = auditLog.getRun('run-2');
+    assert.equal(second?.previousHash, first?.hash);
+    assert.deepEqual(auditLog.findEntries({ memoryId: 'm2' }).map((e) => e.runId), ['run-2']);
+  });
+
+  it('rejects updates and deletes', () => {
+    const { db } = populatedLog();
+    assert.throws(() => db.exec("UPDATE audit_log SET vendor_name = 'Other'"), /append-only/);
+    assert.throws(() => db.exec('DELETE FROM audit_log'), /append-only/);
+  });
+
+  it('detects a modified entry', () => {
+    const { auditLog, tamper } = populatedLog();
+    tamper(`UPDATE audit_log SET details = '{"requiresHumanReview":true}' WHERE sequence = 2`);
+    const result = auditLog.verifyChain();
+    assert.equal(result.valid, false);
+    assert.equal(result.brokenAt?.sequence, 2);
+    assert.match(result.brokenAt?.reason ?? '', /modified/);
+  });
+
+  it('detects a removed entry', () => {
+    const { auditLog, tamper } = populatedLog();
+    tamper('DELETE FROM audit_log WHERE sequence = 2');
+    const result = auditLog.verifyChain();
+    assert.equal(result.valid, false);
+    assert.equal(result.brokenAt?.sequence, 3);
+    assert.match(result.brokenAt?.reason ?? '', /removed or reordered/);
+  });
+});
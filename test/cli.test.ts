@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { CLI_EXIT_CODES, runCli } from '../src/cli';
+import { createMemoryHistoryRepository, createMemoryRepository, openMemoryDatabase } from '../src/memory';
+import { learnedMemory, temporaryDatabaseFile } from './helpers';
+
+describe('runCli', () => {
+  let database: ReturnType<typeof temporaryDatabaseFile>;
+  let stdout: string[];
+  let stderr: string[];
+
+  beforeEach(() => {
+    database = temporaryDatabaseFile();
+    stdout = [];
+    stderr = [];
+  });
+  afterEach(() => database.remove());
+
+  function cli(...args: string[]): Promise<number> {
+    return runCli([...args, '--db', database.file], {
+      stdout: (text) => stdout.push(text),
+      stderr: (text) => stderr.push(text),
+    });
+  }
+
+  it('reports usage errors', async () => {
+    assert.equal(await runCli([], { stdout: () => {}, stderr: () => {} }), CLI_EXIT_CODES.usage);
+    assert.equal(await cli('unknown'), CLI_EXIT_CODES.usage);
+    assert.equal(await cli('memory', 'list', '--format', 'yaml'), CLI_EXIT_CODES.usage);
+    assert.equal(await cli('memory', 'list', '--limit', 'many'), CLI_EXIT_CODES.usage);
+    assert.equal(await cli('feedback', '--approve', 'taxAmount'), CLI_EXIT_CODES.usage);
+  });
+
+  it('reports missing memories, runs and invoices as not found', async () => {
+    assert.equal(await cli('memory', 'show', 'missing'), CLI_EXIT_CODES.notFound);
+    assert.equal(await cli('memory', 'delete', 'missing'), CLI_EXIT_CODES.notFound);
+    assert.equal(await cli('feedback', '--run', 'missing', '--approve', 'taxAmount'), CLI_EXIT_CODES.notFound);
+    assert.equal(
+      await cli('process', 'data/invoices_extracted.json', '--invoice-id', 'INV-X'),
+      CLI_EXIT_CODES.notFound,
+    );
+    assert.equal(await cli('process', 'no-such-file.json'), CLI_EXIT_CODES.error);
+  });
+
+  it('learns from feedback on a stored run once', async () => {
+    assert.equal(
+      await cli('process', 'data/invoices_extracted.json', '--invoice-id', 'INV-B-001', '--run-id', 'r1'),
+      CLI_EXIT_CODES.needsReview,
+    );
+
+    assert.equal(await cli('feedback', '--run', 'r1', '--approve', 'currency'), CLI_EXIT_CODES.usage);
+    assert.equal(
+      await cli('feedback', '--run', 'r1', '--reject', 'taxAmount', '--correct', 'taxAmount=380'),
+      CLI_EXIT_CODES.usage,
+    );
+    assert.equal(
+      await cli('feedback', '--run', 'r1', '--approve', 'taxAmount,grossAmount', '--json'),
+      CLI_EXIT_CODES.success,
+    );
+    const output = JSON.parse(stdout[stdout.length - 1]!) as { memoryUpdates: unknown[] };
+    assert.ok(output.memoryUpdates.length > 0);
+
+    assert.equal(await cli('feedback', '--run', 'r1', '--approve', 'taxAmount'), CLI_EXIT_CODES.error);
+    assert.match(stderr[stderr.length - 1]!, /already recorded/);
+  });
+
+  it('records deleted memories in the history', async () => {
+    const db = openMemoryDatabase(database.file);
+    createMemoryRepository(db).saveMemory(learnedMemory('m1', { category: 'vendor', confidence: 0.8, usageCount: 1 }));
+    db.close();
+
+    assert.equal(await cli('memory', 'delete', 'm1'), CLI_EXIT_CODES.success);
+    const check = openMemoryDatabase(database.file);
+    const events = createMemoryHistoryRepository(check).findEvents({ memoryId: 'm1' });
+    assert.deepEqual(events.map((e) => e.type), ['delete']);
+    check.close();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { betaCdf, betaQuantile, estimateConfidence, seedEvidenceCounts } from '../src/engine/confidence';
+
+const close = (actual: number, expected: number, epsilon = 1e-6) =>
+  assert.ok(Math.abs(actual - expected) < epsilon, `${actual} is not close to ${expected}`);
+
+describe('betaCdf and betaQuantile', () => {
+  it('match closed forms of the Beta distribution', () => {
+    close(betaCdf(0.3, 1, 1), 0.3);
+    close(betaCdf(0.5, 2, 2), 0.5);
+    close(betaCdf(0.5, 3, 1), 0.125);
+    close(betaQuantile(0.1, 1, 1), 0.1);
+    close(betaCdf(betaQuantile(0.1, 8, 3), 8, 3), 0.1);
+  });
+});
+
+describe('estimateConfidence', () => {
+  it('uses the category prior with no evidence', () => {
+    assert.equal(estimateConfidence(0, 0, 'vendor').mean, 0.75);
+    assert.equal(estimateConfidence(0, 0, 'resolution').mean, 0.5);
+    assert.equal(estimateConfidence(0, 0, 'vendor', { priors: { vendor: { alpha: 1, beta: 4 } } }).mean, 0.2);
+  });
+
+  it('moves with approvals and rejections and narrows as evidence grows', () => {
+    const few = estimateConfidence(2, 0, 'vendor');
+    const many = estimateConfidence(20, 0, 'vendor');
+    close(few.mean, 5 / 6);
+    assert.ok(many.mean > few.mean);
+    assert.ok(many.mean - many.lowerBound < few.mean - few.lowerBound);
+    assert.ok(estimateConfidence(2, 2, 'vendor').mean < few.mean);
+    assert.ok(
+      estimateConfidence(5, 0, 'vendor', { credibleMass: 0.99 }).lowerBound <
+        estimateConfidence(5, 0, 'vendor').lowerBound,
+    );
+  });
+
+  it('ignores negative counts', () => {
+    assert.equal(estimateConfidence(-3, -1, 'vendor').mean, 0.75);
+  });
+});
+
+describe('seedEvidenceCounts', () => {
+  it('keeps stored counts and derives them from usage for older memories', () => {
+    assert.deepEqual(
+      seedEvidenceCounts({ confidence: 0.9, usageCount: 10, approvalCount: 4, rejectionCount: 1 }),
+      { approvals: 4, rejections: 1 },
+    );
+    assert.deepEqual(seedEvidenceCounts({ confidence: 0.8, usageCount: 10 }), { approvals: 8, rejections: 2 });
+    assert.deepEqual(seedEvidenceCounts({}), { approvals: 0, rejections: 0 });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import type { ConflictResolutionStrategy } from '../src/engine';
+import { detectMemoryConflicts, processInvoiceWithMemory } from '../src/engine';
+import type { ScoredLearnedMemory } from '../src/engine/recall';
+import { createMemoryRepository } from '../src/memory';
+import type { LearnedMemoryContent } from '../src/models/memory';
+import { invoice, learnedMemory, memoryDatabase } from './helpers';
+
+function freightMemory(sku: string, approvals: number): LearnedMemoryContent {
+  return {
+    category: 'vendor',
+    vendorName: 'Supplier GmbH',
+    field: 'freightSku',
+    confidence: 0.9,
+    usageCount: approvals,
+    approvalCount: approvals,
+    rejectionCount: 0,
+    metadata: { proposedValue: sku },
+  };
+}
+
+function scored(id: string, content: LearnedMemoryContent, updatedAt: string): ScoredLearnedMemory {
+  return { memory: learnedMemory(id, content, new Date(updatedAt)), content, score: 1, rawConfidence: 0.9 };
+}
+
+const older = scored('older', freightMemory('FREIGHT', 12), '2024-01-01');
+const newer = scored('newer', freightMemory('SHIP-01', 4), '2024-06-01');
+
+describe('detectMemoryConflicts', () => {
+  it('resolves by net evidence, by recency or not at all', () => {
+    const byEvidence = detectMemoryConflicts([older, newer]);
+    assert.equal(byEvidence.conflicts[0]?.winnerMemoryId, 'older');
+    assert.deepEqual([...byEvidence.overruledMemoryIds], ['newer']);
+
+    const byRecency = detectMemoryConflicts([older, newer], 'mostRecent');
+    assert.equal(byRecency.conflicts[0]?.winnerMemoryId, 'newer');
+    assert.deepEqual([...byRecency.overruledMemoryIds], ['older']);
+
+    const escalated = detectMemoryConflicts([older, newer], 'escalate');
+    assert.equal(escalated.conflicts[0]?.resolved, false);
+    assert.equal(escalated.overruledMemoryIds.size, 0);
+    assert.match(escalated.conflicts[0]!.reason, /escalated for review/);
+  });
+
+  it('escalates a tie and ignores memories that agree', () => {
+    const tied = scored('tied', freightMemory('SHIP-01', 12), '2024-06-01');
+    const tie = detectMemoryConflicts([older, tied]);
+    assert.equal(tie.conflicts[0]?.resolved, false);
+    assert.match(tie.conflicts[0]!.reason, /found no single winner/);
+
+    const agreeing = scored('agreeing', freightMemory('FREIGHT', 2), '2024-06-01');
+    assert.deepEqual(detectMemoryConflicts([older, agreeing]).conflicts, []);
+  });
+});
+
+describe('conflicting memories during processing', () => {
+  const freightInvoice = invoice({
+    lineItems: [{ id: 'L1', description: 'Seefracht Hamburg', quantity: 1, unitPrice: 100 }],
+  });
+
+  async function run(conflictResolution: ConflictResolutionStrategy) {
+    const repository = createMemoryRepository(memoryDatabase());
+    for (const { memory } of [older, newer]) repository.saveMemory({ ...memory, updatedAt: new Date() });
+    return processInvoiceWithMemory(repository, freightInvoice, '', undefined, {
+      policy: { version: 'test', defaults: { autoApply: 0.8, suggest: 0.7 }, conflictResolution },
+    });
+  }
+
+  it('uses the winning memory and records the conflict in the audit trail', async () => {
+    const output = await run('highestEvidence');
+    assert.deepEqual(
+      output.proposedCorrections.map(({ field, proposedValue, memoryId }) => [field, proposedValue, memoryId]),
+      [['lineItem:L1:sku', 'FREIGHT', 'older']],
+    );
+    const apply = output.auditTrail.find((step) => step.step === 'apply');
+    assert.equal((apply?.details.conflicts as unknown[] | undefined)?.length, 1);
+  });
+
+  it('requires review when the conflict is escalated', async () => {
+    const output = await run('escalate');
+    assert.equal(output.requiresHumanReview, true);
+    assert.equal(output.proposedCorrections[0]?.applied, false);
+    assert.match(output.reasoning, /Learned memories disagree on freightSku/);
+  });
+});
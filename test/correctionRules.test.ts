@@ -0,0 +1,145 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { processInvoiceWithMemory } from '../src/engine';
+import { applyMemoriesToContext } from '../src/engine/apply';
+import { inferFieldDerivation } from '../src/engine/fieldLearning';
+import type { CorrectionRule } from '../src/engine/correctionRules';
+import {
+  BUILT_IN_CORRECTION_RULES,
+  createCorrectionRuleRegistry,
+  currencyRule,
+  freightSkuRule,
+} from '../src/engine/correctionRules';
+import { createMemoryRepository } from '../src/memory';
+import type { LearnedMemoryContent } from '../src/models/memory';
+import { emptyRecall, invoice, learnedMemory, memoryDatabase } from './helpers';
+
+function constantRule(id: string, field: string, defaultConfidence: number): CorrectionRule {
+  return {
+    id,
+    detect: () => true,
+    propose: () => [{ field, proposedValue: id, reason: `${id} rule`, defaultConfidence }],
+    apply(context, proposal) {
+      context.normalizedInvoice.customerName = proposal.proposedValue as string;
+    },
+  };
+}
+
+describe('createCorrectionRuleRegistry', () => {
+  it('starts with the built-in rules and keeps registration order', () => {
+    const registry = createCorrectionRuleRegistry();
+    assert.deepEqual(
+      registry.list().map((r) => r.id),
+      ['serviceDate', 'vatIncluded', 'currency', 'freightSku', 'skonto', 'learnedFields'],
+    );
+    assert.equal(registry.list().length, BUILT_IN_CORRECTION_RULES.length);
+
+    registry.register(constantRule('custom', 'customerName', 0.9));
+    assert.equal(registry.list()[registry.list().length - 1]?.id, 'custom');
+    assert.throws(() => registry.register(constantRule('custom', 'customerName', 0.9)), /already registered/);
+    assert.equal(registry.unregister('currency'), true);
+    assert.equal(registry.unregister('currency'), false);
+    assert.equal(registry.get('currency'), undefined);
+  });
+});
+
+describe('applyMemoriesToContext', () => {
+  it('applies, suggests or drops rule proposals by the policy thresholds', () => {
+    const result = applyMemoriesToContext({
+      invoice: invoice(),
+      rawText: '',
+      recall: emptyRecall(),
+      rules: [
+        constantRule('high', 'customerName', 0.9),
+        constantRule('medium', 'notes', 0.75),
+        constantRule('low', 'x', 0.5),
+      ],
+    });
+    assert.deepEqual(
+      result.proposedCorrections.map(({ field, applied }) => [field, applied]),
+      [
+        ['customerName', true],
+        ['notes', false],
+      ],
+    );
+    assert.equal(result.normalizedInvoice.customerName, 'high');
+  });
+
+  it('lets later rules see corrections applied by earlier ones', () => {
+    const seen: string[] = [];
+    const observer: CorrectionRule = {
+      id: 'observer',
+      detect(context) {
+        seen.push(context.normalizedInvoice.currency, ...context.proposedCorrections.map((c) => c.field));
+        return false;
+      },
+      propose: () => [],
+      apply: () => {},
+    };
+    applyMemoriesToContext({
+      invoice: invoice({ currency: '' }),
+      rawText: 'Total 100,00 EUR',
+      recall: emptyRecall(),
+      rules: [currencyRule, observer],
+    });
+    assert.deepEqual(seen, ['', 'currency']);
+  });
+
+  it('runs the built-in freight rule only for freight lines', () => {
+    const result = applyMemoriesToContext({
+      invoice: invoice({
+        lineItems: [
+          { id: 'L1', description: 'Seefracht Hamburg', quantity: 1, unitPrice: 100 },
+          { id: 'L2', description: 'Widget', quantity: 1, unitPrice: 10 },
+        ],
+      }),
+      rawText: '',
+      recall: emptyRecall(),
+      rules: [freightSkuRule],
+      policy: { version: 'test', defaults: { autoApply: 0.8, suggest: 0.5 } },
+    });
+    assert.deepEqual(
+      result.proposedCorrections.map(({ field, proposedValue }) => [field, proposedValue]),
+      [['lineItem:L1:sku', 'FREIGHT']],
+    );
+  });
+});
+
+describe('serviceDateRule', () => {
+  const serviceDateMemory = (metadata: Record<string, unknown>): LearnedMemoryContent => ({
+    category: 'vendor',
+    vendorName: 'Supplier GmbH',
+    field: 'serviceDate',
+    confidence: 0.9,
+    usageCount: 5,
+    metadata,
+  });
+
+  it('fills a missing service date from a literal vendor memory', async () => {
+    const repository = createMemoryRepository(memoryDatabase());
+    repository.saveMemory(learnedMemory('m1', serviceDateMemory({ proposedValue: '2024-01-01' }), new Date()));
+
+    const output = await processInvoiceWithMemory(repository, invoice(), '', undefined);
+    const [proposal] = output.proposedCorrections;
+    assert.equal(proposal?.field, 'serviceDate');
+    assert.equal(proposal?.proposedValue, '2024-01-01');
+    assert.equal(proposal?.reason, 'Field serviceDate inferred from learned vendor memory for Supplier GmbH.');
+    assert.equal(proposal?.memoryId, 'm1');
+  });
+
+  it('leaves extracted service dates to the learned field rule', async () => {
+    const repository = createMemoryRepository(memoryDatabase());
+    const rawText = 'Leistungsdatum: 20.01.2024';
+    const derivation = inferFieldDerivation('serviceDate', '2024-01-20', invoice(), rawText);
+    assert.equal(derivation.kind, 'extraction');
+    const legacy = { proposedValue: '2024-01-01', derivation };
+    repository.saveMemory(learnedMemory('m1', serviceDateMemory(legacy), new Date()));
+
+    const next = 'Leistungsdatum: 03.02.2024';
+    const output = await processInvoiceWithMemory(repository, invoice(), next, undefined);
+    const proposals = output.proposedCorrections.filter((c) => c.field === 'serviceDate');
+    assert.equal(proposals.length, 1);
+    assert.match(proposals[0]!.reason, /Leistungsdatum/);
+    assert.notEqual(proposals[0]!.proposedValue, '2024-01-01');
+  });
+});
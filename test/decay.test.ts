@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { decayFactor, effectiveConfidence, persistConfidenceDecay, processInvoiceWithMemory } from '../src/engine';
+import { createMemoryRepository } from '../src/memory';
+import type { LearnedMemoryContent } from '../src/models/memory';
+import { invoice, learnedMemory, memoryDatabase } from './helpers';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const currencyMemory: LearnedMemoryContent = {
+  category: 'vendor',
+  vendorName: 'Supplier GmbH',
+  field: 'currency',
+  confidence: 0.98,
+  usageCount: 40,
+  approvalCount: 40,
+  rejectionCount: 0,
+  metadata: { proposedValue: 'EUR' },
+};
+
+describe('decayFactor', () => {
+  it('halves per half-life from the later of update and use', () => {
+    const now = new Date('2025-01-01T00:00:00.000Z');
+    const memory = learnedMemory('m1', currencyMemory, new Date(now.getTime() - 365 * DAY));
+    assert.ok(Math.abs(decayFactor(memory, 'vendor', now) - 0.5) < 1e-9);
+    const halfLifeDays = { resolution: 365 };
+    assert.ok(Math.abs(decayFactor(memory, 'resolution', now, { halfLifeDays }) - 0.5) < 1e-9);
+    assert.equal(decayFactor({ ...memory, lastUsedAt: now }, 'vendor', now), 1);
+    assert.equal(effectiveConfidence(memory, 'vendor', 0.9, now), 0.7);
+    assert.equal(effectiveConfidence(memory, 'vendor', 0.4, now), 0.4);
+  });
+});
+
+describe('memory use and decay', () => {
+  it('does not revive a stale memory that was only suggested', async () => {
+    const repository = createMemoryRepository(memoryDatabase());
+    repository.saveMemory(learnedMemory('m1', currencyMemory, new Date(Date.now() - 3 * 365 * DAY)));
+
+    const first = await processInvoiceWithMemory(repository, invoice({ currency: '' }), '', undefined);
+    const [suggested] = first.proposedCorrections;
+    assert.equal(suggested?.applied, false);
+    assert.equal(repository.getMemoryById('m1')!.lastUsedAt, undefined);
+
+    const second = await processInvoiceWithMemory(
+      repository,
+      invoice({ id: 'INV-2', invoiceNumber: 'INV-2', currency: '' }),
+      '',
+      undefined,
+    );
+    assert.equal(second.proposedCorrections[0]?.applied, false);
+    assert.ok(Math.abs(second.proposedCorrections[0]!.confidence - suggested.confidence) < 1e-6);
+
+    const [persisted] = persistConfidenceDecay(repository);
+    assert.equal(persisted?.memoryId, 'm1');
+    assert.ok(persisted!.newConfidence < currencyMemory.confidence);
+  });
+
+  it('restarts the decay clock of auto-applied memories', async () => {
+    const repository = createMemoryRepository(memoryDatabase());
+    repository.saveMemory(learnedMemory('m1', currencyMemory, new Date(Date.now() - 365 * DAY)));
+
+    const output = await processInvoiceWithMemory(repository, invoice({ currency: '' }), '', undefined);
+    assert.equal(output.proposedCorrections[0]?.applied, true);
+    const usedAt = repository.getMemoryById('m1')!.lastUsedAt;
+    assert.ok(usedAt && Date.now() - usedAt.getTime() < DAY);
+  });
+});
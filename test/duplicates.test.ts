@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { processInvoiceWithMemory } from '../src/engine';
+import { detectDuplicate, invoiceFingerprint, normalizeInvoiceNumber, scoreDuplicate } from '../src/engine/duplicates';
+import { createMemoryRepository, createProcessedInvoiceRepository } from '../src/memory';
+import { invoice, memoryDatabase } from './helpers';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const original = invoice({ id: 'A', invoiceNumber: 'INV-2024-0042', issuedAt: new Date('2024-03-01') });
+
+describe('normalizeInvoiceNumber', () => {
+  it('drops prefixes, separators and leading zeros', () => {
+    assert.equal(normalizeInvoiceNumber('INV-2024-003'), '2024-3');
+    assert.equal(normalizeInvoiceNumber('inv 2024 3'), '2024-3');
+    assert.equal(normalizeInvoiceNumber('2024/003'), '2024-3');
+  });
+});
+
+describe('scoreDuplicate', () => {
+  it('flags a resubmission with the same number and amount', () => {
+    const resent = invoice({ id: 'B', invoiceNumber: 'INV 2024 42', issuedAt: new Date('2024-03-03') });
+    const match = detectDuplicate(invoiceFingerprint(resent), 'Duplicate submission', [invoiceFingerprint(original)]);
+    assert.equal(match?.priorInvoiceId, 'A');
+    assert.equal(match?.signals.invoiceNumber, 1);
+    assert.deepEqual(match?.cues, ['Duplicate submission']);
+  });
+
+  it('treats the next number of a recurring invoice as a different invoice', () => {
+    const next = invoice({
+      id: 'B',
+      invoiceNumber: 'INV-2024-0043',
+      issuedAt: new Date(original.issuedAt.getTime() + 29 * DAY),
+    });
+    const match = scoreDuplicate(invoiceFingerprint(next), invoiceFingerprint(original), []);
+    assert.equal(match.signals.invoiceNumber, 0);
+    assert.ok(match.score < 0.7);
+    assert.equal(detectDuplicate(invoiceFingerprint(next), '', [invoiceFingerprint(original)]), undefined);
+  });
+
+  it('still matches an OCR slip outside the sequence group', () => {
+    const typo = invoice({ id: 'B', invoiceNumber: 'INV-2O24-0042' });
+    const match = scoreDuplicate(invoiceFingerprint(typo), invoiceFingerprint(original), []);
+    assert.ok(match.signals.invoiceNumber >= 0.8);
+  });
+});
+
+describe('duplicate detection during processing', () => {
+  it('ignores another vendor invoice with the same number and amount', async () => {
+    const db = memoryDatabase();
+    const repository = createMemoryRepository(db);
+    const invoiceRegistry = createProcessedInvoiceRepository(db);
+    await processInvoiceWithMemory(repository, original, '', undefined, { invoiceRegistry });
+
+    const otherVendor = invoice({
+      id: 'B',
+      invoiceNumber: 'RE-2024-0042',
+      vendorName: 'Parts AG',
+      issuedAt: new Date('2024-03-05'),
+    });
+    const output = await processInvoiceWithMemory(repository, otherVendor, '', undefined, { invoiceRegistry });
+    const recall = output.auditTrail.find((step) => step.step === 'recall');
+    assert.equal(recall?.details.duplicateDetected, false);
+
+    const resent = { ...original, id: 'C' };
+    const duplicate = await processInvoiceWithMemory(repository, resent, '', undefined, { invoiceRegistry });
+    assert.equal(duplicate.auditTrail.find((step) => step.step === 'recall')?.details.duplicateOf, 'A');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { recallMemories } from '../src/engine/recall';
+import {
+  cosineSimilarity,
+  createHashedNgramEmbeddingProvider,
+  createMemoryRepository,
+  decodeEmbedding,
+  defaultEmbeddingProvider,
+  encodeEmbedding,
+} from '../src/memory';
+import type { MemoryRepository } from '../src/memory';
+import { learnedMemory, memoryDatabase } from './helpers';
+
+const provider = defaultEmbeddingProvider;
+
+function embeddedMemory(repository: MemoryRepository, id: string, vendorName: string, text: string): void {
+  repository.saveMemory({
+    ...learnedMemory(
+      id,
+      { category: 'vendor', vendorName, field: 'freightSku', confidence: 0.95, usageCount: 5 },
+      new Date(),
+    ),
+    embedding: provider.embed(text),
+    embeddingModel: provider.id,
+  });
+}
+
+describe('createHashedNgramEmbeddingProvider', () => {
+  it('embeds deterministically into normalised vectors of the configured size', () => {
+    const small = createHashedNgramEmbeddingProvider({ dimensions: 32 });
+    const vector = small.embed('Seefracht Hamburg');
+    assert.equal(vector.length, 32);
+    assert.deepEqual(small.embed('Seefracht Hamburg'), vector);
+    assert.ok(Math.abs(cosineSimilarity(vector, vector) - 1) < 1e-9);
+    assert.equal(small.id, 'hashed-ngram-3-32');
+  });
+
+  it('places German terms near their English aliases', () => {
+    const freight = provider.embed('Sea freight charges');
+    assert.ok(cosineSimilarity(provider.embed('Seefracht Gebühren'), freight) > 0.35);
+    assert.ok(
+      cosineSimilarity(provider.embed('Seefracht Gebühren'), freight) >
+        cosineSimilarity(provider.embed('Büromaterial'), freight),
+    );
+  });
+
+  it('round-trips vectors through their stored encoding', () => {
+    const vector = provider.embed('Skonto 2% 10 Tage');
+    const decoded = decodeEmbedding(encodeEmbedding(vector));
+    assert.equal(decoded.length, vector.length);
+    assert.ok(decoded.every((v, i) => Math.abs(v - vector[i]!) < 1e-6));
+  });
+});
+
+describe('findSimilarMemories', () => {
+  it('compares only embeddings of the same model and above the minimum similarity', () => {
+    const repository = createMemoryRepository(memoryDatabase());
+    embeddedMemory(repository, 'freight', 'Freight & Co', 'Seefracht Hamburg Rotterdam');
+    embeddedMemory(repository, 'office', 'Freight & Co', 'Büromaterial Kugelschreiber');
+    repository.saveMemory({
+      ...learnedMemory('other-model', { category: 'vendor', confidence: 0.9, usageCount: 1 }),
+      embedding: provider.embed('Seefracht Hamburg Rotterdam'),
+      embeddingModel: 'other-model',
+    });
+
+    const similar = repository.findSimilarMemories({
+      embedding: provider.embed('Sea freight Hamburg'),
+      embeddingModel: provider.id,
+      minSimilarity: 0.35,
+    });
+    assert.deepEqual(similar.map((s) => s.memory.id), ['freight']);
+  });
+});
+
+describe('recallMemories', () => {
+  it('recalls other vendors by similarity only as capped suggestions', async () => {
+    const repository = createMemoryRepository(memoryDatabase());
+    embeddedMemory(repository, 'freight', 'Freight & Co', 'Seefracht Hamburg Rotterdam');
+
+    const recall = await recallMemories(repository, {
+      vendorName: 'Shipping Partners Ltd',
+      invoiceNumber: 'SP-1',
+      invoiceDate: new Date(),
+      embedding: provider.embed('Seefracht Hamburg Rotterdam'),
+      embeddingModel: provider.id,
+    });
+    const [memory] = recall.vendorMemories;
+    assert.equal(memory?.memory.id, 'freight');
+    assert.equal(memory?.crossVendor, true);
+    assert.ok(memory!.content.confidence <= 0.75);
+    assert.ok(memory!.similarity! > 0.99);
+  });
+});
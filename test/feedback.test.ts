@@ -0,0 +1,244 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import type { HumanFeedbackInput } from '../src/engine';
+import { processInvoiceWithMemory, resolveFeedback, rollbackInvoice } from '../src/engine';
+import type { MemoryRepository } from '../src/memory';
+import { createMemoryHistoryRepository, createMemoryRepository, createProvenanceRepository } from '../src/memory';
+import type { LearnedMemoryContent } from '../src/models/memory';
+import type { ProposedCorrection } from '../src/models/pipeline';
+import { invoice, learnedMemory, memoryDatabase } from './helpers';
+
+function proposal(field: string, proposedValue: unknown, memoryId?: string): ProposedCorrection {
+  return {
+    field,
+    proposedValue,
+    reason: 'test',
+    confidence: 0.8,
+    applied: false,
+    ...(memoryId !== undefined ? { memoryId } : {}),
+  };
+}
+
+describe('resolveFeedback', () => {
+  it('resolves approvals, edits, rejections and added corrections', () => {
+    const decisions = resolveFeedback(
+      [
+        proposal('currency', 'EUR', 'm1'),
+        proposal('taxAmount', 70, 'm2'),
+        proposal('serviceDate', new Date('2024-03-01T00:00:00.000Z'), 'm3'),
+        proposal('grossAmount', 1070, 'm2'),
+      ],
+      {
+        approvedCorrections: ['currency'],
+        rejectedCorrections: ['grossAmount'],
+        corrections: [
+          { field: 'taxAmount', value: 75, reason: 'Rate is 7.5%' },
+          { field: 'serviceDate', value: '2024-03-01' },
+          { field: 'poNumber', value: 'PO-1' },
+        ],
+      },
+    );
+
+    assert.deepEqual(
+      decisions.map(({ field, outcome, weight }) => [field, outcome, weight]),
+      [
+        ['currency', 'approved', 1],
+        ['taxAmount', 'edited', 0.5],
+        ['serviceDate', 'approved', 1],
+        ['grossAmount', 'rejected', 1],
+        ['poNumber', 'added', 1],
+      ],
+    );
+    const edit = decisions[1]!;
+    assert.equal(edit.value, 75);
+    assert.equal(edit.proposedValue, 70);
+    assert.equal(edit.reason, 'Rate is 7.5%');
+    assert.equal(edit.approved, true);
+    assert.equal(decisions[3]!.approved, false);
+    assert.equal(decisions[4]!.memoryId, undefined);
+  });
+});
+
+describe('memory updates', () => {
+  it('reports memories created by learning without a previous confidence', async () => {
+    const repository = createMemoryRepository(memoryDatabase());
+    const feedback: HumanFeedbackInput = {
+      approvedCorrections: [],
+      rejectedCorrections: [],
+      corrections: [{ field: 'serviceDate', value: '2024-03-01', reason: 'Leistungsdatum' }],
+    };
+
+    const [created] = (await processInvoiceWithMemory(repository, invoice(), '', feedback)).memoryUpdates;
+    assert.equal(created?.action, 'create');
+    assert.equal(created?.previousConfidence, undefined);
+    assert.equal(created?.usageCount, 1);
+
+    const second = invoice({ id: 'INV-2', invoiceNumber: 'INV-2' });
+    const [reinforced] = (await processInvoiceWithMemory(repository, second, '', feedback)).memoryUpdates;
+    assert.equal(reinforced?.memoryId, created?.memoryId);
+    assert.equal(reinforced?.action, 'reinforce');
+    assert.equal(reinforced?.previousConfidence, created?.newConfidence);
+  });
+});
+
+describe('learning from an edit', () => {
+  const unsetCurrency = invoice({ currency: '' });
+  const editToChf: HumanFeedbackInput = {
+    approvedCorrections: [],
+    rejectedCorrections: [],
+    corrections: [{ field: 'currency', value: 'CHF' }],
+  };
+  const established: LearnedMemoryContent = {
+    category: 'vendor',
+    vendorName: 'Supplier GmbH',
+    field: 'currency',
+    confidence: 0.98,
+    usageCount: 40,
+    approvalCount: 40,
+    rejectionCount: 0,
+    metadata: { proposedValue: 'EUR', derivation: { kind: 'constant', value: 'EUR' } },
+  };
+
+  function currencyMemory(repository: MemoryRepository): LearnedMemoryContent {
+    const memory = repository.getMemoryById('m1');
+    assert.ok(memory);
+    return JSON.parse(memory.content) as LearnedMemoryContent;
+  }
+
+  it('counts against the proposed value and starts the new value without its evidence', async () => {
+    const repository = createMemoryRepository(memoryDatabase());
+    repository.saveMemory(learnedMemory('m1', established, new Date()));
+    const before = await processInvoiceWithMemory(repository, unsetCurrency, '', undefined);
+    assert.equal(before.proposedCorrections[0]?.applied, true);
+
+    const output = await processInvoiceWithMemory(repository, unsetCurrency, '', editToChf);
+    assert.deepEqual(
+      output.memoryUpdates.map(({ memoryId, action }) => [memoryId, action]),
+      [['m1', 'decay']],
+    );
+    const edited = currencyMemory(repository);
+    assert.equal(edited.metadata?.proposedValue, 'CHF');
+    assert.equal(edited.approvalCount, 0.5);
+    assert.equal(edited.rejectionCount, 0);
+
+    const fresh = createMemoryRepository(memoryDatabase());
+    await processInvoiceWithMemory(fresh, unsetCurrency, '', editToChf);
+    const approved = fresh.findLearnedMemories({ field: 'currency' })[0]!.content;
+    assert.ok(edited.confidence <= approved.confidence);
+
+    const afterEdit = await processInvoiceWithMemory(repository, unsetCurrency, '', undefined);
+    const afterApproval = await processInvoiceWithMemory(fresh, unsetCurrency, '', undefined);
+    const editedProposal = afterEdit.proposedCorrections.find((c) => c.field === 'currency');
+    const approvedProposal = afterApproval.proposedCorrections.find((c) => c.field === 'currency');
+    assert.equal(editedProposal?.applied ?? false, false);
+    assert.ok((editedProposal?.confidence ?? 0) <= (approvedProposal?.confidence ?? 0));
+  });
+
+  it('is undone as one step when the invoice is rolled back', async () => {
+    const db = memoryDatabase();
+    const repository = createMemoryRepository(db);
+    const history = createMemoryHistoryRepository(db);
+    repository.saveMemory(learnedMemory('m1', established, new Date()));
+
+    await processInvoiceWithMemory(repository, unsetCurrency, '', editToChf, { history });
+    rollbackInvoice(repository, history, 'INV-1');
+    assert.deepEqual(currencyMemory(repository), established);
+  });
+});
+
+describe('learning from a multi-field proposal', () => {
+  it('counts the approved VAT fields of one invoice as a single outcome', async () => {
+    const repository = createMemoryRepository(memoryDatabase());
+    const vatInvoice = invoice({ totalAmount: 1190 });
+    const rawText = 'Preise inkl. MwSt. 19%\nTotal: 1190.00 EUR';
+    const { proposedCorrections } = await processInvoiceWithMemory(repository, vatInvoice, rawText, undefined);
+    const fields = proposedCorrections.map((c) => c.field);
+    assert.deepEqual(fields, ['taxAmount', 'grossAmount', 'metadata.netTotal']);
+
+    const output = await processInvoiceWithMemory(repository, vatInvoice, rawText, {
+      approvedCorrections: fields,
+      rejectedCorrections: [],
+      corrections: [],
+    });
+    assert.deepEqual(
+      output.memoryUpdates.map(({ action, usageCount }) => [action, usageCount]),
+      [['create', 1]],
+    );
+    const memories = repository.findLearnedMemories({});
+    assert.deepEqual(
+      memories.map(({ content }) => [content.field, content.approvalCount]),
+      [['vatIncluded', 1]],
+    );
+
+    const second = invoice({ id: 'INV-2', invoiceNumber: 'INV-2', totalAmount: 1190 });
+    const reinforced = await processInvoiceWithMemory(repository, second, rawText, {
+      approvedCorrections: fields,
+      rejectedCorrections: [],
+      corrections: [],
+    });
+    assert.deepEqual(
+      reinforced.memoryUpdates.map(({ memoryId, action }) => [memoryId, action]),
+      [[memories[0]!.memory.id, 'reinforce']],
+    );
+    assert.deepEqual(
+      repository.findLearnedMemories({}).map(({ content }) => [content.category, content.approvalCount]),
+      [
+        ['vendor', 2],
+        ['resolution', 1],
+      ],
+    );
+  });
+});
+
+describe('learning from an added correction', () => {
+  const legacy: LearnedMemoryContent = {
+    category: 'vendor',
+    vendorName: 'Supplier GmbH',
+    field: 'serviceDate',
+    confidence: 0.85,
+    usageCount: 6,
+    approvalCount: 6,
+    rejectionCount: 0,
+    metadata: { proposedValue: '2024-01-01T00:00:00.000Z' },
+  };
+  const withServiceDate = invoice({ serviceDate: new Date('2024-01-15T00:00:00.000Z') });
+
+  function addServiceDate(value: string): HumanFeedbackInput {
+    return { approvedCorrections: [], rejectedCorrections: [], corrections: [{ field: 'serviceDate', value }] };
+  }
+
+  it('counts against the memory value it replaces and restarts the evidence', async () => {
+    const db = memoryDatabase();
+    const repository = createMemoryRepository(db);
+    const provenance = createProvenanceRepository(db);
+    repository.saveMemory(learnedMemory('m1', legacy, new Date()));
+
+    const output = await processInvoiceWithMemory(repository, withServiceDate, '', addServiceDate('2024-01-20'), {
+      provenance,
+    });
+    assert.deepEqual(
+      output.memoryUpdates.map(({ memoryId, action }) => [memoryId, action]),
+      [['m1', 'decay']],
+    );
+    assert.deepEqual(
+      provenance.getLineage('m1').events.map(({ outcome, proposedValue }) => [outcome, proposedValue]),
+      [
+        ['rejected', '2024-01-01T00:00:00.000Z'],
+        ['approved', '2024-01-20'],
+      ],
+    );
+    const replaced = JSON.parse(repository.getMemoryById('m1')!.content) as LearnedMemoryContent;
+    assert.equal(replaced.metadata?.proposedValue, '2024-01-20');
+    assert.deepEqual([replaced.approvalCount, replaced.rejectionCount], [1, 0]);
+  });
+
+  it('reinforces the memory when the added value matches it', async () => {
+    const repository = createMemoryRepository(memoryDatabase());
+    repository.saveMemory(learnedMemory('m1', legacy, new Date()));
+
+    const output = await processInvoiceWithMemory(repository, withServiceDate, '', addServiceDate('2024-01-01'));
+    assert.equal(output.memoryUpdates[0]?.action, 'reinforce');
+    const reinforced = JSON.parse(repository.getMemoryById('m1')!.content) as LearnedMemoryContent;
+    assert.deepEqual([reinforced.approvalCount, reinforced.rejectionCount], [7, 0]);
+  });
+});
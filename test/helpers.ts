@@ -0,0 +1,61 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { openMemoryDatabase } from '../src/memory';
+import type { SqliteDatabase } from '../src/memory/db';
+import type { LearnedMemoryContent, Memory } from '../src/models/memory';
+import type { NormalizedInvoice } from '../src/models/pipeline';
+import type { PurchaseOrder } from '../src/models/purchaseOrder';
+import type { RecallSummary } from '../src/engine/recall';
+
+export function memoryDatabase(): SqliteDatabase {
+  return openMemoryDatabase(':memory:');
+}
+
+export function invoice(overrides: Partial<NormalizedInvoice> = {}): NormalizedInvoice {
+  return {
+    id: 'INV-1',
+    customerName: 'Buyer GmbH',
+    vendorName: 'Supplier GmbH',
+    invoiceNumber: 'INV-1',
+    currency: 'EUR',
+    totalAmount: 1000,
+    issuedAt: new Date('2024-03-10T00:00:00.000Z'),
+    lineItems: [{ id: 'L1', description: 'Widget', sku: 'WID-1', quantity: 10, unitPrice: 100 }],
+    ...overrides,
+  };
+}
+
+export function purchaseOrder(overrides: Partial<PurchaseOrder> = {}): PurchaseOrder {
+  return {
+    poNumber: 'PO-100',
+    vendorName: 'Supplier GmbH',
+    orderedAt: new Date('2024-03-01T00:00:00.000Z'),
+    lineItems: [{ sku: 'WID-1', quantity: 10, unitPrice: 100 }],
+    ...overrides,
+  };
+}
+
+export function emptyRecall(): RecallSummary {
+  return {
+    vendorMemories: [],
+    correctionMemories: [],
+    resolutionMemories: [],
+    duplicateDetected: false,
+    duplicateScore: 0,
+    allMemories: [],
+  };
+}
+
+export function learnedMemory(id: string, content: LearnedMemoryContent, at = new Date('2024-01-01T00:00:00.000Z')): Memory {
+  return { id, kind: 'long_term', content: JSON.stringify(content), createdAt: at, updatedAt: at };
+}
+
+/** A database file in a fresh temporary directory, for code that opens databases by name. */
+export function temporaryDatabaseFile(): { file: string; remove(): void } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'flowbit-memory-'));
+  return {
+    file: path.join(dir, 'memory.db'),
+    remove: () => fs.rmSync(dir, { recursive: true, force: true }),
+  };
+}
@@ -0,0 +1,133 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  deleteMemoryWithHistory,
+  persistConfidenceDecay,
+  rebuildMemoriesFromHistory,
+  revertFeedbackEvent,
+  revertMemoryEvent,
+  rollbackInvoice,
+  rollbackMemory,
+  saveMemoryWithHistory,
+} from '../src/engine';
+import { learnFromSignal } from '../src/engine/learn';
+import type { MemoryHistoryRepository } from '../src/memory';
+import { createMemoryHistoryRepository, createMemoryRepository } from '../src/memory';
+import type { LearnedMemoryContent } from '../src/models/memory';
+import { learnedMemory, memoryDatabase } from './helpers';
+
+function setup() {
+  const db = memoryDatabase();
+  return { db, repository: createMemoryRepository(db), history: createMemoryHistoryRepository(db) };
+}
+
+type Setup = ReturnType<typeof setup>;
+
+/** One reviewer decision on the `currency` field; returns the feedback event id. */
+function learn({ repository, history }: Setup, memoryId: string, approved: boolean, invoiceId: string): string {
+  const id = uuidv4();
+  learnFromSignal(
+    repository,
+    {
+      event: {
+        id,
+        type: 'learn',
+        timestamp: new Date(),
+        details: { memoryId, approved, invoiceId, field: 'currency', vendorName: 'Supplier GmbH', value: 'EUR' },
+      },
+    },
+    {},
+    { history },
+  );
+  return id;
+}
+
+function contentOf({ repository }: Setup, memoryId: string): LearnedMemoryContent | undefined {
+  const memory = repository.getMemoryById(memoryId);
+  return memory ? (JSON.parse(memory.content) as LearnedMemoryContent) : undefined;
+}
+
+describe('memory history', () => {
+  it('reverts one feedback event and only once', () => {
+    const context = setup();
+    learn(context, 'm1', true, 'INV-1');
+    const second = learn(context, 'm1', true, 'INV-2');
+    assert.equal(contentOf(context, 'm1')?.approvalCount, 2);
+
+    const [revert] = revertFeedbackEvent(context.repository, context.history, second);
+    assert.equal(contentOf(context, 'm1')?.approvalCount, 1);
+    assert.deepEqual(revertFeedbackEvent(context.repository, context.history, second), []);
+    assert.throws(
+      () => revertMemoryEvent(context.repository, context.history, revert!.revertsEventId!),
+      /already reverted/,
+    );
+  });
+
+  it('rolls back an invoice while keeping later evidence', () => {
+    const context = setup();
+    learn(context, 'm1', true, 'INV-1');
+    learn(context, 'm1', true, 'INV-2');
+    learn(context, 'm1', false, 'INV-3');
+
+    rollbackInvoice(context.repository, context.history, 'INV-2');
+    const content = contentOf(context, 'm1');
+    assert.equal(content?.approvalCount, 1);
+    assert.equal(content?.rejectionCount, 1);
+  });
+
+  it('rolls a memory back to before it existed', () => {
+    const context = setup();
+    const before = new Date(Date.now() - 1000);
+    learn(context, 'm1', true, 'INV-1');
+
+    const event = rollbackMemory(context.repository, context.history, 'm1', before);
+    assert.equal(event.type, 'rollback');
+    assert.equal(context.repository.getMemoryById('m1'), undefined);
+  });
+
+  it('keeps the memory unchanged when recording the undo fails', () => {
+    const context = setup();
+    learn(context, 'm1', true, 'INV-1');
+    const failing: MemoryHistoryRepository = {
+      ...context.history,
+      appendEvent() {
+        throw new Error('log unavailable');
+      },
+    };
+    assert.throws(() => rollbackMemory(context.repository, failing, 'm1', new Date(0)), /log unavailable/);
+    assert.ok(context.repository.getMemoryById('m1'));
+  });
+
+  it('records decay, edits and deletes so the memories can be rebuilt from the log', () => {
+    const context = setup();
+    const { repository, history } = context;
+    learn(context, 'm1', true, 'INV-1');
+    saveMemoryWithHistory(
+      repository,
+      history,
+      learnedMemory('m2', { category: 'vendor', vendorName: 'Parts AG', field: 'currency', confidence: 0.9, usageCount: 0 }),
+      'edit',
+    );
+    const decayed = persistConfidenceDecay(repository, {
+      history,
+      now: new Date(Date.now() + 5 * 365 * 24 * 60 * 60 * 1000),
+    });
+    assert.deepEqual(decayed.map((u) => u.memoryId).sort(), ['m1', 'm2']);
+    assert.equal(deleteMemoryWithHistory(repository, history, 'm2'), true);
+    assert.equal(deleteMemoryWithHistory(repository, history, 'm2'), false);
+
+    assert.deepEqual(
+      history.findEvents({ memoryId: 'm2' }).map((e) => e.type),
+      ['edit', 'decay', 'delete'],
+    );
+    const decayedContent = repository.getMemoryById('m1')!.content;
+
+    // Stale rows are overwritten and deleted memories stay deleted.
+    repository.saveMemory(learnedMemory('m1', { category: 'vendor', confidence: 0.1, usageCount: 0 }));
+    repository.saveMemory(learnedMemory('m2', { category: 'vendor', confidence: 0.1, usageCount: 0 }));
+    assert.equal(rebuildMemoriesFromHistory(repository, history), 2);
+    assert.equal(repository.getMemoryById('m1')?.content, decayedContent);
+    assert.equal(repository.getMemoryById('m2'), undefined);
+  });
+});
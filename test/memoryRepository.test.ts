@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { createMemoryRepository, toFtsQuery } from '../src/memory';
+import type { LearnedMemoryContent } from '../src/models/memory';
+import { learnedMemory, memoryDatabase } from './helpers';
+
+describe('findLearnedMemories', () => {
+  function seeded() {
+    const db = memoryDatabase();
+    const repository = createMemoryRepository(db);
+    const contents: Array<[string, LearnedMemoryContent]> = [
+      ['vat', { category: 'vendor', vendorName: 'Parts AG', field: 'vatIncluded', confidence: 0.9, usageCount: 3 }],
+      ['sku', { category: 'vendor', vendorName: 'Parts AG', field: 'freightSku', confidence: 0.6, usageCount: 1 }],
+      ['dup', { category: 'duplicate', vendorName: 'Other AG', invoiceNumber: 'INV-7', confidence: 0.7, usageCount: 1 }],
+    ];
+    for (const [id, content] of contents) repository.saveMemory(learnedMemory(id, content));
+    repository.saveMemory({ ...learnedMemory('note', { category: 'vendor', confidence: 1, usageCount: 0 }), content: 'notes' });
+    return { db, repository };
+  }
+
+  it('filters on the structured columns and orders by confidence', () => {
+    const { repository } = seeded();
+    const ids = (filter: Parameters<typeof repository.findLearnedMemories>[0]) =>
+      repository.findLearnedMemories(filter).map((r) => r.memory.id);
+
+    assert.deepEqual(ids({}), ['vat', 'dup', 'sku']);
+    assert.deepEqual(ids({ vendorName: 'parts ag' }), ['vat', 'sku']);
+    assert.deepEqual(ids({ category: 'duplicate', invoiceNumber: 'INV-7' }), ['dup']);
+    assert.deepEqual(ids({ minConfidence: 0.65, limit: 1 }), ['vat']);
+    assert.deepEqual(
+      repository.findMemoriesForVendorField('Parts AG', 'freightSku').map((r) => r.content.confidence),
+      [0.6],
+    );
+  });
+
+  it('keeps the columns in step with the content when a memory is updated', () => {
+    const { repository } = seeded();
+    const moved: LearnedMemoryContent = {
+      category: 'vendor',
+      vendorName: 'Freight & Co',
+      field: 'freightSku',
+      confidence: 0.95,
+      usageCount: 4,
+    };
+    repository.saveMemory(learnedMemory('sku', moved));
+    assert.deepEqual(repository.findLearnedMemories({ vendorName: 'Parts AG' }).map((r) => r.memory.id), ['vat']);
+    const [record] = repository.findMemoriesForVendorField('Freight & Co', 'freightSku');
+    assert.equal(record?.content.usageCount, 4);
+    assert.equal(record?.content.confidence, 0.95);
+  });
+
+  it('answers vendor and field lookups from an index', () => {
+    const { db } = seeded();
+    const plan = db
+      .prepare('EXPLAIN QUERY PLAN SELECT id FROM memories WHERE vendor_name = ? COLLATE NOCASE AND field = ?')
+      .all('Parts AG', 'vatIncluded') as Array<{ detail: string }>;
+    assert.match(plan.map((p) => p.detail).join('\n'), /USING INDEX idx_memories_vendor_field/);
+  });
+});
+
+describe('searchMemories', () => {
+  function memoryWith(id: string, vendorName: string, rawTextSnippet: string) {
+    return learnedMemory(id, {
+      category: 'vendor',
+      vendorName,
+      field: 'serviceDate',
+      confidence: 0.8,
+      usageCount: 1,
+      metadata: { rawTextSnippet },
+    });
+  }
+
+  it('ranks vendor name matches above raw-text matches', () => {
+    const repository = createMemoryRepository(memoryDatabase());
+    repository.saveMemory(memoryWith('text', 'Other AG', 'Lieferant: Supplier GmbH, Leistungsdatum 01.01.2024'));
+    repository.saveMemory(memoryWith('vendor', 'Supplier GmbH', 'Leistungsdatum 01.01.2024'));
+    repository.saveMemory(memoryWith('unrelated', 'Parts AG', 'Seefracht'));
+
+    const results = repository.searchMemories('Supplier GmbH');
+    assert.deepEqual(results.map((r) => r.memory.id), ['vendor', 'text']);
+    assert.ok(results[0]!.rank < results[1]!.rank);
+    assert.equal(results[0]!.content?.vendorName, 'Supplier GmbH');
+  });
+
+  it('treats query punctuation as text and drops deleted memories from the index', () => {
+    const repository = createMemoryRepository(memoryDatabase());
+    repository.saveMemory(memoryWith('freight', 'Freight & Co', 'Seefracht "Express" (AND) NEAR'));
+
+    assert.equal(toFtsQuery('Freight & Co. "NEAR" -x'), '"freight" OR "co" OR "near"');
+    assert.deepEqual(repository.searchMemories('"Express" (AND').map((r) => r.memory.id), ['freight']);
+    assert.deepEqual(repository.searchMemories('&&& ***'), []);
+
+    repository.deleteMemory('freight');
+    assert.deepEqual(repository.searchMemories('Freight'), []);
+  });
+});
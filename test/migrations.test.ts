@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  createMemoryRepository,
+  getMigrationStatus,
+  MIGRATIONS,
+  openMemoryDatabase,
+  runMigrations,
+} from '../src/memory';
+
+const latestVersion = Math.max(...MIGRATIONS.map((m) => m.version));
+
+function legacyDatabase() {
+  const db = openMemoryDatabase(':memory:', { migrate: false });
+  db.exec(`
+    CREATE TABLE memories (
+      id TEXT PRIMARY KEY,
+      kind TEXT NOT NULL,
+      content TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      source TEXT
+    )
+  `);
+  const insert = db.prepare(
+    'INSERT INTO memories (id, kind, content, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+  );
+  const at = '2024-01-01T00:00:00.000Z';
+  for (const [id, vendorName] of [['m1', 'Supplier GmbH'], ['m2', 'SUPPLIER GMBH']] as const) {
+    insert.run(
+      id,
+      'semantic',
+      JSON.stringify({
+        category: 'vendor',
+        vendorName,
+        field: 'serviceDate',
+        pattern: 'Leistungsdatum',
+        confidence: 0.7,
+        usageCount: 2,
+      }),
+      at,
+      at,
+    );
+  }
+  return db;
+}
+
+describe('runMigrations', () => {
+  it('brings an empty database from version 0 to the latest version', () => {
+    const db = openMemoryDatabase(':memory:', { migrate: false });
+    const before = getMigrationStatus(db);
+    assert.equal(before.currentVersion, 0);
+    assert.equal(before.pending.length, MIGRATIONS.length);
+
+    const applied = runMigrations(db);
+    assert.equal(applied.length, MIGRATIONS.length);
+    const after = getMigrationStatus(db);
+    assert.equal(after.currentVersion, latestVersion);
+    assert.deepEqual(after.pending, []);
+    assert.deepEqual(runMigrations(db), []);
+    db.close();
+  });
+
+  it('migrates a populated pre-versioning database without losing memories', () => {
+    const db = legacyDatabase();
+    runMigrations(db);
+
+    const rows = db
+      .prepare('SELECT id, category, vendor_name as vendorName, vendor_id as vendorId, field, usage_count as usageCount FROM memories ORDER BY id')
+      .all() as Array<{ id: string; category: string; vendorName: string; vendorId: string; field: string; usageCount: number }>;
+    assert.equal(rows.length, 2);
+    assert.equal(rows[0]?.category, 'vendor');
+    assert.equal(rows[0]?.field, 'serviceDate');
+    assert.equal(rows[0]?.usageCount, 2);
+    // Both spellings of the vendor name resolve to one vendor.
+    assert.ok(rows[0]?.vendorId);
+    assert.equal(rows[0]?.vendorId, rows[1]?.vendorId);
+
+    const repository = createMemoryRepository(db);
+    assert.ok(repository.getMemoryById('m1'));
+    assert.deepEqual(
+      repository.searchMemories('Leistungsdatum').map((m) => m.memory.id).sort(),
+      ['m1', 'm2'],
+    );
+    db.close();
+  });
+
+  it('refuses a database written by a newer version', () => {
+    const db = openMemoryDatabase(':memory:');
+    db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)').run(
+      latestVersion + 1,
+      'from_the_future',
+      new Date().toISOString(),
+    );
+    assert.throws(() => runMigrations(db), /newer than the latest version/);
+    db.close();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { describeExtractionTemplate, extractWithTemplate, inducePattern } from '../src/engine/patternInduction';
+
+describe('inducePattern', () => {
+  it('finds dates in German, ISO and written formats', () => {
+    assert.deepEqual(inducePattern('2024-01-05', 'Leistungsdatum: 05.01.2024'), {
+      label: 'Leistungsdatum:',
+      format: 'date',
+      datePattern: 'DD.MM.YYYY',
+    });
+    assert.equal(inducePattern('2024-01-05', 'Service date 2024-01-05')?.datePattern, 'YYYY-MM-DD');
+    assert.equal(inducePattern('2024-03-05', 'Lieferung am 5. März 2024')?.datePattern, 'D. MMMM YYYY');
+    assert.equal(inducePattern(new Date(2024, 0, 5), 'Leistungsdatum: 5.1.2024')?.datePattern, 'D.M.YYYY');
+  });
+
+  it('reads numbers in either decimal convention and marks currency amounts', () => {
+    assert.deepEqual(inducePattern(1234.5, 'Frachtkosten: 1.234,50 EUR'), {
+      label: 'Frachtkosten:',
+      format: 'currency',
+    });
+    assert.deepEqual(inducePattern(1234.5, 'Freight: EUR 1,234.50'), { label: 'Freight:', format: 'currency' });
+    assert.deepEqual(inducePattern(12, 'Pallets 12'), { label: 'Pallets', format: 'number' });
+  });
+
+  it('does not match inside longer numbers or without a label', () => {
+    assert.equal(inducePattern(1.01, 'Leistungsdatum: 01.01.2024'), undefined);
+    assert.equal(inducePattern(50, 'Total 150,00'), undefined);
+    assert.equal(inducePattern('PO-7', '\nPO-7'), undefined);
+    assert.equal(inducePattern('', 'Note: '), undefined);
+  });
+});
+
+describe('extractWithTemplate', () => {
+  it('reads a fresh value after the induced label', () => {
+    const date = inducePattern('2024-01-05', 'Leistungsdatum: 05.01.2024')!;
+    const extracted = extractWithTemplate(date, 'Rechnung\nLeistungsdatum:   20.02.2024\n');
+    assert.ok(extracted instanceof Date);
+    assert.deepEqual([extracted.getFullYear(), extracted.getMonth(), extracted.getDate()], [2024, 1, 20]);
+
+    const amount = inducePattern(1234.5, 'Frachtkosten: 1.234,50 EUR')!;
+    assert.equal(extractWithTemplate(amount, 'Frachtkosten: 99,90 EUR'), 99.9);
+    assert.equal(extractWithTemplate({ label: 'PO', format: 'text' }, 'PO PO-7 for site'), 'PO-7');
+  });
+
+  it('returns undefined for a missing label or an impossible date', () => {
+    const date = inducePattern('2024-01-05', 'Leistungsdatum: 05.01.2024')!;
+    assert.equal(extractWithTemplate(date, 'Rechnungsdatum: 05.01.2024'), undefined);
+    assert.equal(extractWithTemplate(date, 'Leistungsdatum: 31.02.2024'), undefined);
+  });
+});
+
+describe('describeExtractionTemplate', () => {
+  it('names the format and label', () => {
+    assert.equal(
+      describeExtractionTemplate({ label: 'Leistungsdatum:', format: 'date', datePattern: 'DD.MM.YYYY' }),
+      'DD.MM.YYYY date after "Leistungsdatum:" in raw text',
+    );
+    assert.equal(
+      describeExtractionTemplate({ label: 'Fracht:', format: 'currency' }),
+      'currency amount after "Fracht:" in raw text',
+    );
+  });
+});
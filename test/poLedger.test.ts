@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { checkPoConsumption } from '../src/engine/poLedger';
+import { createPoLedgerRepository } from '../src/memory';
+import type { PurchaseOrder } from '../src/models/purchaseOrder';
+import { invoice, memoryDatabase } from './helpers';
+
+const purchaseOrders: PurchaseOrder[] = [
+  {
+    poNumber: 'PO-100',
+    vendorName: 'Supplier GmbH',
+    orderedAt: new Date('2024-03-01T00:00:00.000Z'),
+    lineItems: [
+      { sku: 'WID-1', quantity: 10, unitPrice: 100 },
+      { sku: 'WID-2', quantity: 5, unitPrice: 20 },
+    ],
+  },
+];
+
+function consume(ledger: ReturnType<typeof createPoLedgerRepository>, id: string, quantities: number[]) {
+  const result = checkPoConsumption({
+    invoice: invoice({
+      id,
+      invoiceNumber: id,
+      metadata: { poNumber: 'PO-100' },
+      lineItems: quantities.map((quantity, i) => ({
+        id: `${id}-L${i + 1}`,
+        description: 'Widget',
+        sku: 'WID-1',
+        quantity,
+        unitPrice: 100,
+      })),
+    }),
+    ledger,
+    purchaseOrders,
+  });
+  ledger.recordConsumption(id, result.entries);
+  return result;
+}
+
+describe('checkPoConsumption', () => {
+  it('adds up invoice lines that bill the same PO line', () => {
+    const ledger = createPoLedgerRepository(memoryDatabase());
+    const first = consume(ledger, 'INV-1', [4, 3]);
+    assert.deepEqual(first.entries.map((e) => [e.sku, e.quantity]), [['WID-1', 7]]);
+    assert.equal(ledger.getInvoicedQuantity('PO-100', 'WID-1'), 7);
+
+    const second = consume(ledger, 'INV-2', [2, 2]);
+    const overBilling = second.discrepancies.find((d) => d.type === 'cumulative_over_billing');
+    assert.equal(overBilling?.invoicedQuantity, 11);
+    assert.equal(overBilling?.variance, 1);
+  });
+
+  it('replaces the ledger rows of a re-processed invoice', () => {
+    const ledger = createPoLedgerRepository(memoryDatabase());
+    consume(ledger, 'INV-1', [6]);
+    consume(ledger, 'INV-1', [4]);
+    assert.equal(ledger.getInvoicedQuantity('PO-100', 'WID-1'), 4);
+
+    ledger.recordConsumption('INV-1', []);
+    assert.deepEqual(ledger.getEntriesForPurchaseOrder('PO-100'), []);
+  });
+});
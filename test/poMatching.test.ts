@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { matchPurchaseOrder, PO_NUMBER_FIELD, scorePurchaseOrder } from '../src/engine/poMatching';
+import { emptyRecall, invoice, purchaseOrder } from './helpers';
+
+describe('scorePurchaseOrder', () => {
+  it('ignores orders of other vendors and orders placed after the invoice', () => {
+    assert.equal(scorePurchaseOrder(invoice(), purchaseOrder({ vendorName: 'Other AG' })), undefined);
+    assert.equal(
+      scorePurchaseOrder(invoice(), purchaseOrder({ orderedAt: new Date('2024-03-20T00:00:00.000Z') })),
+      undefined,
+    );
+  });
+
+  it('scores SKU and amount overlap', () => {
+    const candidate = scorePurchaseOrder(invoice(), purchaseOrder());
+    assert.ok(candidate);
+    assert.equal(candidate.signals.skuOverlap, 1);
+    assert.equal(candidate.signals.amountOverlap, 1);
+  });
+});
+
+describe('matchPurchaseOrder', () => {
+  it('proposes the best matching order', () => {
+    const result = matchPurchaseOrder({
+      invoice: invoice(),
+      recall: emptyRecall(),
+      purchaseOrders: [purchaseOrder(), purchaseOrder({ poNumber: 'PO-200', lineItems: [{ sku: 'X', quantity: 1, unitPrice: 5 }] })],
+    });
+    assert.equal(result.correction?.field, PO_NUMBER_FIELD);
+    assert.equal(result.correction?.proposedValue, 'PO-100');
+  });
+
+  it('skips invoices that already reference an order', () => {
+    const result = matchPurchaseOrder({
+      invoice: invoice({ metadata: { poNumber: 'PO-9' } }),
+      recall: emptyRecall(),
+      purchaseOrders: [purchaseOrder()],
+    });
+    assert.equal(result.correction, undefined);
+    assert.match(result.skippedReason ?? '', /PO-9/);
+  });
+});
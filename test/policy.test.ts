@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import type { DecisionPolicy } from '../src/engine/policy';
+import { loadDecisionPolicy, resolveThresholds, validateDecisionPolicy } from '../src/engine/policy';
+
+const policy: DecisionPolicy = {
+  version: 'test',
+  defaults: { autoApply: 0.8, suggest: 0.7 },
+  categories: { correction: { autoApply: 0.85 } },
+  fields: { 'lineItem:*:sku': { autoApply: 0.75 }, 'lineItem:L1:sku': { autoApply: 0.95 } },
+  vendors: {
+    'Parts AG': { defaults: { suggest: 0.6 }, fields: { taxAmount: { autoApply: 0.99, suggest: 0.99 } } },
+  },
+};
+
+describe('resolveThresholds', () => {
+  it('layers category, field, vendor and vendor-field overrides', () => {
+    assert.deepEqual(resolveThresholds(policy), { autoApply: 0.8, suggest: 0.7 });
+    assert.deepEqual(resolveThresholds(policy, { category: 'correction' }), { autoApply: 0.85, suggest: 0.7 });
+    assert.deepEqual(resolveThresholds(policy, { field: 'lineItem:L2:sku' }), { autoApply: 0.75, suggest: 0.7 });
+    assert.deepEqual(resolveThresholds(policy, { field: 'lineItem:L1:sku' }), { autoApply: 0.95, suggest: 0.7 });
+    assert.deepEqual(resolveThresholds(policy, { vendorName: 'parts ag', field: 'taxAmount' }), {
+      autoApply: 0.99,
+      suggest: 0.99,
+    });
+    assert.deepEqual(resolveThresholds(policy, { vendorName: 'Parts AG', field: 'currency' }), {
+      autoApply: 0.8,
+      suggest: 0.6,
+    });
+  });
+
+  it('never lets the suggest threshold exceed auto-apply', () => {
+    assert.deepEqual(resolveThresholds(policy, { field: 'lineItem:L2:sku', vendorName: 'Other' }), {
+      autoApply: 0.75,
+      suggest: 0.7,
+    });
+    const lowered = { ...policy, fields: { currency: { autoApply: 0.5 } } };
+    assert.deepEqual(resolveThresholds(lowered, { field: 'currency' }), { autoApply: 0.5, suggest: 0.5 });
+  });
+});
+
+describe('validateDecisionPolicy', () => {
+  it('accepts the shipped policy file', () => {
+    assert.equal(loadDecisionPolicy('data/decision_policy.json').version, '2024-finance-1');
+  });
+
+  it('lists every problem in one error', () => {
+    assert.throws(
+      () =>
+        validateDecisionPolicy({
+          version: '',
+          defaults: { autoApply: 0.5, suggest: 0.9 },
+          categories: { misc: {} },
+          fields: { taxAmount: { autoApply: 2, margin: 0.1 } },
+          conflictResolution: 'coinFlip',
+        }),
+      (error: Error) => {
+        for (const problem of [
+          'version must be a non-empty string',
+          'defaults.suggest must not exceed defaults.autoApply',
+          'categories.misc is not a memory category',
+          'fields.taxAmount.autoApply must be a number between 0 and 1',
+          'fields.taxAmount.margin is not a known threshold',
+          'conflictResolution must be one of',
+        ]) {
+          assert.ok(error.message.includes(problem), `missing "${problem}" in ${error.message}`);
+        }
+        return true;
+      },
+    );
+    assert.throws(() => validateDecisionPolicy([]), /expected an object/);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { processInvoiceWithMemory } from '../src/engine';
+import { invoiceFingerprint } from '../src/engine/duplicates';
+import { createMemoryRepository, createProcessedInvoiceRepository } from '../src/memory';
+import { invoice, memoryDatabase } from './helpers';
+
+const decision = { requiresHumanReview: true, confidenceScore: 0.6, reasoning: 'First invoice of this vendor.' };
+
+describe('createProcessedInvoiceRepository', () => {
+  it('updates the record of a re-processed invoice instead of adding one', () => {
+    const registry = createProcessedInvoiceRepository(memoryDatabase());
+    const fingerprint = invoiceFingerprint(invoice());
+    const first = registry.recordProcessedInvoice(fingerprint, decision, [], new Date('2024-03-10T08:00:00Z'));
+    const approved = { requiresHumanReview: false, confidenceScore: 0.9, reasoning: 'Approved.' };
+    const again = registry.recordProcessedInvoice(fingerprint, approved, [], new Date('2024-03-11T08:00:00Z'));
+
+    assert.equal(first.processCount, 1);
+    assert.equal(again.processCount, 2);
+    assert.deepEqual(again.firstProcessedAt, first.firstProcessedAt);
+    assert.deepEqual(again.processedAt, new Date('2024-03-11T08:00:00Z'));
+    assert.deepEqual(again.decision, approved);
+    assert.equal(registry.findProcessedInvoices({}).length, 1);
+  });
+
+  it('queries by vendor, invoice number and issue date', () => {
+    const registry = createProcessedInvoiceRepository(memoryDatabase());
+    for (const [id, invoiceNumber, vendorName, issuedAt] of [
+      ['A', 'INV-2024-001', 'Supplier GmbH', '2024-01-10'],
+      ['B', 'INV-2024-002', 'Supplier GmbH', '2024-02-10'],
+      ['C', 'RE-2024-001', 'Parts AG', '2024-02-20'],
+    ] as const) {
+      const fingerprint = invoiceFingerprint(invoice({ id, invoiceNumber, vendorName, issuedAt: new Date(issuedAt) }));
+      registry.recordProcessedInvoice(fingerprint, decision, []);
+    }
+    const ids = (query: Parameters<typeof registry.findProcessedInvoices>[0]) =>
+      registry.findProcessedInvoices(query).map((r) => r.invoiceId);
+
+    assert.deepEqual(ids({ vendorName: 'supplier gmbh' }), ['B', 'A']);
+    assert.deepEqual(ids({ invoiceNumber: 'inv-2024-001' }), ['A']);
+    assert.deepEqual(ids({ normalizedInvoiceNumber: '2024-1' }), ['C', 'A']);
+    assert.deepEqual(ids({ issuedFrom: new Date('2024-02-01'), issuedTo: new Date('2024-02-15') }), ['B']);
+    assert.deepEqual(ids({ limit: 1 }), ['C']);
+    assert.deepEqual(
+      registry.findDuplicateCandidates('Supplier GmbH', '2024-1', 'A').map((r) => r.invoiceId),
+      ['C', 'B'],
+    );
+  });
+});
+
+describe('processInvoiceWithMemory with a registry', () => {
+  it('records the decision and corrections and reports vendor history', async () => {
+    const db = memoryDatabase();
+    const repository = createMemoryRepository(db);
+    const invoiceRegistry = createProcessedInvoiceRepository(db);
+
+    const policy = { version: 'test', defaults: { autoApply: 0.7, suggest: 0.5 } };
+    const unsetCurrency = invoice({ currency: '' });
+    const first = await processInvoiceWithMemory(repository, unsetCurrency, 'Total 1000,00 EUR', undefined, {
+      invoiceRegistry,
+      policy,
+    });
+    const record = invoiceRegistry.getProcessedInvoice('INV-1');
+    assert.equal(record?.decision?.requiresHumanReview, first.requiresHumanReview);
+    assert.deepEqual(
+      record?.corrections.map(({ field, proposedValue }) => [field, proposedValue]),
+      [['currency', 'EUR']],
+    );
+
+    const second = invoice({ id: 'INV-2', invoiceNumber: 'INV-2', issuedAt: new Date('2024-04-10') });
+    const output = await processInvoiceWithMemory(repository, second, '', undefined, { invoiceRegistry });
+    const recall = output.auditTrail.find((step) => step.step === 'recall');
+    assert.deepEqual(recall?.details.vendorHistory, {
+      processedInvoices: 1,
+      reviewedInvoices: first.requiresHumanReview ? 1 : 0,
+    });
+  });
+});
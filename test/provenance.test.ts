@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { explainAppliedCorrection, processInvoiceWithMemory } from '../src/engine';
+import { createMemoryRepository, createProcessedInvoiceRepository, createProvenanceRepository } from '../src/memory';
+import { invoice, memoryDatabase } from './helpers';
+
+describe('createProvenanceRepository', () => {
+  it('returns a memory lineage oldest first, optionally as of a point in time', () => {
+    const provenance = createProvenanceRepository(memoryDatabase());
+    const event = (invoiceId: string, outcome: 'approved' | 'rejected', newConfidence: number, at: string) =>
+      provenance.recordEvent({
+        memoryId: 'm1',
+        action: outcome === 'approved' ? 'reinforce' : 'decay',
+        source: 'feedback',
+        invoiceId,
+        field: 'currency',
+        proposedValue: { currency: 'EUR' },
+        outcome,
+        previousConfidence: 0.8,
+        newConfidence,
+        recordedAt: new Date(at),
+      });
+    event('INV-2', 'rejected', 0.7, '2024-02-01');
+    event('INV-1', 'approved', 0.8, '2024-01-01');
+    event('INV-1', 'approved', 0.85, '2024-03-01');
+
+    const lineage = provenance.getLineage('m1');
+    assert.deepEqual(lineage.invoiceIds, ['INV-1', 'INV-2']);
+    assert.deepEqual([lineage.approvals, lineage.rejections, lineage.confidence], [2, 1, 0.85]);
+    assert.deepEqual(lineage.events[0]?.proposedValue, { currency: 'EUR' });
+
+    const earlier = provenance.getLineage('m1', new Date('2024-02-15'));
+    assert.deepEqual([earlier.events.length, earlier.confidence], [2, 0.7]);
+    assert.deepEqual(earlier.asOf, new Date('2024-02-15'));
+    assert.equal(provenance.findEventsForInvoice('INV-2').length, 1);
+    assert.deepEqual(provenance.getLineage('unknown').events, []);
+  });
+});
+
+describe('explainAppliedCorrection', () => {
+  it('explains an auto-applied correction by the feedback that came before it', async () => {
+    const db = memoryDatabase();
+    const repository = createMemoryRepository(db);
+    const provenance = createProvenanceRepository(db);
+    const invoiceRegistry = createProcessedInvoiceRepository(db);
+    const policy = { version: 'test', defaults: { autoApply: 0.5, suggest: 0.5 } };
+    const options = { provenance, invoiceRegistry, policy };
+
+    await processInvoiceWithMemory(
+      repository,
+      invoice({ currency: '' }),
+      '',
+      { approvedCorrections: [], rejectedCorrections: [], corrections: [{ field: 'currency', value: 'EUR' }] },
+      options,
+    );
+    const second = invoice({ id: 'INV-2', invoiceNumber: 'INV-2', currency: '' });
+    const output = await processInvoiceWithMemory(
+      repository,
+      second,
+      '',
+      { approvedCorrections: ['currency'], rejectedCorrections: [], corrections: [] },
+      options,
+    );
+    const applied = output.proposedCorrections.find((c) => c.field === 'currency');
+    assert.equal(applied?.applied, true);
+
+    const explanation = explainAppliedCorrection(provenance, invoiceRegistry, 'INV-2', 'currency');
+    assert.equal(explanation?.correction.memoryId, applied?.memoryId);
+    assert.deepEqual(
+      explanation?.lineage.events.map(({ action, invoiceId, outcome }) => [action, invoiceId, outcome]),
+      [['create', 'INV-1', 'approved']],
+    );
+    assert.deepEqual(provenance.getLineage(applied!.memoryId!).invoiceIds, ['INV-1', 'INV-2']);
+    assert.equal(explainAppliedCorrection(provenance, invoiceRegistry, 'INV-2', 'taxAmount'), undefined);
+    assert.equal(explainAppliedCorrection(provenance, invoiceRegistry, 'INV-9', 'currency'), undefined);
+  });
+});
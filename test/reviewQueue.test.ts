@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { assignReview, completeReview, escalateReview, reviewDueAt, startReview } from '../src/engine/reviewQueue';
+import { createReviewQueueRepository } from '../src/memory';
+import type { ReviewQueueRepository } from '../src/memory';
+import { memoryDatabase } from './helpers';
+
+const queuedAt = new Date('2024-03-01T08:00:00.000Z');
+
+function enqueue(queue: ReviewQueueRepository, runId: string) {
+  return queue.enqueue({
+    runId,
+    invoiceId: `INV-${runId}`,
+    vendorName: 'Supplier GmbH',
+    priority: 'normal',
+    proposedCorrections: [{ field: 'currency', proposedValue: 'EUR', reason: 'test', confidence: 0.7, applied: false }],
+    reasoning: 'test',
+    confidenceScore: 0.7,
+    dueAt: reviewDueAt('normal', queuedAt),
+    createdAt: queuedAt,
+  });
+}
+
+describe('review queue deadlines', () => {
+  it('reports only open items past their deadline as overdue', () => {
+    const queue = createReviewQueueRepository(memoryDatabase());
+    const pending = enqueue(queue, 'r1');
+    const completed = enqueue(queue, 'r2');
+    const escalated = enqueue(queue, 'r3');
+    const later = new Date('2024-03-03T08:00:00.000Z');
+
+    assignReview(queue, completed.id, 'anna', queuedAt);
+    startReview(queue, completed.id, queuedAt);
+    completeReview(queue, completed.id, { outcome: 'approved', decisions: { currency: 'approved' } }, { now: later });
+    escalateReview(queue, escalated.id, 'Vendor disputes the amount', queuedAt);
+
+    assert.deepEqual(
+      queue.findItems({ dueBefore: later }).map((item) => item.id),
+      [escalated.id, pending.id],
+    );
+    assert.deepEqual(
+      queue.findItems({ dueBefore: later, status: 'approved' }).map((item) => item.id),
+      [],
+    );
+    assert.equal(queue.findItems({ status: 'approved' })[0]?.id, completed.id);
+  });
+});
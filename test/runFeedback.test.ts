@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { learnFromRunFeedback, processInvoiceWithMemory } from '../src/engine';
+import { createEngineRunRepository, createMemoryRepository } from '../src/memory';
+import { invoice, learnedMemory, memoryDatabase } from './helpers';
+
+describe('learnFromRunFeedback', () => {
+  function setup() {
+    const db = memoryDatabase();
+    const repository = createMemoryRepository(db);
+    const runs = createEngineRunRepository(db);
+    const content = {
+      category: 'vendor' as const,
+      vendorName: 'Supplier GmbH',
+      field: 'currency',
+      confidence: 0.8,
+      usageCount: 1,
+      metadata: { proposedValue: 'EUR' },
+    };
+    repository.saveMemory(learnedMemory('m1', content, new Date()));
+    return { repository, runs };
+  }
+
+  it('learns from the proposals of the stored run even when a re-run would not propose them', async () => {
+    const { repository, runs } = setup();
+    await processInvoiceWithMemory(repository, invoice({ currency: '' }), '', undefined, { runs, runId: 'r1' });
+    assert.deepEqual(runs.getRun('r1')!.proposedCorrections.map((c) => c.field), ['currency']);
+
+    repository.deleteMemory('m1');
+    const rerun = await processInvoiceWithMemory(repository, invoice({ currency: '' }), '', undefined);
+    assert.deepEqual(rerun.proposedCorrections, []);
+
+    const output = await learnFromRunFeedback(
+      repository,
+      runs,
+      'r1',
+      { approvedCorrections: ['currency'], rejectedCorrections: [] },
+      { runId: 'r2' },
+    );
+    assert.equal(output.memoryUpdates.length, 1);
+    assert.equal(runs.getRun('r1')!.feedbackRunId, 'r2');
+  });
+
+  it('refuses fields the stored run did not propose and feedback given twice', async () => {
+    const { repository, runs } = setup();
+    await processInvoiceWithMemory(repository, invoice({ currency: '' }), '', undefined, { runs, runId: 'r1' });
+    const feedback = { approvedCorrections: ['taxAmount'], rejectedCorrections: [] };
+    await assert.rejects(
+      learnFromRunFeedback(repository, runs, 'r1', feedback),
+      /proposed no correction for: taxAmount/,
+    );
+    await assert.rejects(learnFromRunFeedback(repository, runs, 'missing', feedback), /Run missing not found/);
+
+    await learnFromRunFeedback(repository, runs, 'r1', { ...feedback, approvedCorrections: ['currency'] });
+    await assert.rejects(
+      learnFromRunFeedback(repository, runs, 'r1', { ...feedback, approvedCorrections: ['currency'] }),
+      /already recorded/,
+    );
+  });
+});
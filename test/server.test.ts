@@ -0,0 +1,105 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import type { AddressInfo } from 'net';
+import type * as http from 'http';
+import { createApiServer } from '../src/server';
+import type { SqliteDatabase } from '../src/memory/db';
+import { invoice, memoryDatabase } from './helpers';
+
+interface ResponseBody {
+  error?: { code: string; message: string; details?: string[] };
+  runId?: string;
+}
+
+describe('createApiServer', () => {
+  let db: SqliteDatabase;
+  let server: http.Server;
+  let baseUrl: string;
+
+  before(async () => {
+    db = memoryDatabase();
+    server = createApiServer({ db });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    db.close();
+  });
+
+  async function call(
+    method: string,
+    path: string,
+    body?: unknown,
+  ): Promise<{ status: number; body: ResponseBody }> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      ...(body !== undefined
+        ? { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }
+        : {}),
+    });
+    const text = await response.text();
+    return { status: response.status, body: text === '' ? {} : (JSON.parse(text) as ResponseBody) };
+  }
+
+  it('rejects invalid request bodies with a validation error', async () => {
+    const response = await call('POST', '/invoices/process', { rawText: 42 });
+    assert.equal(response.status, 400);
+    assert.equal(response.body.error?.code, 'validation_error');
+    assert.ok((response.body.error?.details ?? []).length > 0);
+  });
+
+  it('accepts extracted invoices with the dates the extraction pipeline writes', async () => {
+    const fields = {
+      invoiceNumber: 'INV-2024-002',
+      invoiceDate: '18.01.2024',
+      serviceDate: '15-01-2024',
+      currency: 'EUR',
+      grossTotal: 2826.25,
+      lineItems: [{ sku: 'WIDGET-001', description: 'Widget', qty: 95, unitPrice: 25 }],
+    };
+    const extracted = { invoiceId: 'INV-X1', vendor: 'Supplier GmbH', fields, rawText: '' };
+    const processed = await call('POST', '/invoices/process', { invoice: extracted, runId: 'x1' });
+    assert.equal(processed.status, 200);
+
+    const invalid = { ...extracted, fields: { ...fields, invoiceDate: '31.13.2024x', serviceDate: 'soon' } };
+    const rejected = await call('POST', '/invoices/process', { invoice: invalid });
+    assert.equal(rejected.status, 400);
+    assert.deepEqual(rejected.body.error?.details, [
+      'invoice.fields.invoiceDate must be a date string.',
+      'invoice.fields.serviceDate must be a date string.',
+    ]);
+  });
+
+  it('returns 400 for malformed percent-encoding in a path segment', async () => {
+    const response = await call('GET', '/memories/%E0%A4%A');
+    assert.equal(response.status, 400);
+    assert.equal(response.body.error?.code, 'validation_error');
+  });
+
+  it('returns 404 for unknown runs, memories and endpoints', async () => {
+    assert.equal((await call('GET', '/runs/missing')).status, 404);
+    assert.equal((await call('GET', '/memories/missing')).status, 404);
+    assert.equal((await call('POST', '/runs/missing/feedback', { approvedCorrections: [] })).status, 404);
+    const response = await call('GET', '/nowhere');
+    assert.equal(response.status, 404);
+    assert.equal(response.body.error?.code, 'not_found');
+  });
+
+  it('returns 405 with the allowed methods', async () => {
+    const response = await fetch(`${baseUrl}/openapi.json`, { method: 'DELETE' });
+    assert.equal(response.status, 405);
+    assert.equal(response.headers.get('allow'), 'GET');
+  });
+
+  it('stores a processed run and refuses to reuse its id', async () => {
+    const request = { invoice: invoice({ id: 'INV-S1', invoiceNumber: 'INV-S1' }), rawText: '', runId: 's1' };
+    const processed = await call('POST', '/invoices/process', request);
+    assert.equal(processed.status, 200);
+    assert.equal((await call('GET', '/runs/s1')).body.runId, 's1');
+
+    const again = await call('POST', '/invoices/process', request);
+    assert.equal(again.status, 409);
+    assert.equal(again.body.error?.code, 'conflict');
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { matchThreeWay } from '../src/engine/threeWayMatch';
+import type { DeliveryNote } from '../src/models/deliveryNote';
+import { invoice, purchaseOrder } from './helpers';
+
+function deliveryNote(quantityDelivered: number, overrides: Partial<DeliveryNote> = {}): DeliveryNote {
+  return {
+    dnNumber: 'DN-1',
+    vendorName: 'Supplier GmbH',
+    poNumber: 'PO-100',
+    deliveredAt: new Date('2024-03-05T00:00:00.000Z'),
+    lineItems: [{ sku: 'WID-1', quantityDelivered }],
+    ...overrides,
+  };
+}
+
+const linked = (lineItems = invoice().lineItems) => invoice({ lineItems, metadata: { poNumber: 'PO-100' } });
+
+describe('matchThreeWay', () => {
+  it('skips invoices without a known purchase order', () => {
+    const unlinked = matchThreeWay({ invoice: invoice(), purchaseOrders: [purchaseOrder()] });
+    assert.match(unlinked.skippedReason!, /does not reference/);
+    const unknown = matchThreeWay({ invoice: invoice({ metadata: { poNumber: 'PO-9' } }), purchaseOrders: [] });
+    assert.match(unknown.skippedReason!, /PO-9 is unknown/);
+  });
+
+  it('finds no discrepancies when invoice, order and deliveries agree', () => {
+    const result = matchThreeWay({
+      invoice: linked(),
+      purchaseOrders: [purchaseOrder()],
+      deliveryNotes: [
+        deliveryNote(6),
+        deliveryNote(4, { dnNumber: 'DN-2' }),
+        deliveryNote(10, { dnNumber: 'DN-3', poNumber: 'PO-200' }),
+      ],
+    });
+    assert.deepEqual(result.discrepancies, []);
+    assert.deepEqual(result.deliveryNoteNumbers, ['DN-1', 'DN-2']);
+    assert.equal(result.toleranceExceeded, false);
+  });
+
+  it('reports over-billing, price variance and undelivered quantities', () => {
+    const result = matchThreeWay({
+      invoice: linked([{ id: 'L1', description: 'Widget', sku: 'WID-1', quantity: 12, unitPrice: 101 }]),
+      purchaseOrders: [purchaseOrder()],
+      deliveryNotes: [deliveryNote(8)],
+    });
+    assert.deepEqual(
+      result.discrepancies.map(({ type, variance, exceedsTolerance }) => [type, variance, exceedsTolerance]),
+      [
+        ['over_billing', 2, true],
+        ['price_variance', 0.01, false],
+        ['undelivered', 4, true],
+      ],
+    );
+    assert.equal(result.toleranceExceeded, true);
+  });
+
+  it('applies the configured tolerance and flags lines missing from the order', () => {
+    const result = matchThreeWay({
+      invoice: linked([
+        { id: 'L1', description: 'Widget', sku: 'WID-1', quantity: 11, unitPrice: 100 },
+        { id: 'L2', description: 'Gadget', sku: 'GAD-1', quantity: 1, unitPrice: 5 },
+      ]),
+      purchaseOrders: [purchaseOrder()],
+      tolerance: { quantity: 1, priceRatio: 0 },
+    });
+    assert.deepEqual(
+      result.discrepancies.map(({ type, exceedsTolerance }) => [type, exceedsTolerance]),
+      [
+        ['over_billing', false],
+        ['unmatched_line', true],
+      ],
+    );
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { computeVatBreakdown, findStatedGrossTotal } from '../src/engine/vat';
+import { invoice } from './helpers';
+
+describe('findStatedGrossTotal', () => {
+  it('reads the gross total in English and German', () => {
+    assert.equal(findStatedGrossTotal('Total: 2380.00 EUR'), 2380);
+    assert.equal(findStatedGrossTotal('Gesamtbetrag: 1.234,50'), 1234.5);
+  });
+
+  it('skips net totals and subtotals', () => {
+    assert.equal(findStatedGrossTotal('Net Total: 2000.00 EUR\nVAT 19%: 380.00\nTotal: 2380.00 EUR'), 2380);
+    assert.equal(findStatedGrossTotal('Netto-Summe: 100,00\nMwSt. 19%: 19,00\nBrutto: 119,00'), 119);
+    assert.equal(findStatedGrossTotal('Sub Total: 50.00'), undefined);
+  });
+});
+
+describe('computeVatBreakdown', () => {
+  it('splits a VAT-inclusive total at the rate stated in the raw text', () => {
+    const breakdown = computeVatBreakdown(invoice({ totalAmount: 1070 }), 'MwSt. 7%', 1070);
+    assert.equal(breakdown.netAmount, 1000);
+    assert.equal(breakdown.taxAmount, 70);
+  });
+});
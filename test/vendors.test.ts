@@ -0,0 +1,156 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { findVendorBlock, findVendorIdentity, mergeVendors } from '../src/engine/vendors';
+import { findVatId } from '../src/engine/vat';
+import type { LearnedMemoryContent } from '../src/models/memory';
+import { createMemoryHistoryRepository, createMemoryRepository, createVendorRepository } from '../src/memory';
+import { invoice, learnedMemory, memoryDatabase } from './helpers';
+
+const supplierText = [
+  'Rechnung an: Buyer GmbH, USt-IdNr. DE123456789',
+  '',
+  'Supplier GmbH',
+  'Hauptstr. 1, Berlin',
+  'USt-IdNr. DE999999999',
+  '',
+  'Rechnungsnr: INV-2024-001',
+].join('\n');
+
+const partsText = [
+  'Parts AG',
+  'Industriestr. 5, Wien',
+  'UID: ATU12345678',
+  '',
+  'Bill to: Buyer GmbH, VAT DE123456789',
+  'Invoice No: PA-7781',
+].join('\n');
+
+describe('findVatId', () => {
+  it('returns the first VAT ID in the text', () => {
+    assert.equal(findVatId(partsText)?.vatId, 'ATU12345678');
+  });
+});
+
+describe('findVendorIdentity', () => {
+  it('reads the VAT ID from the vendor block only', () => {
+    assert.equal(findVendorBlock(supplierText, 'Supplier GmbH')?.split('\n').length, 3);
+    const identity = findVendorIdentity(invoice({ vendorName: 'Supplier GmbH' }), supplierText);
+    assert.equal(identity.vatId, 'DE999999999');
+    assert.deepEqual(identity.fromRawText, ['vatId']);
+  });
+
+  it('ignores VAT IDs when the text does not name the vendor', () => {
+    const identity = findVendorIdentity(invoice({ vendorName: 'Freight & Co' }), partsText);
+    assert.equal(identity.vatId, undefined);
+  });
+
+  it('prefers the VAT ID supplied in metadata', () => {
+    const identity = findVendorIdentity(
+      invoice({ vendorName: 'Parts AG', metadata: { vatId: 'ATU87654321' } }),
+      partsText,
+    );
+    assert.equal(identity.vatId, 'ATU87654321');
+    assert.equal(identity.fromRawText, undefined);
+  });
+});
+
+describe('resolveVendor', () => {
+  it('keeps two vendors billing the same buyer apart', () => {
+    const vendors = createVendorRepository(memoryDatabase());
+    const supplier = vendors.resolveVendor(
+      findVendorIdentity(invoice({ vendorName: 'Supplier GmbH' }), supplierText),
+    );
+    const parts = vendors.resolveVendor(findVendorIdentity(invoice({ vendorName: 'Parts AG' }), partsText));
+
+    assert.notEqual(parts.id, supplier.id);
+    assert.equal(parts.canonicalName, 'Parts AG');
+    assert.equal(parts.vatId, 'ATU12345678');
+    assert.equal(supplier.vatId, 'DE999999999');
+  });
+
+  it('does not let a VAT ID read from the text override a name mismatch', () => {
+    const vendors = createVendorRepository(memoryDatabase());
+    const supplier = vendors.resolveVendor({ name: 'Supplier GmbH', vatId: 'DE123456789' });
+    const parts = vendors.resolveVendor({ name: 'Parts AG', vatId: 'DE123456789', fromRawText: ['vatId'] });
+
+    assert.notEqual(parts.id, supplier.id);
+    assert.equal(parts.vatId, undefined);
+    assert.equal(vendors.resolveVendor({ name: 'Supplier GmbH, Berlin' }).id, supplier.id);
+  });
+
+  it('still matches a VAT ID supplied by the extractor across names', () => {
+    const vendors = createVendorRepository(memoryDatabase());
+    const supplier = vendors.resolveVendor({ name: 'Supplier GmbH', vatId: 'DE999999999' });
+    assert.equal(vendors.resolveVendor({ name: 'Supplier Holding', vatId: 'DE 999 999 999' }).id, supplier.id);
+  });
+});
+
+describe('mergeVendors', () => {
+  function setup() {
+    const db = memoryDatabase();
+    const vendors = createVendorRepository(db);
+    const memories = createMemoryRepository(db);
+    const history = createMemoryHistoryRepository(db);
+    const source = vendors.resolveVendor({ name: 'Supplier Gmbh Berlin' });
+    const target = vendors.resolveVendor({ name: 'Supplier GmbH' });
+    const save = (id: string, vendor: typeof source, field: string, counts: Partial<LearnedMemoryContent> = {}) =>
+      memories.saveMemory(
+        learnedMemory(id, {
+          category: 'vendor',
+          vendorName: vendor.canonicalName,
+          vendorId: vendor.id,
+          field,
+          confidence: 0.7,
+          usageCount: 1,
+          ...counts,
+        }),
+      );
+    save('source-date', source, 'serviceDate', { approvalCount: 2, rejectionCount: 1 });
+    save('source-currency', source, 'currency');
+    save('target-date', target, 'serviceDate', { approvalCount: 3, rejectionCount: 0 });
+    return { vendors, memories, history, source, target };
+  }
+
+  it('moves and combines memories and marks the source as merged', () => {
+    const { vendors, memories, history, source, target } = setup();
+    const result = mergeVendors(vendors, memories, source.id, target.id, { history });
+
+    assert.deepEqual(result.movedMemoryIds, ['source-currency']);
+    assert.deepEqual(result.mergedMemoryIds, ['target-date']);
+    assert.deepEqual(result.removedMemoryIds, ['source-date']);
+    assert.equal(memories.getMemoryById('source-date'), undefined);
+
+    const merged = JSON.parse(memories.getMemoryById('target-date')!.content) as Record<string, unknown>;
+    assert.equal(merged.approvalCount, 5);
+    assert.equal(merged.rejectionCount, 1);
+    assert.equal(merged.usageCount, 2);
+    const moved = JSON.parse(memories.getMemoryById('source-currency')!.content) as Record<string, unknown>;
+    assert.equal(moved.vendorId, target.id);
+    assert.equal(vendors.getVendor(source.id)?.id, target.id);
+
+    const removal = history.findEvents({ memoryId: 'source-date' });
+    assert.deepEqual(removal.map((e) => [e.type, e.after]), [['merge', undefined]]);
+    assert.deepEqual(history.findEvents({ memoryId: 'target-date' }).map((e) => e.type), ['merge']);
+  });
+
+  it('leaves vendors and memories untouched when the merge fails', () => {
+    const { vendors, memories, source, target } = setup();
+    const failing = {
+      ...vendors,
+      merge(): never {
+        throw new Error('merge failed');
+      },
+    };
+    assert.throws(() => mergeVendors(failing, memories, source.id, target.id), /merge failed/);
+
+    assert.ok(memories.getMemoryById('source-date'));
+    const untouched = JSON.parse(memories.getMemoryById('target-date')!.content) as Record<string, unknown>;
+    assert.equal(untouched.approvalCount, 3);
+    assert.equal(vendors.getVendor(source.id)?.id, source.id);
+  });
+
+  it('refuses to merge a vendor into itself', () => {
+    const { vendors, memories, target } = setup();
+    assert.throws(() => mergeVendors(vendors, memories, target.id, target.id), /into itself/);
+  });
+});